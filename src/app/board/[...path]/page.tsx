@@ -2,9 +2,9 @@
 'use client';
 
 import React, { useEffect, useState, useContext, useCallback, useRef } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Plus, Trash2, Save, CaseSensitive, Send, ZoomIn, ZoomOut, RotateCw, ChevronsLeft, ChevronsRight, ArrowUpLeft, ArrowUpRight, ArrowDownLeft, ArrowDownRight, ImageIcon, Loader2, ArrowUp, ArrowDown, ArrowRight, Sigma } from 'lucide-react';
+import { ArrowLeft, Plus, Trash2, Save, CaseSensitive, Send, ZoomIn, ZoomOut, RotateCw, ChevronsLeft, ChevronsRight, ArrowUpLeft, ArrowUpRight, ArrowDownLeft, ArrowDownRight, ImageIcon, Loader2, ArrowUp, ArrowDown, ArrowRight, Sigma, Undo2, Redo2, Play, Presentation, FileDown, Shapes, PenTool } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -34,49 +34,77 @@ import 'react-image-crop/dist/ReactCrop.css';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
 import { GraphingCanvas } from '@/components/GraphingCanvas';
-import html2canvas from 'html2canvas';
-
-interface BaseItem {
-  id: string;
-  position: [number, number];
-  rotation: number;
-}
-interface TextItem extends BaseItem {
-  type: 'text';
-  content: string;
-  font_size: number;
-  width: number;
-}
-
-interface ImageItem extends BaseItem {
-  type: 'image';
-  filename: string;
-  width: number;
-  height: number;
-  scale: number;
-  src?: string; 
-}
+import { SlideCanvas } from '@/components/SlideCanvas';
+import { SlideView } from '@/components/SlideView';
+import { SLIDE_REFERENCE_WIDTH } from '@/lib/slide-layout';
+import { RichTextEditor } from '@/components/RichTextEditor';
+import { ExportSheet } from '@/components/ExportSheet';
+import { ShapeSheet } from '@/components/ShapeSheet';
+import { InkOverlay } from '@/components/InkOverlay';
+import { InkToolbar } from '@/components/InkToolbar';
+import { useHistory } from '@/hooks/use-history';
+import { mergeBoards } from '@/lib/board-merge';
+import { getBaseName, joinPath, resolveImageSources } from '@/lib/board-files';
+import { textToRichText } from '@/lib/rich-text';
+import { DEFAULT_INK_SETTINGS, type InkSettings } from '@/lib/ink';
+import { GRAPH_FILE_EXTENSION, serializeGraph, type Graph } from '@/lib/graph';
+import {
+  BoardFormatError,
+  createItemId,
+  parseBoard,
+  serializeBoard,
+  type BoardData,
+  type BoardIssue,
+  type BoardItem,
+  type GraphItem,
+  type ImageItem,
+  type InkItem,
+  type ShapeItem,
+  type Slide,
+  type TextItem,
+} from '@/lib/board';
 
-type BoardItem = TextItem | ImageItem;
+const AUTOSAVE_DELAY_MS = 2000;
 
-interface Slide {
-  slide_number: number;
-  items: BoardItem[];
+// Slide that was active before and after a command, so undo/redo can
+// bring the affected slide back into view.
+interface SlideChange {
+  slideBefore: number;
+  slideAfter: number;
 }
 
-interface BoardData {
-  slides: Slide[];
-}
+const formatBoardIssue = (issue: BoardIssue) => {
+  const location = issue.item !== undefined
+    ? `Slide ${issue.slide}, item ${issue.item}${issue.itemId ? ` (${issue.itemId})` : ''}`
+    : `Slide ${issue.slide}`;
+  return `${location}: ${issue.message}`;
+};
 
 export default function BoardPage() {
   const router = useRouter();
   const params = useParams();
+  const searchParams = useSearchParams();
   const { toast } = useToast();
-  const [boardData, setBoardData] = useState<BoardData | null>(null);
+  const {
+    present: boardData,
+    commit,
+    undo,
+    redo,
+    reset: resetHistory,
+    getRetainedStates,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useHistory<BoardData | null, SlideChange>(null);
   const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
   const [editingTextItem, setEditingTextItem] = useState<TextItem | null>(null);
   const [isEditingTextSheetOpen, setIsEditingTextSheetOpen] = useState(false);
+  const [isShapeSheetOpen, setIsShapeSheetOpen] = useState(false);
+  const [editingShape, setEditingShape] = useState<ShapeItem | null>(null);
+  const [isInkMode, setIsInkMode] = useState(false);
+  const [inkSettings, setInkSettings] = useState<InkSettings>(DEFAULT_INK_SETTINGS);
   const [error, setError] = useState<string | null>(null);
   const [showSaveErrorAlert, setShowSaveErrorAlert] = useState(false);
   const [isEditingImage, setIsEditingImage] = useState(false);
@@ -88,13 +116,27 @@ export default function BoardPage() {
   const [brightness, setBrightness] = useState(100);
   const [contrast, setContrast] = useState(100);
   const [isGraphingSheetOpen, setIsGraphingSheetOpen] = useState(false);
+  const [editingGraph, setEditingGraph] = useState<GraphItem | null>(null);
+  const [loadIssues, setLoadIssues] = useState<BoardIssue[]>([]);
+  const [savedData, setSavedData] = useState<BoardData | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'error'>('idle');
+  const [conflict, setConflict] = useState<{ theirs: BoardData | null; lastModified: number } | null>(null);
+  const [showLeaveAlert, setShowLeaveAlert] = useState(false);
+  const [isExportSheetOpen, setIsExportSheetOpen] = useState(false);
+  // lastModified of the .board file as of our last load or save.
+  const diskLastModified = useRef<number | null>(null);
+  const isSaving = useRef(false);
 
 
   const context = useContext(WorkspaceContext);
   if (!context) {
     throw new Error("BoardPage must be used within a WorkspaceProvider");
   }
-  const { readFile, writeFile, rootDirectoryHandle, deleteItemByPath } = context;
+  const { readFile, writeFile, getFileMetadata, fileExists, rootDirectoryHandle, deleteItemByPath } = context;
+  // Image files this session deleted or inserted. They are only removed from
+  // disk once a save confirms neither the board nor any undo/redo step
+  // references them, so deletions and inserts stay undoable.
+  const orphanCandidates = useRef<Set<string>>(new Set());
 
   const getFilePath = useCallback(() => {
     if (!params.path) return null;
@@ -117,120 +159,247 @@ export default function BoardPage() {
     return parts[parts.length - 1];
   };
 
-  const saveBoard = useCallback(async (data: BoardData | null = boardData) => {
-    if (!data) return;
+  const resolveImages = useCallback(
+    (data: BoardData) => resolveImageSources(data, getFileDirectory(), readFile),
+    [getFileDirectory, readFile]
+  );
+
+  const loadBoard = useCallback(async () => {
     const filePath = getFilePath();
-    if (!filePath) return;
-    try {
-      const dataToSave = {
-        ...data,
-        slides: data.slides.map(slide => ({
-            ...slide,
-            items: slide.items.map(item => {
-                if(item.type === 'image') {
-                    const { src, ...rest } = item as ImageItem;
-                    return rest;
-                }
-                return item;
-            })
-        }))
-      };
+    if (!filePath || !rootDirectoryHandle) return;
 
-      const content = JSON.stringify(dataToSave, null, 2);
-      await writeFile(filePath, content);
-      setShowSaveErrorAlert(false);
-      toast({ title: "Board Saved", description: "Your changes have been saved to the file." });
+    try {
+      const fileContent = await readFile(filePath);
+      const { lastModified } = await getFileMetadata(filePath);
+      const { data, issues, migratedFrom } = parseBoard(fileContent as string);
+      const dataWithImages = await resolveImages(data);
+      resetHistory(dataWithImages);
+      setSavedData(dataWithImages);
+      const requestedSlide = (Number(searchParams.get('slide')) || 1) - 1;
+      setCurrentSlideIndex(Math.max(0, Math.min(requestedSlide, dataWithImages.slides.length - 1)));
+      diskLastModified.current = lastModified;
+      setLoadIssues(issues);
+      setError(null);
+      if (migratedFrom !== null) {
+        toast({ title: "Board Upgraded", description: `This board was converted from format version ${migratedFrom}. Save to keep the new format.` });
+      }
     } catch (err) {
-      setShowSaveErrorAlert(true);
+      if (err instanceof BoardFormatError) {
+        setError(`Failed to load board data: ${err.message}`);
+        setLoadIssues(err.issues);
+      } else if (err instanceof Error) {
+        setError(`Failed to load board data: ${err.message}`);
+      } else {
+        setError('An unknown error occurred while loading board data.');
+      }
       console.error(err);
     }
-  }, [getFilePath, writeFile, toast, boardData]);
+  }, [getFilePath, readFile, getFileMetadata, resolveImages, rootDirectoryHandle, searchParams, toast, resetHistory]);
 
   useEffect(() => {
-    const loadBoard = async () => {
-      const filePath = getFilePath();
-      if (!filePath || !rootDirectoryHandle) return;
+    loadBoard();
+  }, [loadBoard]);
 
-      try {
-        const fileContent = await readFile(filePath);
-        const data = JSON.parse(fileContent as string) as BoardData;
-        
-        const dataWithDefaults: BoardData = {
-          ...data,
-          slides: await Promise.all(data.slides.map(async (slide) => ({
-            ...slide,
-            items: await Promise.all((slide.items || []).map(async (item: any) => {
-              const baseItem = {
-                id: item.id || `item-${Date.now()}-${Math.random()}`,
-                position: item.position || [50, 50],
-                rotation: item.rotation || 0,
-              };
-
-              if (item.type === 'image') {
-                const dir = getFileDirectory();
-                const imagePath = dir ? `${dir}/${item.filename}` : item.filename;
-                let imageSrc = '';
-                try {
-                  const imageContent = await readFile(imagePath, 'readwrite');
-                  const fileType = item.filename.endsWith('png') ? 'image/png' : 'image/jpeg';
-                  const blob = new Blob([imageContent], { type: fileType });
-                  imageSrc = URL.createObjectURL(blob);
-                } catch(e) {
-                  console.error("Could not load image", imagePath, e);
-                  imageSrc = 'https://placehold.co/300x200/EEE/31343C?text=Not+Found'
-                }
+  const isDirty = boardData !== null && boardData !== savedData;
 
-                return {
-                  ...baseItem,
-                  type: 'image',
-                  filename: item.filename,
-                  width: item.width || 200,
-                  height: item.height || 200,
-                  scale: item.scale || 1,
-                  src: imageSrc,
-                };
-              }
-              
-              return {
-                ...baseItem,
-                type: 'text',
-                content: item.content,
-                font_size: item.font_size || 24,
-                width: item.width || 200,
-              };
-            }))
-          })))
-        };
-        setBoardData(dataWithDefaults);
-        setError(null);
-      } catch (err) {
-        if (err instanceof Error) {
-          setError(`Failed to load board data: ${err.message}`);
-        } else {
-          setError('An unknown error occurred while loading board data.');
+  const saveBoard = useCallback(async (
+    data: BoardData | null = boardData,
+    { force = false, silent = false }: { force?: boolean; silent?: boolean } = {}
+  ) => {
+    if (!data || isSaving.current) return false;
+    const filePath = getFilePath();
+    if (!filePath) return false;
+    isSaving.current = true;
+    setSaveStatus('saving');
+    try {
+      if (!force && diskLastModified.current !== null) {
+        const { lastModified } = await getFileMetadata(filePath);
+        if (lastModified !== diskLastModified.current) {
+          let theirs: BoardData | null = null;
+          try {
+            theirs = parseBoard((await readFile(filePath)) as string).data;
+          } catch (e) {
+            console.error("Could not read the changed board file", e);
+          }
+          setConflict({ theirs, lastModified });
+          setSaveStatus('idle');
+          return false;
         }
-        console.error(err);
       }
+
+      await writeFile(filePath, serializeBoard(data));
+      diskLastModified.current = (await getFileMetadata(filePath)).lastModified;
+      setSavedData(data);
+      setSaveStatus('idle');
+      setShowSaveErrorAlert(false);
+      if (!silent) {
+        toast({ title: "Board Saved", description: "Your changes have been saved to the file." });
+      }
+    } catch (err) {
+      setSaveStatus('error');
+      setShowSaveErrorAlert(true);
+      console.error(err);
+      return false;
+    } finally {
+      isSaving.current = false;
+    }
+
+    const referenced = new Set([data, ...getRetainedStates()].flatMap(state =>
+      state?.slides.flatMap(slide =>
+        slide.items.flatMap(item => item.type === 'image' ? [item.filename] : [])
+      ) ?? []
+    ));
+    const dir = getFileDirectory();
+    for (const filename of Array.from(orphanCandidates.current)) {
+      if (referenced.has(filename)) continue;
+      orphanCandidates.current.delete(filename);
+      try {
+        await deleteItemByPath(dir ? `${dir}/${filename}` : filename);
+      } catch (e) {
+        console.error("Failed to delete image file", filename, e);
+      }
+    }
+    return true;
+  }, [getFilePath, getFileDirectory, readFile, writeFile, getFileMetadata, deleteItemByPath, toast, boardData, getRetainedStates]);
+
+  // Autosave waits until the user has seen what could not be loaded.
+  useEffect(() => {
+    if (!isDirty || conflict || saveStatus !== 'idle' || loadIssues.length > 0) return;
+    const timer = setTimeout(() => saveBoard(boardData, { silent: true }), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isDirty, conflict, saveStatus, loadIssues, boardData, saveBoard]);
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
     };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
 
-    loadBoard();
-  }, [getFilePath, getFileDirectory, readFile, rootDirectoryHandle]);
+  const handleBack = () => {
+    if (isDirty) {
+      setShowLeaveAlert(true);
+    } else {
+      router.back();
+    }
+  };
 
-  const updateItem = (id: string, updates: Partial<BoardItem>) => {
+  const handleSaveAndLeave = async () => {
+    setShowLeaveAlert(false);
+    if (await saveBoard(boardData, { silent: true })) {
+      router.back();
+    }
+  };
+
+  const handlePresent = async () => {
+    const filePath = getFilePath();
+    if (!filePath) return;
+    if (isDirty && !(await saveBoard(boardData, { silent: true }))) return;
+    router.push(`/present/${encodeURIComponent(filePath)}?slide=${currentSlideIndex + 1}`);
+  };
+
+  const handlePresenterView = async () => {
+    const filePath = getFilePath();
+    if (!filePath) return;
+    if (isDirty && !(await saveBoard(boardData, { silent: true }))) return;
+    router.push(`/presenter/${encodeURIComponent(filePath)}?slide=${currentSlideIndex + 1}`);
+  };
+
+  const handleConflictOverwrite = async () => {
+    setConflict(null);
+    await saveBoard(boardData, { force: true });
+  };
+
+  const handleConflictReload = async () => {
+    setConflict(null);
+    setSelectedItemId(null);
+    setCurrentSlideIndex(0);
+    await loadBoard();
+  };
+
+  const handleConflictMerge = async () => {
+    if (!conflict?.theirs || !boardData || !savedData) return;
+    const { data, conflicts } = mergeBoards(savedData, boardData, conflict.theirs);
+    const merged = await resolveImages(data);
+    setConflict(null);
+    const slideAfter = Math.max(0, Math.min(currentSlideIndex, merged.slides.length - 1));
+    commit(merged, {
+      label: 'Merge external changes',
+      meta: { slideBefore: currentSlideIndex, slideAfter },
+    });
+    setCurrentSlideIndex(slideAfter);
+    setSelectedItemId(null);
+    await saveBoard(merged, { force: true });
+    if (conflicts > 0) {
+      toast({ title: "Merged with conflicts", description: `${conflicts} item(s) were changed in both places; your version was kept.` });
+    }
+  };
+
+  const commitChange = (
+    data: BoardData,
+    label: string,
+    options: { mergeKey?: string; slideAfter?: number } = {}
+  ) => {
+    const slideAfter = options.slideAfter ?? currentSlideIndex;
+    commit(data, {
+      label,
+      mergeKey: options.mergeKey,
+      meta: { slideBefore: currentSlideIndex, slideAfter },
+      mergeMeta: (previous, next) => ({ slideBefore: previous.slideBefore, slideAfter: next.slideAfter }),
+    });
+    if (slideAfter !== currentSlideIndex) setCurrentSlideIndex(slideAfter);
+  };
+
+  const updateItem = (id: string, updates: Partial<BoardItem>, label = 'Edit item', mergeKey?: string) => {
     if (!boardData) return;
     const updatedSlides = boardData.slides.map((slide, index) => {
         if (index === currentSlideIndex) {
             return {
                 ...slide,
                 items: slide.items.map(item => 
-                    item.id === id ? { ...item, ...updates } : item
+                    item.id === id ? { ...item, ...updates } as BoardItem : item
                 )
             };
         }
         return slide;
     });
-    setBoardData({ ...boardData, slides: updatedSlides });
+    commitChange({ ...boardData, slides: updatedSlides }, label, { mergeKey });
   };
+
+  const handleUndo = useCallback(() => {
+    const command = undo();
+    if (!command) return;
+    setCurrentSlideIndex(command.meta.slideBefore);
+    setSelectedItemId(null);
+  }, [undo]);
+
+  const handleRedo = useCallback(() => {
+    const command = redo();
+    if (!command) return;
+    setCurrentSlideIndex(command.meta.slideAfter);
+    setSelectedItemId(null);
+  }, [redo]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
   
   const handleAddSlide = () => {
     if (!boardData) return;
@@ -245,18 +414,15 @@ export default function BoardPage() {
         ...boardData.slides.slice(currentSlideIndex + 1),
     ].map((slide, index) => ({ ...slide, slide_number: index + 1 }));
 
-    const updatedData = { ...boardData, slides: newSlides };
-    setBoardData(updatedData);
-    setCurrentSlideIndex(currentSlideIndex + 1);
+    commitChange({ ...boardData, slides: newSlides }, 'Add slide', { slideAfter: currentSlideIndex + 1 });
   };
   
   const handleDeleteSlide = () => {
     if (boardData && boardData.slides.length > 1) {
       const updatedSlides = boardData.slides.filter((_, index) => index !== currentSlideIndex);
       const renumberedSlides = updatedSlides.map((slide, index) => ({ ...slide, slide_number: index + 1 }));
-      const newData = { ...boardData, slides: renumberedSlides };
-      setBoardData(newData);
-      setCurrentSlideIndex(Math.max(0, currentSlideIndex - 1));
+      commitChange({ ...boardData, slides: renumberedSlides }, 'Delete slide', { slideAfter: Math.max(0, currentSlideIndex - 1) });
+      setSelectedItemId(null);
     }
   };
   
@@ -270,7 +436,7 @@ export default function BoardPage() {
     const newText: TextItem = {
       id: `text-${Date.now()}-${Math.random()}`,
       type: 'text',
-      content: 'New Text',
+      content: textToRichText('New Text'),
       position: [50, 50],
       font_size: 24,
       width: 200,
@@ -282,9 +448,17 @@ export default function BoardPage() {
       }
       return slide;
     });
-    setBoardData({ ...boardData, slides: updatedSlides });
+    commitChange({ ...boardData, slides: updatedSlides }, 'Add text');
   };
   
+  const handleNotesChange = (notes: string) => {
+    if (!boardData) return;
+    const updatedSlides = boardData.slides.map((slide, index) =>
+      index === currentSlideIndex ? { ...slide, notes } : slide
+    );
+    commitChange({ ...boardData, slides: updatedSlides }, 'Edit notes', { mergeKey: `notes:${currentSlideIndex}` });
+  };
+
   const handleTextDoubleClick = (item: TextItem) => {
     setEditingTextItem(item);
     setIsEditingTextSheetOpen(true);
@@ -292,12 +466,60 @@ export default function BoardPage() {
 
   const handleTextUpdate = () => {
       if (editingTextItem) {
-          updateItem(editingTextItem.id, { content: editingTextItem.content });
+          updateItem(editingTextItem.id, { content: editingTextItem.content }, 'Edit text');
       }
       setIsEditingTextSheetOpen(false);
       setEditingTextItem(null);
   }
 
+  const handleAddShape = () => {
+    setEditingShape(null);
+    setIsShapeSheetOpen(true);
+  };
+
+  const handleShapeDoubleClick = (item: ShapeItem) => {
+    setEditingShape(item);
+    setIsShapeSheetOpen(true);
+  };
+
+  const handleShapeSave = (shape: ShapeItem) => {
+    if (!boardData) return;
+    if (editingShape) {
+      const { id, position, rotation, width, height, ...style } = shape;
+      updateItem(id, style, 'Edit shape');
+    } else {
+      const updatedSlides = boardData.slides.map((slide, index) =>
+        index === currentSlideIndex ? { ...slide, items: [...slide.items, shape] } : slide
+      );
+      commitChange({ ...boardData, slides: updatedSlides }, 'Add shape');
+      setSelectedItemId(shape.id);
+    }
+    setIsShapeSheetOpen(false);
+    setEditingShape(null);
+  };
+
+  const handleToggleInk = () => {
+    setIsInkMode(active => !active);
+    setSelectedItemId(null);
+  };
+
+  const handleAddStroke = (stroke: InkItem) => {
+    if (!boardData) return;
+    const updatedSlides = boardData.slides.map((slide, index) =>
+      index === currentSlideIndex ? { ...slide, items: [...slide.items, stroke] } : slide
+    );
+    commitChange({ ...boardData, slides: updatedSlides }, 'Draw');
+  };
+
+  const handleEraseStrokes = (ids: string[], gestureId: string) => {
+    if (!boardData) return;
+    const updatedSlides = boardData.slides.map((slide, index) =>
+      index === currentSlideIndex ? { ...slide, items: slide.items.filter(item => !ids.includes(item.id)) } : slide
+    );
+    // One eraser drag is a single undo step.
+    commitChange({ ...boardData, slides: updatedSlides }, 'Erase ink', { mergeKey: gestureId });
+  };
+
   const handleMoveItem = (direction: 'up' | 'down' | 'left' | 'right' | 'up-left' | 'up-right' | 'down-left' | 'down-right') => {
     if (!selectedItemId) return;
     const step = 2; // Percentage step
@@ -317,7 +539,7 @@ export default function BoardPage() {
         case 'down-left': newY += step; newX -= step; break;
         case 'down-right': newY += step; newX += step; break;
     }
-    updateItem(selectedItemId, { position: [newX, newY] });
+    updateItem(selectedItemId, { position: [newX, newY] }, 'Move item', `move:${selectedItemId}`);
   };
   
   const handleRotateItem = () => {
@@ -325,7 +547,7 @@ export default function BoardPage() {
     const currentItem = boardData?.slides[currentSlideIndex].items.find(t => t.id === selectedItemId);
     if (!currentItem) return;
     const rotationStep = 5; // degrees
-    updateItem(selectedItemId, { rotation: currentItem.rotation + rotationStep });
+    updateItem(selectedItemId, { rotation: currentItem.rotation + rotationStep }, 'Rotate item', `rotate:${selectedItemId}`);
   };
 
   const handleScaleItem = (scaleDirection: 'up' | 'down') => {
@@ -338,13 +560,19 @@ export default function BoardPage() {
         const newFontSize = scaleDirection === 'up'
             ? currentItem.font_size + scaleStep
             : Math.max(8, currentItem.font_size - scaleStep);
-        updateItem(selectedItemId, { font_size: newFontSize } as Partial<TextItem>);
-      } else if (currentItem.type === 'image') {
+        updateItem(selectedItemId, { font_size: newFontSize } as Partial<TextItem>, 'Resize text', `scale:${selectedItemId}`);
+      } else if (currentItem.type === 'image' || currentItem.type === 'ink') {
           const scaleStep = 0.1;
           const newScale = scaleDirection === 'up' 
             ? currentItem.scale + scaleStep
             : Math.max(0.1, currentItem.scale - scaleStep);
-          updateItem(selectedItemId, { scale: newScale } as Partial<ImageItem>);
+          updateItem(selectedItemId, { scale: newScale } as Partial<ImageItem | InkItem>, currentItem.type === 'image' ? 'Scale image' : 'Scale ink', `scale:${selectedItemId}`);
+      } else if (currentItem.type === 'shape' || currentItem.type === 'graph') {
+          const factor = scaleDirection === 'up' ? 1.1 : 1 / 1.1;
+          updateItem(selectedItemId, {
+            width: Math.max(4, Math.round(currentItem.width * factor)),
+            height: Math.max(4, Math.round(currentItem.height * factor)),
+          } as Partial<ShapeItem | GraphItem>, currentItem.type === 'shape' ? 'Scale shape' : 'Scale graph', `scale:${selectedItemId}`);
       }
   };
 
@@ -356,24 +584,16 @@ export default function BoardPage() {
       const newWidth = changeDirection === 'increase'
           ? currentItem.width + widthStep
           : Math.max(50, currentItem.width - widthStep);
-      updateItem(selectedItemId, { width: newWidth });
+      updateItem(selectedItemId, { width: newWidth }, 'Change width', `width:${selectedItemId}`);
   };
 
-  const handleDeleteItem = async () => {
+  const handleDeleteItem = () => {
       if (!selectedItemId || !boardData) return;
       
       const itemToDelete = boardData.slides[currentSlideIndex].items.find(item => item.id === selectedItemId);
 
       if (itemToDelete?.type === 'image') {
-        const dir = getFileDirectory();
-        const imagePath = dir ? `${dir}/${itemToDelete.filename}` : itemToDelete.filename;
-        try {
-            await deleteItemByPath(imagePath);
-            toast({ title: "Image file deleted", description: `Successfully deleted ${itemToDelete.filename}`});
-        } catch (e) {
-            console.error("Failed to delete image file", e);
-            toast({ title: "Error deleting file", description: "Could not delete the image file from storage.", variant: "destructive" });
-        }
+        orphanCandidates.current.add(itemToDelete.filename);
       }
 
       const updatedSlides = boardData.slides.map((slide, index) => {
@@ -383,7 +603,7 @@ export default function BoardPage() {
           return slide;
       });
 
-      setBoardData({ ...boardData, slides: updatedSlides });
+      commitChange({ ...boardData, slides: updatedSlides }, 'Delete item');
       setSelectedItemId(null);
   };
   
@@ -426,7 +646,7 @@ export default function BoardPage() {
     }
   };
 
-  const onImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+  const onImageLoad = () => {
     // No aspect ratio constraint
   };
 
@@ -471,6 +691,77 @@ export default function BoardPage() {
     setIsGraphingSheetOpen(false);
   };
 
+  const handleAddGraph = () => {
+    setEditingGraph(null);
+    setIsGraphingSheetOpen(true);
+  };
+
+  const handleGraphDoubleClick = (item: GraphItem) => {
+    setEditingGraph(item);
+    setIsGraphingSheetOpen(true);
+  };
+
+  const handleGraphInsert = (graph: Graph) => {
+    if (!boardData) return;
+    if (editingGraph) {
+      updateItem(editingGraph.id, { graph }, 'Edit graph');
+    } else {
+      const item: GraphItem = {
+        id: createItemId('graph'),
+        type: 'graph',
+        position: [50, 50],
+        rotation: 0,
+        width: 640,
+        height: 400,
+        graph,
+      };
+      const updatedSlides = boardData.slides.map((slide, index) =>
+        index === currentSlideIndex ? { ...slide, items: [...slide.items, item] } : slide
+      );
+      commitChange({ ...boardData, slides: updatedSlides }, 'Add graph');
+      setSelectedItemId(item.id);
+    }
+    setIsGraphingSheetOpen(false);
+    setEditingGraph(null);
+  };
+
+  const handleGraphInsertText = (tex: string) => {
+    if (!boardData) return;
+    const item: TextItem = {
+      id: createItemId('text'),
+      type: 'text',
+      content: textToRichText(`$${tex}$`),
+      position: [50, 50],
+      font_size: 24,
+      width: 400,
+      rotation: 0,
+    };
+    const updatedSlides = boardData.slides.map((slide, index) =>
+      index === currentSlideIndex ? { ...slide, items: [...slide.items, item] } : slide
+    );
+    commitChange({ ...boardData, slides: updatedSlides }, 'Add text');
+  };
+
+  // Saves the graph next to the board as a standalone .graph file, named
+  // after the board and never overwriting an existing file.
+  const handleGraphSave = async (graph: Graph) => {
+    const filePath = getFilePath();
+    if (!filePath) return;
+    const directory = getFileDirectory();
+    const baseName = getBaseName(filePath);
+    let graphName = `${baseName}${GRAPH_FILE_EXTENSION}`;
+    try {
+      for (let n = 2; await fileExists(joinPath(directory, graphName)); n++) {
+        graphName = `${baseName} (${n})${GRAPH_FILE_EXTENSION}`;
+      }
+      await writeFile(joinPath(directory, graphName), serializeGraph(graph));
+      toast({ title: "Graph Saved", description: `"${graphName}" has been saved to the workspace.` });
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Save failed", description: "Could not write the graph file.", variant: "destructive" });
+    }
+  };
+
   const handleInsertImage = async () => {
     if (!imgRef.current) return;
     const finalCrop = crop || { x: 0, y: 0, width: imgRef.current.width, height: imgRef.current.height, unit: 'px' };
@@ -483,7 +774,8 @@ export default function BoardPage() {
         const newFilename = `edited-${Date.now()}.png`;
         const fileDirectory = getFileDirectory();
         const fullPath = fileDirectory ? `${fileDirectory}/${newFilename}` : newFilename;
-        await writeFile(fullPath, blob as any);
+        await writeFile(fullPath, blob);
+        orphanCandidates.current.add(newFilename);
 
         const img = new Image();
         img.src = dataUrl;
@@ -511,7 +803,7 @@ export default function BoardPage() {
                 }
                 return slide;
             });
-            setBoardData({ ...boardData, slides: updatedSlides });
+            commitChange({ ...boardData, slides: updatedSlides }, 'Insert image');
         }
         
     } catch (e) {
@@ -529,11 +821,6 @@ export default function BoardPage() {
 
   const currentSlide = boardData?.slides[currentSlideIndex];
   const selectedItem = currentSlide?.items.find(i => i.id === selectedItemId);
-  const sortedItems = currentSlide ? [...currentSlide.items].sort((a, b) => {
-    if (a.type === 'image' && b.type === 'text') return -1;
-    if (a.type === 'text' && b.type === 'image') return 1;
-    return 0;
-  }) : [];
 
 
   return (
@@ -541,15 +828,33 @@ export default function BoardPage() {
       {/* Header */}
       <header className="flex-shrink-0 h-12 flex items-center justify-between px-3 box-border bg-card border-b border-border">
         <div className="flex items-center gap-2">
-          <Button variant="ghost" size="icon" onClick={() => router.back()}>
+          <Button variant="ghost" size="icon" onClick={handleBack}>
             <ArrowLeft className="h-4 w-4" />
             <span className="sr-only">Back</span>
           </Button>
           <h1 className="text-lg font-semibold truncate">
             {getFileName()}
           </h1>
+          {boardData && (
+            <span className="text-xs text-muted-foreground flex items-center gap-1.5 whitespace-nowrap">
+              <span className={cn("h-2 w-2 rounded-full", isDirty ? "bg-amber-500" : "bg-emerald-500")} />
+              {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'error' ? 'Save failed' : conflict ? 'File changed on disk' : isDirty ? 'Unsaved changes' : 'Saved'}
+            </span>
+          )}
         </div>
         <div className="flex items-center">
+            <Button variant="ghost" size="icon" onClick={handlePresent} disabled={!boardData}>
+              <Play className="h-5 w-5" />
+              <span className="sr-only">Present</span>
+            </Button>
+            <Button variant="ghost" size="icon" onClick={handlePresenterView} disabled={!boardData}>
+              <Presentation className="h-5 w-5" />
+              <span className="sr-only">Presenter View</span>
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => setIsExportSheetOpen(true)} disabled={!boardData}>
+              <FileDown className="h-5 w-5" />
+              <span className="sr-only">Export</span>
+            </Button>
             <Button variant="ghost" size="icon" onClick={() => saveBoard()}>
               <Save className="h-5 w-5" />
               <span className="sr-only">Save Board</span>
@@ -570,14 +875,12 @@ export default function BoardPage() {
                         <Card
                             onClick={() => handleThumbnailClick(index)}
                             className={cn(
-                                "cursor-pointer transition-all border-2 w-24 h-16 box-border relative",
+                                "cursor-pointer transition-all border-2 w-24 aspect-video box-border relative overflow-hidden",
                                 index === currentSlideIndex ? "border-primary" : "border-transparent hover:border-muted-foreground/50"
                             )}
                         >
-                            <CardContent className="flex flex-col items-center justify-center h-full p-1 bg-white/90">
-                                <span className="text-xs text-black/70 truncate scale-[0.8] leading-none">
-                                    {slide.items.length > 0 && slide.items[0].type === 'text' ? slide.items[0].content : `Slide ${index + 1}`}
-                                </span>
+                            <CardContent className="h-full p-0">
+                                <SlideView slide={slide} referenceWidth={SLIDE_REFERENCE_WIDTH} className="pointer-events-none" />
                             </CardContent>
                         </Card>
                         <p className="text-xs mt-1">{index + 1}</p>
@@ -600,7 +903,7 @@ export default function BoardPage() {
                         <AlertDialogHeader>
                         <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                         <AlertDialogDescription>
-                            This will permanently delete slide {currentSlideIndex + 1}. This action cannot be undone.
+                            This will delete slide {currentSlideIndex + 1}. You can restore it with Undo (Ctrl+Z).
                         </AlertDialogDescription>
                         </AlertDialogHeader>
                         <AlertDialogFooter>
@@ -615,6 +918,15 @@ export default function BoardPage() {
 
       {/* Toolbar */}
       <div className="flex-shrink-0 h-12 flex items-center px-3 box-border bg-card border-b border-border">
+          <Button variant="ghost" size="icon" onClick={handleUndo} disabled={!canUndo} title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}>
+            <Undo2 className="h-5 w-5" />
+            <span className="sr-only">Undo</span>
+          </Button>
+          <Button variant="ghost" size="icon" onClick={handleRedo} disabled={!canRedo} title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}>
+            <Redo2 className="h-5 w-5" />
+            <span className="sr-only">Redo</span>
+          </Button>
+          <div className="w-px h-6 bg-border mx-1" />
           <Button variant="ghost" size="icon" onClick={handleAddText}>
             <CaseSensitive className="h-5 w-5" />
             <span className="sr-only">Add Text</span>
@@ -623,10 +935,24 @@ export default function BoardPage() {
             <ImageIcon className="h-5 w-5" />
             <span className="sr-only">Add Image</span>
           </Button>
-           <Button variant="ghost" size="icon" onClick={() => setIsGraphingSheetOpen(true)}>
+          <Button variant="ghost" size="icon" onClick={handleAddShape}>
+            <Shapes className="h-5 w-5" />
+            <span className="sr-only">Add Shape</span>
+          </Button>
+           <Button variant="ghost" size="icon" onClick={handleAddGraph}>
             <Sigma className="h-5 w-5" />
             <span className="sr-only">Add Graph</span>
           </Button>
+          <Button variant={isInkMode ? "secondary" : "ghost"} size="icon" onClick={handleToggleInk} aria-pressed={isInkMode} title="Draw">
+            <PenTool className="h-5 w-5" />
+            <span className="sr-only">Draw</span>
+          </Button>
+          {isInkMode && (
+            <>
+              <div className="w-px h-6 bg-border mx-1" />
+              <InkToolbar settings={inkSettings} onChange={setInkSettings} className="overflow-x-auto" />
+            </>
+          )}
           <input
             type="file"
             accept="image/*"
@@ -638,61 +964,50 @@ export default function BoardPage() {
 
       {/* Main Content */}
       <main className="flex-grow w-full flex justify-center items-start relative overflow-y-auto pb-28">
-        {error && <p className="text-destructive absolute top-4 left-4">{error}</p>}
+        {error && (
+          <div className="text-destructive absolute top-4 left-4 right-4">
+            <p>{error}</p>
+            {loadIssues.length > 0 && (
+              <ul className="mt-2 text-sm list-disc pl-5">
+                {loadIssues.map((issue, index) => (
+                  <li key={index}>{formatBoardIssue(issue)}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
         {!boardData && !error && <p className="text-muted-foreground">Loading board...</p>}
 
         {boardData && currentSlide ? (
           <div className="w-full h-full flex flex-col">
-            <div className="w-full aspect-video bg-white">
-                <div id="canvas-container" className="w-full h-full relative overflow-hidden">
-                    {sortedItems.map((item) => (
-                      item.type === 'text' ? (
-                      <div
-                        key={item.id}
-                        onDoubleClick={() => handleTextDoubleClick(item)}
-                        onClick={() => setSelectedItemId(item.id)}
-                        style={{
-                          position: 'absolute',
-                          left: `${item.position[0]}%`,
-                          top: `${item.position[1]}%`,
-                          transform: `translate(0, -50%) rotate(${item.rotation}deg)`,
-                          fontSize: `${item.font_size}px`,
-                          width: `${item.width}px`,
-                          color: 'black',
-                          padding: '4px',
-                          wordWrap: 'break-word',
-                          cursor: 'pointer',
-                          border: selectedItemId === item.id ? '2px dashed hsl(var(--muted-foreground))' : '2px dashed transparent',
-                        }}
-                      >
-                        {item.content}
-                      </div>
-                      ) : (
-                        <div
-                            key={item.id}
-                            onClick={() => setSelectedItemId(item.id)}
-                            style={{
-                                position: 'absolute',
-                                left: `${item.position[0]}%`,
-                                top: `${item.position[1]}%`,
-                                transform: `translate(-50%, -50%) rotate(${item.rotation}deg) scale(${item.scale})`,
-                                width: `${item.width}px`,
-                                height: `${item.height}px`,
-                                cursor: 'pointer',
-                                border: selectedItemId === item.id ? '2px dashed hsl(var(--primary))' : '2px dashed transparent',
-                            }}
-                        >
-                            {item.src ? (
-                                <img src={item.src} alt={item.filename} className="w-full h-full object-contain" />
-                            ) : (
-                                <div className="w-full h-full bg-muted flex items-center justify-center">
-                                    <Loader2 className="h-8 w-8 animate-spin text-muted-foreground"/>
-                                </div>
-                            )}
-                        </div>
-                      )
-                    ))}
-                </div>
+            <div className="w-full aspect-video bg-white relative">
+                <SlideCanvas
+                    items={currentSlide.items}
+                    selectedItemId={selectedItemId}
+                    onSelectItem={setSelectedItemId}
+                    onUpdateItem={updateItem}
+                    onTextDoubleClick={handleTextDoubleClick}
+                    onShapeDoubleClick={handleShapeDoubleClick}
+                    onGraphDoubleClick={handleGraphDoubleClick}
+                />
+                {isInkMode && (
+                  <InkOverlay
+                    settings={inkSettings}
+                    items={currentSlide.items}
+                    onAddStroke={handleAddStroke}
+                    onErase={handleEraseStrokes}
+                  />
+                )}
+            </div>
+            <div className="p-3 grid gap-2">
+                <Label htmlFor="slide-notes">Speaker Notes</Label>
+                <Textarea
+                    id="slide-notes"
+                    value={currentSlide.notes ?? ''}
+                    onChange={(e) => handleNotesChange(e.target.value)}
+                    placeholder={`Notes for slide ${currentSlideIndex + 1}, shown only in the presenter view`}
+                    className="min-h-[80px]"
+                />
             </div>
           </div>
         ) : (
@@ -729,7 +1044,7 @@ export default function BoardPage() {
                           <AlertDialogHeader>
                               <AlertDialogTitle>Delete Item?</AlertDialogTitle>
                               <AlertDialogDescription>
-                                  Are you sure you want to delete this item? This action cannot be undone.
+                                  Are you sure you want to delete this item? You can restore it with Undo (Ctrl+Z).
                               </AlertDialogDescription>
                           </AlertDialogHeader>
                           <AlertDialogFooter>
@@ -757,6 +1072,60 @@ export default function BoardPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <AlertDialog open={conflict !== null} onOpenChange={(open) => !open && setConflict(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Board changed on disk</AlertDialogTitle>
+            <AlertDialogDescription>
+              {conflict?.theirs
+                ? 'Another tab or tool modified this file since you opened it. Merge keeps both sets of changes where they do not overlap.'
+                : 'Another tab or tool modified this file since you opened it, and the new version could not be read, so it cannot be merged.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button variant="outline" onClick={handleConflictReload}>Reload from Disk</Button>
+            <Button variant="destructive" onClick={handleConflictOverwrite}>Overwrite</Button>
+            <AlertDialogAction onClick={handleConflictMerge} disabled={!conflict?.theirs}>Merge</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={showLeaveAlert} onOpenChange={setShowLeaveAlert}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Unsaved changes</AlertDialogTitle>
+            <AlertDialogDescription>
+              This board has changes that have not been saved yet.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Stay</AlertDialogCancel>
+            <Button variant="destructive" onClick={() => router.back()}>Discard</Button>
+            <AlertDialogAction onClick={handleSaveAndLeave}>Save and Leave</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!error && loadIssues.length > 0} onOpenChange={(open) => !open && setLoadIssues([])}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Some items could not be loaded</AlertDialogTitle>
+            <AlertDialogDescription>
+              The following parts of the board are invalid and are not shown. Invalid items stay in the file; anything else listed will be removed from it the next time this board is saved.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="max-h-64 overflow-y-auto text-sm list-disc pl-5 space-y-1">
+            {loadIssues.map((issue, index) => (
+              <li key={index}>{formatBoardIssue(issue)}</li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogAction onClick={() => setLoadIssues([])}>OK</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <Sheet open={isEditingImage} onOpenChange={setIsEditingImage}>
         <SheetContent side="bottom" className="h-full md:h-[90%]" onInteractOutside={(e) => e.preventDefault()}>
             <SheetHeader>
@@ -823,15 +1192,15 @@ export default function BoardPage() {
             <SheetHeader>
                 <SheetTitle>Edit Text</SheetTitle>
                 <SheetDescription>
-                    Modify the text content below.
+                    Format the text below. Headings and lists apply to whole lines; write math as $...$ or $$...$$.
                 </SheetDescription>
             </SheetHeader>
             {editingTextItem && (
               <div className="py-4">
-                <Textarea
+                <RichTextEditor
+                    key={editingTextItem.id}
                     value={editingTextItem.content}
-                    onChange={(e) => setEditingTextItem({...editingTextItem, content: e.target.value })}
-                    className="min-h-[200px] text-lg"
+                    onChange={(content) => setEditingTextItem(current => current && { ...current, content })}
                 />
               </div>
             )}
@@ -842,11 +1211,33 @@ export default function BoardPage() {
         </SheetContent>
       </Sheet>
 
+      <ShapeSheet
+        open={isShapeSheetOpen}
+        onOpenChange={setIsShapeSheetOpen}
+        shape={editingShape}
+        onSave={handleShapeSave}
+      />
+
+      {boardData && getFilePath() && (
+        <ExportSheet
+          open={isExportSheetOpen}
+          onOpenChange={setIsExportSheetOpen}
+          boardData={boardData}
+          filePath={getFilePath()!}
+          writeFile={writeFile}
+        />
+      )}
+
        <Sheet open={isGraphingSheetOpen} onOpenChange={setIsGraphingSheetOpen}>
           <SheetContent className="w-screen h-screen max-w-full sm:max-w-full" onInteractOutside={(e) => e.preventDefault()}>
               <GraphingCanvas
+                  key={editingGraph?.id ?? 'new-graph'}
+                  graph={editingGraph?.graph ?? null}
                   onClose={() => setIsGraphingSheetOpen(false)}
                   onCapture={handleGraphCapture}
+                  onInsert={handleGraphInsert}
+                  onInsertText={handleGraphInsertText}
+                  onSave={handleGraphSave}
               />
           </SheetContent>
       </Sheet>
@@ -0,0 +1,162 @@
+'use client';
+
+import React, { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { GraphingCanvas } from '@/components/GraphingCanvas';
+import { WorkspaceContext } from '@/context/WorkspaceContext';
+import { useToast } from '@/hooks/use-toast';
+import { downloadBlob, getBaseName } from '@/lib/board-files';
+import { parseGraphFile, serializeGraph, type Graph } from '@/lib/graph';
+
+/** A standalone .graph file, open full-page in the graphing calculator. */
+export default function GraphPage() {
+  const router = useRouter();
+  const params = useParams();
+  const { toast } = useToast();
+  const [graph, setGraph] = useState<Graph | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Edits made in the canvas, and how many of them the file holds.
+  const [editCount, setEditCount] = useState(0);
+  const [savedEditCount, setSavedEditCount] = useState(0);
+  const editedGraph = useRef<Graph | null>(null);
+  const [showLeaveAlert, setShowLeaveAlert] = useState(false);
+
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error("GraphPage must be used within a WorkspaceProvider");
+  }
+  const { readFile, writeFile, rootDirectoryHandle } = context;
+
+  const getFilePath = useCallback(() => {
+    if (!params.path) return null;
+    const path = Array.isArray(params.path) ? params.path.join('/') : params.path;
+    return decodeURIComponent(path);
+  }, [params.path]);
+
+  useEffect(() => {
+    const loadGraph = async () => {
+      const filePath = getFilePath();
+      if (!filePath || !rootDirectoryHandle) return;
+      try {
+        setGraph(parseGraphFile((await readFile(filePath)) as string));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? `Failed to load graph: ${err.message}` : 'An unknown error occurred while loading the graph.');
+        console.error(err);
+      }
+    };
+    loadGraph();
+  }, [getFilePath, readFile, rootDirectoryHandle]);
+
+  const isDirty = editCount !== savedEditCount;
+
+  const handleChange = useCallback((next: Graph) => {
+    editedGraph.current = next;
+    setEditCount(count => count + 1);
+  }, []);
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  const handleSave = async (next: Graph) => {
+    const filePath = getFilePath();
+    if (!filePath) return false;
+    const savingEditCount = editCount;
+    try {
+      await writeFile(filePath, serializeGraph(next));
+      setGraph(next);
+      setSavedEditCount(savingEditCount);
+      toast({ title: "Graph Saved", description: "Your changes have been saved to the file." });
+      return true;
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Save failed", description: "Could not write the graph file.", variant: "destructive" });
+      return false;
+    }
+  };
+
+  const handleClose = () => {
+    if (isDirty) {
+      setShowLeaveAlert(true);
+    } else {
+      router.back();
+    }
+  };
+
+  const handleSaveAndLeave = async () => {
+    setShowLeaveAlert(false);
+    if (editedGraph.current && (await handleSave(editedGraph.current))) {
+      router.back();
+    }
+  };
+
+  const handleCapture = async (dataUrl: string) => {
+    const blob = await (await fetch(dataUrl)).blob();
+    downloadBlob(blob, `${getBaseName(getFilePath() ?? 'graph')}.png`);
+  };
+
+  if (!graph) {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center gap-4 p-8">
+        {!rootDirectoryHandle ? (
+          <p className="text-muted-foreground">No workspace is mounted.</p>
+        ) : error ? (
+          <p className="text-destructive">{error}</p>
+        ) : (
+          <p className="text-muted-foreground">Loading graph...</p>
+        )}
+        <Button variant="outline" onClick={() => router.push('/')}>
+          <ArrowLeft className="h-4 w-4 mr-2" /> Back to Workspace
+        </Button>
+      </main>
+    );
+  }
+
+  return (
+    <main className="h-screen w-screen">
+      <GraphingCanvas
+        graph={graph}
+        onClose={handleClose}
+        onCapture={handleCapture}
+        onInsert={handleSave}
+        insertLabel="Save"
+        onChange={handleChange}
+      />
+
+      <AlertDialog open={showLeaveAlert} onOpenChange={setShowLeaveAlert}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Unsaved changes</AlertDialogTitle>
+            <AlertDialogDescription>
+              This graph has changes that have not been saved yet.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Stay</AlertDialogCancel>
+            <Button variant="destructive" onClick={() => router.back()}>Discard</Button>
+            <AlertDialogAction onClick={handleSaveAndLeave}>Save and Leave</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </main>
+  );
+}
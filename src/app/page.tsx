@@ -1,11 +1,11 @@
 
 'use client';
 
-import React, { useState, useEffect, useContext } from 'react';
+import React, { useState, useEffect, useContext, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
-import { Folder, File, FolderPlus, FilePlus, MoreVertical, Trash2, ArrowLeft } from 'lucide-react';
+import { Folder, File, FolderPlus, FilePlus, FileUp, MoreVertical, Trash2, ArrowLeft, Loader2, LineChart } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -13,6 +13,8 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import {
   Sheet,
   SheetContent,
@@ -24,25 +26,21 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { BackgroundAnimation } from '@/components/BackgroundAnimation';
 import { WorkspaceContext, FileSystemItem } from '@/context/WorkspaceContext';
+import { createInitialBoard, serializeBoard } from '@/lib/board';
+import { joinPath } from '@/lib/board-files';
+import { createGraph, GRAPH_FILE_EXTENSION, serializeGraph } from '@/lib/graph';
+import { importPptx } from '@/lib/import-pptx';
 
-const initialBoardContent = `{
-  "slides": [
-    {
-      "slide_number": 1,
-      "items": [
-        {
-          "id": "initial-text",
-          "type": "text",
-          "content": "Welcome to your presentation!",
-          "position": [50, 50],
-          "font_size": 36,
-          "width": 400,
-          "rotation": 0
-        }
-      ]
-    }
-  ]
-}`;
+const initialBoardContent = serializeBoard(createInitialBoard());
+
+// Kinds of file the create sheet offers, by extension and starting content.
+const NEW_FILE_TYPES = {
+  board: { label: 'Board', extension: '.board', content: () => initialBoardContent },
+  graph: { label: 'Graph', extension: GRAPH_FILE_EXTENSION, content: () => serializeGraph(createGraph()) },
+};
+type NewFileType = keyof typeof NEW_FILE_TYPES;
+
+const isGraphFile = (name: string) => name.endsWith(GRAPH_FILE_EXTENSION);
 
 export default function Home() {
   const router = useRouter();
@@ -74,18 +72,25 @@ export default function Home() {
     createFile,
     createFolder,
     deleteItem,
+    writeFile,
+    getDirectoryContents,
+    currentDirectoryHandle,
     error,
   } = context;
 
   const [isCreateFileDialogOpen, setCreateFileDialogOpen] = useState(false);
   const [isCreateFolderDialogOpen, setCreateFolderDialogOpen] = useState(false);
   const [newItemName, setNewItemName] = useState('');
+  const [newFileType, setNewFileType] = useState<NewFileType>('board');
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   const { toast } = useToast();
 
   const handleCreateFile = async () => {
-    const finalFileName = newItemName.endsWith('.board') ? newItemName : `${newItemName}.board`;
-    await createFile(finalFileName, initialBoardContent);
+    const { extension, content } = NEW_FILE_TYPES[newFileType];
+    const finalFileName = newItemName.endsWith(extension) ? newItemName : `${newItemName}${extension}`;
+    await createFile(finalFileName, content());
     setNewItemName('');
     setCreateFileDialogOpen(false);
     toast({
@@ -112,11 +117,48 @@ export default function Home() {
     });
   };
 
+  const handleImportPptx = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const baseName = file.name.replace(/\.pptx$/i, '');
+    const existing = new Set(directoryContents.map(item => item.name));
+    let boardName = `${baseName}.board`;
+    for (let n = 2; existing.has(boardName); n++) {
+      boardName = `${baseName} (${n}).board`;
+    }
+    const directory = path.slice(1).map(segment => segment.name).join('/');
+
+    setIsImporting(true);
+    try {
+      const { board, media, warnings } = await importPptx(file, boardName.replace(/\.board$/, ''));
+      for (const item of media) {
+        await writeFile(joinPath(directory, item.filename), item.blob);
+      }
+      const boardPath = joinPath(directory, boardName);
+      await writeFile(boardPath, serializeBoard(board));
+      if (currentDirectoryHandle) await getDirectoryContents(currentDirectoryHandle);
+      toast({
+        title: "Presentation Imported",
+        description: warnings.length > 0
+          ? `"${boardName}" was created with ${warnings.length} warning(s): ${warnings.join(' ')}`
+          : `"${boardName}" has been created.`,
+      });
+      router.push(`/board/${encodeURIComponent(boardPath)}`);
+    } catch (err) {
+      console.error(err);
+      toast({ title: "Import failed", description: `Could not import "${file.name}".`, variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleItemClick = async (item: FileSystemItem) => {
     if (item.kind === 'file') {
         const fullPath = await contextHandleItemClick(item);
         if (fullPath) {
-            router.push(`/board/${encodeURIComponent(fullPath)}`);
+            router.push(`/${isGraphFile(fullPath) ? 'graph' : 'board'}/${encodeURIComponent(fullPath)}`);
         }
     } else {
         contextHandleItemClick(item);
@@ -226,6 +268,18 @@ export default function Home() {
                   </SheetContent>
                 </Sheet>
 
+                <Button variant="ghost" size="icon" onClick={() => importInputRef.current?.click()} disabled={isImporting}>
+                  {isImporting ? <Loader2 className="h-5 w-5 animate-spin" /> : <FileUp className="h-5 w-5" />}
+                  <span className="sr-only">Import PowerPoint</span>
+                </Button>
+                <input
+                  type="file"
+                  accept=".pptx,application/vnd.openxmlformats-officedocument.presentationml.presentation"
+                  ref={importInputRef}
+                  onChange={handleImportPptx}
+                  className="hidden"
+                />
+
                 <Sheet open={isCreateFileDialogOpen} onOpenChange={setCreateFileDialogOpen}>
                   <SheetTrigger asChild>
                     <Button variant="ghost" size="icon">
@@ -235,12 +289,20 @@ export default function Home() {
                   </SheetTrigger>
                   <SheetContent>
                     <SheetHeader>
-                      <SheetTitle>Create New Board File</SheetTitle>
+                      <SheetTitle>Create New File</SheetTitle>
                        <SheetDescription>
-                        Enter a name for your new board file. The .board extension will be added automatically.
+                        Choose a board or a graph and enter a name. The {NEW_FILE_TYPES[newFileType].extension} extension will be added automatically.
                       </SheetDescription>
                     </SheetHeader>
                     <div className="grid gap-4 py-4">
+                      <RadioGroup value={newFileType} onValueChange={(value) => setNewFileType(value as NewFileType)} className="flex gap-4">
+                        {(Object.keys(NEW_FILE_TYPES) as NewFileType[]).map(type => (
+                          <div key={type} className="flex items-center gap-2">
+                            <RadioGroupItem value={type} id={`new-file-${type}`} />
+                            <Label htmlFor={`new-file-${type}`}>{NEW_FILE_TYPES[type].label}</Label>
+                          </div>
+                        ))}
+                      </RadioGroup>
                       <Input
                           placeholder="File name"
                           value={newItemName}
@@ -259,7 +321,7 @@ export default function Home() {
                   {directoryContents.map((item) => (
                     <li key={item.name} className="flex items-center gap-2 group">
                       <button onClick={() => handleItemClick(item)} className="flex items-center gap-2 flex-grow text-left p-1 rounded-md hover:bg-accent">
-                        {item.kind === 'directory' ? <Folder className="h-5 w-5 shrink-0 text-primary" /> : <File className="h-5 w-5 shrink-0 text-secondary-foreground" />}
+                        {item.kind === 'directory' ? <Folder className="h-5 w-5 shrink-0 text-primary" /> : isGraphFile(item.name) ? <LineChart className="h-5 w-5 shrink-0 text-secondary-foreground" /> : <File className="h-5 w-5 shrink-0 text-secondary-foreground" />}
                         <span className="flex-grow truncate">{item.name}</span>
                       </button>
                       <DropdownMenu>
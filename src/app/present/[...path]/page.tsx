@@ -0,0 +1,303 @@
+'use client';
+
+import React, { useEffect, useState, useContext, useCallback, useRef } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, Maximize, PenTool, X } from 'lucide-react';
+import { WorkspaceContext } from '@/context/WorkspaceContext';
+import { SlideView } from '@/components/SlideView';
+import { InkOverlay } from '@/components/InkOverlay';
+import { InkToolbar } from '@/components/InkToolbar';
+import { cn } from '@/lib/utils';
+import { parseBoard, serializeBoard, type BoardData, type BoardItem } from '@/lib/board';
+import { DEFAULT_INK_SETTINGS, type InkSettings } from '@/lib/ink';
+import { getDirectoryPath, resolveImageSources } from '@/lib/board-files';
+import { mergeBoards } from '@/lib/board-merge';
+import { SLIDE_REFERENCE_WIDTH } from '@/lib/slide-layout';
+import { getPresentationChannelName, type Blank, type PresentationMessage } from '@/lib/presentation-channel';
+import { usePresentationChannel } from '@/hooks/use-presentation-channel';
+
+export default function PresentPage() {
+  const router = useRouter();
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const [boardData, setBoardData] = useState<BoardData | null>(null);
+  const [currentSlideIndex, setCurrentSlideIndex] = useState(() => Math.max(0, (Number(searchParams.get('slide')) || 1) - 1));
+  const [blank, setBlankState] = useState<Blank>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isInkMode, setIsInkMode] = useState(false);
+  const [inkSettings, setInkSettings] = useState<InkSettings>(DEFAULT_INK_SETTINGS);
+  // Ink drawn while presenting is written back to the board, one save at a time.
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Latest board, so queued saves and strokes never work on a stale render.
+  const boardDataRef = useRef<BoardData | null>(null);
+  // The board as last read from or written to disk, and when, to merge in
+  // changes saved meanwhile, e.g. by the editor in another tab.
+  const syncedDataRef = useRef<BoardData | null>(null);
+  const diskLastModified = useRef<number | null>(null);
+  // Audience windows are opened by the presenter console and receive the
+  // board and current slide over a BroadcastChannel instead of the workspace.
+  const isAudience = searchParams.get('audience') === '1';
+
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error("PresentPage must be used within a WorkspaceProvider");
+  }
+  const { readFile, writeFile, getFileMetadata, rootDirectoryHandle } = context;
+
+  const getFilePath = useCallback(() => {
+    if (!params.path) return null;
+    const path = Array.isArray(params.path) ? params.path.join('/') : params.path;
+    return decodeURIComponent(path);
+  }, [params.path]);
+
+  const filePath = getFilePath();
+  const postMessage = usePresentationChannel(
+    isAudience && filePath ? getPresentationChannelName(filePath) : null,
+    (message: PresentationMessage) => {
+      if (message.type === 'board') {
+        setBoardData(message.data);
+      } else if (message.type === 'state') {
+        setCurrentSlideIndex(message.slideIndex);
+        setBlankState(message.blank);
+      } else if (message.type === 'end') {
+        window.close();
+      }
+    }
+  );
+
+  useEffect(() => {
+    if (isAudience) postMessage({ type: 'hello' });
+  }, [isAudience, postMessage]);
+
+  useEffect(() => {
+    const loadBoard = async () => {
+      const filePath = getFilePath();
+      if (isAudience || !filePath || !rootDirectoryHandle) return;
+      try {
+        const { data } = parseBoard((await readFile(filePath)) as string);
+        const { lastModified } = await getFileMetadata(filePath);
+        const dataWithImages = await resolveImageSources(data, getDirectoryPath(filePath), readFile);
+        boardDataRef.current = dataWithImages;
+        syncedDataRef.current = dataWithImages;
+        diskLastModified.current = lastModified;
+        setBoardData(dataWithImages);
+        setCurrentSlideIndex(index => Math.min(index, Math.max(0, data.slides.length - 1)));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? `Failed to load board data: ${err.message}` : 'An unknown error occurred while loading board data.');
+        console.error(err);
+      }
+    };
+    loadBoard();
+  }, [getFilePath, readFile, getFileMetadata, rootDirectoryHandle, isAudience]);
+
+  const slideCount = boardData?.slides.length ?? 0;
+
+  const setLatestBoard = (data: BoardData) => {
+    boardDataRef.current = data;
+    setBoardData(data);
+  };
+
+  // Writes the latest board, first merging in anything saved to the file
+  // since it was last read or written. Ink edits win over conflicting ones.
+  const saveInk = async (filePath: string) => {
+    const ours = boardDataRef.current;
+    if (!ours) return;
+    let data = ours;
+    const { lastModified } = await getFileMetadata(filePath);
+    if (syncedDataRef.current && lastModified !== diskLastModified.current) {
+      const theirs = parseBoard((await readFile(filePath)) as string).data;
+      const { data: merged, conflicts } = mergeBoards(syncedDataRef.current, ours, theirs);
+      data = await resolveImageSources(merged, getDirectoryPath(filePath), readFile);
+      if (conflicts > 0) {
+        console.warn(`${conflicts} item(s) were also changed on disk; the presented version was kept.`);
+      }
+      // Keep strokes drawn while the file was being merged.
+      const latest = boardDataRef.current;
+      setLatestBoard(!latest || latest === ours ? data : mergeBoards(ours, latest, data).data);
+    }
+    await writeFile(filePath, serializeBoard(data));
+    diskLastModified.current = (await getFileMetadata(filePath)).lastModified;
+    syncedDataRef.current = data;
+  };
+
+  const updateSlideItems = (update: (items: BoardItem[]) => BoardItem[]) => {
+    const filePath = getFilePath();
+    const current = boardDataRef.current;
+    if (!current || !filePath) return;
+    setLatestBoard({
+      ...current,
+      slides: current.slides.map((slide, index) => index === currentSlideIndex ? { ...slide, items: update(slide.items) } : slide),
+    });
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => saveInk(filePath))
+      .catch(err => console.error("Could not save ink", err));
+  };
+
+  const goTo = useCallback((index: number) => {
+    const slideIndex = Math.max(0, Math.min(slideCount - 1, index));
+    if (isAudience) {
+      postMessage({ type: 'navigate', slideIndex });
+      return;
+    }
+    setBlankState(null);
+    setCurrentSlideIndex(slideIndex);
+  }, [slideCount, isAudience, postMessage]);
+
+  const toggleBlank = useCallback((color: 'black' | 'white') => {
+    const next = blank === color ? null : color;
+    if (isAudience) {
+      postMessage({ type: 'blank', blank: next });
+    } else {
+      setBlankState(next);
+    }
+  }, [blank, isAudience, postMessage]);
+
+  const exitPresentation = useCallback(() => {
+    if (isAudience) {
+      window.close();
+      return;
+    }
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    }
+    const filePath = getFilePath();
+    if (filePath) {
+      router.replace(`/board/${encodeURIComponent(filePath)}?slide=${currentSlideIndex + 1}`);
+    } else {
+      router.push('/');
+    }
+  }, [getFilePath, router, currentSlideIndex, isAudience]);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    } else {
+      document.documentElement.requestFullscreen().catch(() => {});
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      switch (e.key) {
+        case 'ArrowRight':
+        case 'ArrowDown':
+        case 'PageDown':
+        case ' ':
+        case 'Enter':
+        case 'n':
+          goTo(currentSlideIndex + 1);
+          break;
+        case 'ArrowLeft':
+        case 'ArrowUp':
+        case 'PageUp':
+        case 'Backspace':
+        case 'p':
+          goTo(currentSlideIndex - 1);
+          break;
+        case 'Home':
+          goTo(0);
+          break;
+        case 'End':
+          goTo(slideCount - 1);
+          break;
+        case 'b':
+        case 'B':
+        case '.':
+          toggleBlank('black');
+          break;
+        case 'w':
+        case 'W':
+        case ',':
+          toggleBlank('white');
+          break;
+        case 'f':
+        case 'F':
+          toggleFullscreen();
+          break;
+        case 'Escape':
+          exitPresentation();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [goTo, toggleBlank, currentSlideIndex, slideCount, exitPresentation]);
+
+  const currentSlide = boardData?.slides[currentSlideIndex];
+
+  return (
+    <div className="h-screen w-screen bg-black overflow-hidden flex items-center justify-center relative select-none">
+      {!rootDirectoryHandle && !isAudience && (
+        <div className="text-center text-muted-foreground">
+          <p>No workspace is mounted.</p>
+          <Button className="mt-4" onClick={() => router.push('/')}>Go to Workspace</Button>
+        </div>
+      )}
+      {error && <p className="text-destructive">{error}</p>}
+      {(rootDirectoryHandle || isAudience) && !boardData && !error && (
+        <p className="text-muted-foreground">{isAudience ? 'Waiting for the presenter console...' : 'Loading presentation...'}</p>
+      )}
+
+      {currentSlide && (
+        <div
+          className="relative aspect-video"
+          style={{ width: 'min(100vw, calc(100vh * 16 / 9))' }}
+          onClick={() => goTo(currentSlideIndex + 1)}
+        >
+          <SlideView slide={currentSlide} referenceWidth={SLIDE_REFERENCE_WIDTH} />
+          {isInkMode && !blank && (
+            <InkOverlay
+              settings={inkSettings}
+              items={currentSlide.items}
+              onAddStroke={(stroke) => updateSlideItems(items => [...items, stroke])}
+              onErase={(ids) => updateSlideItems(items => items.filter(item => !ids.includes(item.id)))}
+            />
+          )}
+          {blank && (
+            <div className={cn("absolute inset-0", blank === 'black' ? "bg-black" : "bg-white")} />
+          )}
+        </div>
+      )}
+
+      {boardData && isInkMode && (
+        <div className="absolute top-3 left-1/2 -translate-x-1/2 z-30 rounded-md bg-card/90 px-2 py-1">
+          <InkToolbar settings={inkSettings} onChange={setInkSettings} />
+        </div>
+      )}
+
+      {boardData && (
+        <div className="absolute bottom-3 right-3 flex items-center gap-1 rounded-md bg-card/80 px-2 py-1 text-sm opacity-40 transition-opacity hover:opacity-100 focus-within:opacity-100">
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => goTo(currentSlideIndex - 1)} disabled={currentSlideIndex === 0}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous Slide</span>
+          </Button>
+          <span className="tabular-nums px-1">{currentSlideIndex + 1} / {slideCount}</span>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => goTo(currentSlideIndex + 1)} disabled={currentSlideIndex >= slideCount - 1}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next Slide</span>
+          </Button>
+          {!isAudience && (
+            <Button variant={isInkMode ? "secondary" : "ghost"} size="icon" className="h-7 w-7" onClick={() => setIsInkMode(active => !active)} aria-pressed={isInkMode}>
+              <PenTool className="h-4 w-4" />
+              <span className="sr-only">Draw on Slide</span>
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={toggleFullscreen}>
+            <Maximize className="h-4 w-4" />
+            <span className="sr-only">Toggle Full Screen</span>
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={exitPresentation}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">Exit Presentation</span>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
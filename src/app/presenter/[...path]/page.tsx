@@ -0,0 +1,323 @@
+'use client';
+
+import React, { useEffect, useState, useContext, useCallback, useRef } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ChevronLeft, ChevronRight, MonitorUp, Pause, Play, RotateCcw, Square, X } from 'lucide-react';
+import { WorkspaceContext } from '@/context/WorkspaceContext';
+import { SlideView } from '@/components/SlideView';
+import { SLIDE_REFERENCE_WIDTH } from '@/lib/slide-layout';
+import { cn } from '@/lib/utils';
+import { parseBoard, type BoardData } from '@/lib/board';
+import { getDirectoryPath, resolveImageSources } from '@/lib/board-files';
+import { getPresentationChannelName, type Blank, type PresentationMessage } from '@/lib/presentation-channel';
+import { usePresentationChannel } from '@/hooks/use-presentation-channel';
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${ms < 0 ? '-' : ''}${hours > 0 ? `${hours}:` : ''}${pad(minutes)}:${pad(seconds)}`;
+};
+
+export default function PresenterPage() {
+  const router = useRouter();
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const [boardData, setBoardData] = useState<BoardData | null>(null);
+  const [currentSlideIndex, setCurrentSlideIndex] = useState(() => Math.max(0, (Number(searchParams.get('slide')) || 1) - 1));
+  const [blank, setBlank] = useState<Blank>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [pausedElapsed, setPausedElapsed] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [targetMinutes, setTargetMinutes] = useState(20);
+  const audienceWindow = useRef<Window | null>(null);
+
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error("PresenterPage must be used within a WorkspaceProvider");
+  }
+  const { readFile, rootDirectoryHandle } = context;
+
+  const getFilePath = useCallback(() => {
+    if (!params.path) return null;
+    const path = Array.isArray(params.path) ? params.path.join('/') : params.path;
+    return decodeURIComponent(path);
+  }, [params.path]);
+
+  const filePath = getFilePath();
+
+  const postMessage = usePresentationChannel(
+    filePath ? getPresentationChannelName(filePath) : null,
+    (message: PresentationMessage) => {
+      if (message.type === 'hello' && boardData) {
+        postMessage({ type: 'board', data: boardData });
+        postMessage({ type: 'state', slideIndex: currentSlideIndex, blank });
+      } else if (message.type === 'navigate') {
+        goTo(message.slideIndex);
+      } else if (message.type === 'blank') {
+        setBlank(message.blank);
+      }
+    }
+  );
+
+  useEffect(() => {
+    const loadBoard = async () => {
+      if (!filePath || !rootDirectoryHandle) return;
+      try {
+        const { data } = parseBoard((await readFile(filePath)) as string);
+        setBoardData(await resolveImageSources(data, getDirectoryPath(filePath), readFile));
+        setCurrentSlideIndex(index => Math.min(index, Math.max(0, data.slides.length - 1)));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? `Failed to load board data: ${err.message}` : 'An unknown error occurred while loading board data.');
+        console.error(err);
+      }
+    };
+    loadBoard();
+  }, [filePath, readFile, rootDirectoryHandle]);
+
+  useEffect(() => {
+    if (boardData) postMessage({ type: 'board', data: boardData });
+  }, [boardData, postMessage]);
+
+  useEffect(() => {
+    postMessage({ type: 'state', slideIndex: currentSlideIndex, blank });
+  }, [currentSlideIndex, blank, postMessage]);
+
+  useEffect(() => {
+    const handlePageHide = () => postMessage({ type: 'end' });
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [postMessage]);
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [startedAt]);
+
+  const slideCount = boardData?.slides.length ?? 0;
+
+  const goTo = useCallback((index: number) => {
+    setBlank(null);
+    setCurrentSlideIndex(Math.max(0, Math.min(slideCount - 1, index)));
+    setStartedAt(started => started ?? Date.now());
+  }, [slideCount]);
+
+  const openAudienceWindow = () => {
+    if (!filePath) return;
+    if (audienceWindow.current && !audienceWindow.current.closed) {
+      audienceWindow.current.focus();
+      return;
+    }
+    audienceWindow.current = window.open(
+      `/present/${encodeURIComponent(filePath)}?audience=1&slide=${currentSlideIndex + 1}`,
+      'grraffia-audience',
+      'popup'
+    );
+  };
+
+  const exitPresenter = useCallback(() => {
+    postMessage({ type: 'end' });
+    if (filePath) {
+      router.replace(`/board/${encodeURIComponent(filePath)}?slide=${currentSlideIndex + 1}`);
+    } else {
+      router.push('/');
+    }
+  }, [filePath, router, currentSlideIndex, postMessage]);
+
+  const elapsed = startedAt === null ? pausedElapsed : pausedElapsed + (now - startedAt);
+  const remaining = targetMinutes * 60 * 1000 - elapsed;
+
+  const toggleTimer = () => {
+    if (startedAt === null) {
+      setNow(Date.now());
+      setStartedAt(Date.now());
+    } else {
+      setPausedElapsed(pausedElapsed + (Date.now() - startedAt));
+      setStartedAt(null);
+    }
+  };
+
+  const resetTimer = () => {
+    setPausedElapsed(0);
+    setStartedAt(null);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (e.ctrlKey || e.metaKey || e.altKey || (target && ['INPUT', 'TEXTAREA'].includes(target.tagName))) return;
+      switch (e.key) {
+        case 'ArrowRight':
+        case 'ArrowDown':
+        case 'PageDown':
+        case ' ':
+        case 'Enter':
+        case 'n':
+          goTo(currentSlideIndex + 1);
+          break;
+        case 'ArrowLeft':
+        case 'ArrowUp':
+        case 'PageUp':
+        case 'Backspace':
+        case 'p':
+          goTo(currentSlideIndex - 1);
+          break;
+        case 'Home':
+          goTo(0);
+          break;
+        case 'End':
+          goTo(slideCount - 1);
+          break;
+        case 'b':
+        case 'B':
+        case '.':
+          setBlank(b => (b === 'black' ? null : 'black'));
+          break;
+        case 'w':
+        case 'W':
+        case ',':
+          setBlank(b => (b === 'white' ? null : 'white'));
+          break;
+        case 'Escape':
+          exitPresenter();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [goTo, currentSlideIndex, slideCount, exitPresenter]);
+
+  const currentSlide = boardData?.slides[currentSlideIndex];
+  const nextSlide = boardData?.slides[currentSlideIndex + 1];
+
+  if (!rootDirectoryHandle) {
+    return (
+      <div className="h-screen w-screen flex flex-col items-center justify-center text-muted-foreground">
+        <p>No workspace is mounted.</p>
+        <Button className="mt-4" onClick={() => router.push('/')}>Go to Workspace</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-screen w-screen bg-black overflow-hidden">
+      <header className="flex-shrink-0 h-12 flex items-center justify-between px-3 box-border bg-card border-b border-border">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={exitPresenter}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">Exit Presenter View</span>
+          </Button>
+          <h1 className="text-lg font-semibold">Presenter View</h1>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1 font-mono tabular-nums">
+            <span title="Elapsed">{formatDuration(elapsed)}</span>
+            <span className="text-muted-foreground">/</span>
+            <span title="Remaining" className={cn(remaining < 0 ? "text-destructive" : remaining < 60000 ? "text-amber-500" : "")}>
+              {formatDuration(remaining)}
+            </span>
+          </div>
+          <Button variant="ghost" size="icon" onClick={toggleTimer}>
+            {startedAt === null ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+            <span className="sr-only">{startedAt === null ? 'Start Timer' : 'Pause Timer'}</span>
+          </Button>
+          <Button variant="ghost" size="icon" onClick={resetTimer}>
+            <RotateCcw className="h-4 w-4" />
+            <span className="sr-only">Reset Timer</span>
+          </Button>
+          <div className="flex items-center gap-1">
+            <Label htmlFor="target-minutes" className="text-xs text-muted-foreground">Minutes</Label>
+            <Input
+              id="target-minutes"
+              type="number"
+              min={1}
+              value={targetMinutes}
+              onChange={(e) => setTargetMinutes(Math.max(1, Number(e.target.value) || 1))}
+              className="h-8 w-16"
+            />
+          </div>
+          <Button variant="outline" size="sm" onClick={openAudienceWindow} disabled={!boardData}>
+            <MonitorUp className="h-4 w-4 mr-2" /> Audience Window
+          </Button>
+        </div>
+      </header>
+
+      {error && <p className="text-destructive p-4">{error}</p>}
+      {!boardData && !error && <p className="text-muted-foreground p-4">Loading board...</p>}
+
+      {boardData && currentSlide && (
+        <div className="flex-grow min-h-0 grid grid-cols-[minmax(0,3fr)_minmax(0,2fr)] gap-4 p-4">
+          <div className="flex flex-col gap-2 min-h-0">
+            <div className="relative aspect-video w-full border border-border">
+              <SlideView slide={currentSlide} referenceWidth={SLIDE_REFERENCE_WIDTH} />
+              {blank && (
+                <div className={cn("absolute inset-0 flex items-center justify-center text-sm", blank === 'black' ? "bg-black/80 text-white" : "bg-white/80 text-black")}>
+                  Audience screen blanked ({blank})
+                </div>
+              )}
+            </div>
+            <div className="flex items-center justify-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => goTo(currentSlideIndex - 1)} disabled={currentSlideIndex === 0}>
+                <ChevronLeft className="h-5 w-5" />
+                <span className="sr-only">Previous Slide</span>
+              </Button>
+              <span className="tabular-nums px-2">Slide {currentSlideIndex + 1} of {slideCount}</span>
+              <Button variant="outline" size="icon" onClick={() => goTo(currentSlideIndex + 1)} disabled={currentSlideIndex >= slideCount - 1}>
+                <ChevronRight className="h-5 w-5" />
+                <span className="sr-only">Next Slide</span>
+              </Button>
+              <Button variant={blank ? "secondary" : "outline"} size="icon" onClick={() => setBlank(b => (b ? null : 'black'))}>
+                <Square className="h-5 w-5" />
+                <span className="sr-only">Blank Screen</span>
+              </Button>
+            </div>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {boardData.slides.map((slide, index) => (
+                <button
+                  key={index}
+                  onClick={() => goTo(index)}
+                  className={cn(
+                    "flex-shrink-0 w-28 aspect-video border-2 relative",
+                    index === currentSlideIndex ? "border-primary" : "border-transparent hover:border-muted-foreground/50"
+                  )}
+                >
+                  <SlideView slide={slide} referenceWidth={SLIDE_REFERENCE_WIDTH} className="pointer-events-none" />
+                  <span className="absolute bottom-0 right-0 bg-black/70 text-white text-[10px] px-1">{index + 1}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-col gap-4 min-h-0">
+            <div>
+              <p className="text-xs uppercase text-muted-foreground mb-1">Next</p>
+              <div className="aspect-video w-full border border-border bg-muted flex items-center justify-center">
+                {nextSlide ? (
+                  <SlideView slide={nextSlide} referenceWidth={SLIDE_REFERENCE_WIDTH} />
+                ) : (
+                  <span className="text-sm text-muted-foreground">End of presentation</span>
+                )}
+              </div>
+            </div>
+            <div className="flex-grow min-h-0 flex flex-col">
+              <p className="text-xs uppercase text-muted-foreground mb-1">Notes</p>
+              <div className="flex-grow overflow-y-auto rounded-md border border-border bg-card p-3 text-lg whitespace-pre-wrap">
+                {currentSlide.notes?.trim() ? currentSlide.notes : <span className="text-muted-foreground text-sm">No notes for this slide.</span>}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
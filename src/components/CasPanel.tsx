@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, TextCursorInput } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  CAS_OPERATION_LABELS,
+  CAS_OPERATIONS,
+  differentiate,
+  formatExpression,
+  parseCasInput,
+  runCas,
+  type CasOperation,
+  type CasResult,
+} from '@/lib/cas';
+import { renderMathToHtml } from '@/lib/math';
+import { cn } from '@/lib/utils';
+
+interface CasPanelProps {
+  // Input to start from, e.g. the formula being edited.
+  initialSource: string;
+  // Adds a y = f(x) formula row.
+  onPlot: (expression: string) => void;
+  // Puts TeX on the slide as math text; the button is hidden without it.
+  onInsertText?: (tex: string) => void;
+}
+
+/** Symbolic simplifying, factoring, derivatives, antiderivatives and solving of an expression in x. */
+export const CasPanel: React.FC<CasPanelProps> = ({ initialSource, onPlot, onInsertText }) => {
+  const [source, setSource] = useState(initialSource);
+  const [operation, setOperation] = useState<CasOperation | null>(null);
+  const [result, setResult] = useState<CasResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = (next: CasOperation) => {
+    setOperation(next);
+    try {
+      setResult(runCas(source, next));
+      setError(null);
+    } catch (e) {
+      setResult(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const plotDerivative = () => {
+    try {
+      onPlot(formatExpression(differentiate(parseCasInput(source, 'differentiate'))));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="grid gap-2 pt-2 border-t text-sm">
+      <div className="flex items-center gap-2">
+        <Input
+          value={source}
+          onChange={(e) => { setSource(e.target.value); setResult(null); }}
+          onKeyDown={(e) => { if (e.key === 'Enter') run(operation ?? 'simplify'); }}
+          className={cn("h-8 font-mono", error && "border-destructive")}
+          placeholder="e.g. x^2 - x - 6 or x^2 = 2x + 3"
+          aria-label="CAS input"
+          aria-invalid={!!error}
+        />
+        <Button variant="outline" size="sm" onClick={plotDerivative} disabled={!source.trim()}>
+          <Plus className="h-4 w-4 mr-2" /> Plot f′(x)
+        </Button>
+      </div>
+      <div className="grid grid-cols-6 gap-1">
+        {CAS_OPERATIONS.map(op => (
+          <Button
+            key={op}
+            variant={operation === op && result ? 'secondary' : 'outline'}
+            size="sm"
+            className="h-8"
+            onClick={() => run(op)}
+            disabled={!source.trim()}
+          >
+            {CAS_OPERATION_LABELS[op]}
+          </Button>
+        ))}
+      </div>
+      {error && <p className="text-destructive">{error}</p>}
+      {result && (
+        <div className="flex items-center gap-2">
+          <div className="flex-grow min-w-0 overflow-x-auto">
+            <div dangerouslySetInnerHTML={{ __html: renderMathToHtml(result.tex, false) }} />
+            <p className="font-mono text-muted-foreground">{result.text}</p>
+          </div>
+          {result.expression && (
+            <Button variant="outline" size="sm" onClick={() => onPlot(formatExpression(result.expression!))}>
+              <Plus className="h-4 w-4 mr-2" /> Plot
+            </Button>
+          )}
+          {onInsertText && (
+            <Button variant="outline" size="sm" onClick={() => onInsertText(result.tex)}>
+              <TextCursorInput className="h-4 w-4 mr-2" /> Insert on Slide
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
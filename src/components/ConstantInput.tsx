@@ -0,0 +1,78 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { checkNames, compileExpression, ExpressionError, parseExpression } from '@/lib/expression';
+
+interface ConstantInputProps extends Omit<React.ComponentProps<typeof Input>, 'value' | 'onChange'> {
+  value: number;
+  onChange: (value: number) => void;
+}
+
+/** Shows multiples of π as such, e.g. `2pi`, and other values rounded. */
+export function formatConstant(value: number): string {
+  const multiple = value / Math.PI;
+  if (value !== 0 && Math.abs(multiple - Math.round(multiple)) < 1e-9) {
+    const count = Math.round(multiple);
+    return count === 1 ? 'pi' : count === -1 ? '-pi' : `${count}pi`;
+  }
+  return String(Math.round(value * 10000) / 10000);
+}
+
+/** The value of a constant expression such as `2pi` or `1/3`, or null. */
+export function evaluateConstant(source: string): number | null {
+  try {
+    const node = parseExpression(source);
+    checkNames(node, []);
+    const value = compileExpression(node)({});
+    return Number.isFinite(value) ? value : null;
+  } catch (e) {
+    if (e instanceof ExpressionError) return null;
+    throw e;
+  }
+}
+
+/**
+ * Number input that also accepts constant expressions such as `2pi`. The
+ * value is committed on blur or Enter; invalid text reverts.
+ */
+export const ConstantInput: React.FC<ConstantInputProps> = ({ value, onChange, className, ...props }) => {
+  const [text, setText] = useState(() => formatConstant(value));
+  const [isInvalid, setIsInvalid] = useState(false);
+
+  useEffect(() => {
+    setText(formatConstant(value));
+    setIsInvalid(false);
+  }, [value]);
+
+  const commit = () => {
+    const parsed = evaluateConstant(text);
+    if (parsed === null) {
+      setText(formatConstant(value));
+      setIsInvalid(false);
+      return;
+    }
+    if (parsed !== value) onChange(parsed);
+    setText(formatConstant(parsed));
+  };
+
+  return (
+    <Input
+      {...props}
+      type="text"
+      inputMode="decimal"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        setIsInvalid(evaluateConstant(e.target.value) === null);
+      }}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+      aria-invalid={isInvalid}
+      className={cn(isInvalid && "border-destructive", className)}
+    />
+  );
+};
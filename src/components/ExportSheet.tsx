@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { useToast } from '@/hooks/use-toast';
+import type { BoardData } from '@/lib/board';
+import { downloadBlob, getBaseName, getDirectoryPath, joinPath } from '@/lib/board-files';
+import { exportBoardToPdf, type ExportProgress } from '@/lib/export-pdf';
+import { exportBoardToPptx } from '@/lib/export-pptx';
+import { bundleZip, exportSlidesAsImages } from '@/lib/export-images';
+
+type Destination = 'workspace' | 'download';
+type ExportFormat = 'pdf' | 'pptx' | 'png' | 'svg';
+
+// Image exports are written to this folder next to the board.
+const EXPORTS_FOLDER = 'exports';
+
+interface ExportSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  boardData: BoardData;
+  filePath: string;
+  writeFile: (filePath: string, content: string | Blob) => Promise<void>;
+}
+
+const formats: { value: ExportFormat; label: string }[] = [
+  { value: 'pdf', label: 'PDF document (one page per slide)' },
+  { value: 'pptx', label: 'PowerPoint presentation (.pptx)' },
+  { value: 'png', label: 'PNG images (one per slide)' },
+  { value: 'svg', label: 'SVG images with editable text' },
+];
+
+const resolutions = [
+  { value: '1280', label: '1280 × 720 (HD)' },
+  { value: '1920', label: '1920 × 1080 (Full HD)' },
+  { value: '3840', label: '3840 × 2160 (4K)' },
+];
+
+export const ExportSheet: React.FC<ExportSheetProps> = ({ open, onOpenChange, boardData, filePath, writeFile }) => {
+  const { toast } = useToast();
+  const [resolution, setResolution] = useState('1920');
+  const [format, setFormat] = useState<ExportFormat>('pdf');
+  const [destination, setDestination] = useState<Destination>('workspace');
+  const [bundle, setBundle] = useState(false);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+
+  const baseName = getBaseName(filePath);
+  const directory = getDirectoryPath(filePath);
+  // PDF and PowerPoint exports are a single document; the rest are per-slide images.
+  const isDocument = format === 'pdf' || format === 'pptx';
+  // Several files cannot be downloaded at once, so downloads are always zipped.
+  const asZip = !isDocument && (bundle || destination === 'download');
+
+  const exportDocument = async (documentFormat: 'pdf' | 'pptx') => {
+    const filename = `${baseName}.${documentFormat}`;
+    const blob = documentFormat === 'pdf'
+      ? await exportBoardToPdf(boardData, Number(resolution), setProgress)
+      : await exportBoardToPptx(boardData, baseName, setProgress);
+    if (destination === 'workspace') {
+      const outputPath = joinPath(directory, filename);
+      await writeFile(outputPath, blob);
+      return `Saved ${outputPath} to your workspace.`;
+    }
+    downloadBlob(blob, filename);
+    return `Downloaded ${filename}.`;
+  };
+
+  const exportImages = async (imageFormat: 'png' | 'svg') => {
+    const files = await exportSlidesAsImages(boardData, baseName, imageFormat, Number(resolution), setProgress);
+    const exportsDirectory = joinPath(directory, EXPORTS_FOLDER);
+    if (asZip) {
+      const filename = `${baseName}-${imageFormat}.zip`;
+      const zip = await bundleZip(files);
+      if (destination === 'workspace') {
+        await writeFile(joinPath(exportsDirectory, filename), zip);
+        return `Saved ${joinPath(exportsDirectory, filename)} to your workspace.`;
+      }
+      downloadBlob(zip, filename);
+      return `Downloaded ${filename}.`;
+    }
+    for (const file of files) {
+      await writeFile(joinPath(exportsDirectory, file.name), file.blob);
+    }
+    return `Saved ${files.length} ${imageFormat.toUpperCase()} file(s) to ${exportsDirectory}.`;
+  };
+
+  const handleExport = async () => {
+    setProgress({ current: 0, total: boardData.slides.length });
+    try {
+      const description = format === 'pdf' || format === 'pptx' ? await exportDocument(format) : await exportImages(format);
+      toast({ title: "Export Complete", description });
+      onOpenChange(false);
+    } catch (e) {
+      console.error(e);
+      toast({ title: "Export failed", description: `Could not export the board as ${format.toUpperCase()}.`, variant: "destructive" });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={(value) => !progress && onOpenChange(value)}>
+      <SheetContent>
+        <SheetHeader>
+          <SheetTitle>Export Board</SheetTitle>
+          <SheetDescription>
+            Render every slide as a PDF page or as individual images, or convert the board to an editable PowerPoint deck.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="grid gap-6 py-6">
+          <div className="grid gap-2">
+            <Label htmlFor="export-format">Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger id="export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {formats.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {format !== 'pptx' && (
+            <div className="grid gap-2">
+              <Label htmlFor="export-resolution">Resolution</Label>
+              <Select value={resolution} onValueChange={setResolution}>
+                <SelectTrigger id="export-resolution">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {resolutions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="grid gap-2">
+            <Label>Destination</Label>
+            <RadioGroup value={destination} onValueChange={(value) => setDestination(value as Destination)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="workspace" id="export-workspace" />
+                <Label htmlFor="export-workspace" className="font-normal">
+                  {isDocument ? 'Save next to the board in the workspace' : `Save to the ${EXPORTS_FOLDER}/ folder next to the board`}
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="download" id="export-download" />
+                <Label htmlFor="export-download" className="font-normal">Download</Label>
+              </div>
+            </RadioGroup>
+          </div>
+          {!isDocument && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="export-zip"
+                checked={asZip}
+                disabled={destination === 'download'}
+                onCheckedChange={(checked) => setBundle(checked === true)}
+              />
+              <Label htmlFor="export-zip" className="font-normal">Bundle all slides into a single .zip</Label>
+            </div>
+          )}
+          {progress && (
+            <div className="grid gap-2">
+              <Progress value={(progress.current / Math.max(1, progress.total)) * 100} />
+              <p className="text-sm text-muted-foreground">Rendering slide {progress.current} of {progress.total}...</p>
+            </div>
+          )}
+        </div>
+        <SheetFooter>
+          <Button onClick={handleExport} disabled={!!progress}>
+            {progress && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {progress ? "Exporting..." : "Export"}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
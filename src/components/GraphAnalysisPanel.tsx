@@ -0,0 +1,97 @@
+'use client';
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ConstantInput } from '@/components/ConstantInput';
+import { POINT_KIND_LABELS, tangentAt, type AnalysisCurve, type GraphPoint } from '@/lib/graph-analysis';
+import { formatPoint, type AnalysisOptions } from '@/lib/graph-plot';
+import type { GraphFormula } from '@/lib/graph';
+
+interface GraphAnalysisPanelProps {
+  curves: AnalysisCurve[];
+  formulas: GraphFormula[];
+  selected: GraphPoint | null;
+  tangent: AnalysisOptions['tangent'];
+  onTangentChange: (tangent: AnalysisOptions['tangent']) => void;
+}
+
+const round = (value: number) => Number(value.toFixed(4));
+
+/** Coordinates of the clicked point, and the tangent and derivative at a chosen x. */
+export const GraphAnalysisPanel: React.FC<GraphAnalysisPanelProps> = ({ curves, formulas, selected, tangent, onTangentChange }) => {
+  const curve = tangent && curves.find(c => c.id === tangent.formulaId);
+  const line = curve && tangentAt(curve, tangent.x);
+  const label = (id: string) => formulas.find(f => f.id === id)?.expression ?? '';
+
+  return (
+    <div className="grid gap-2 pt-2 border-t text-sm">
+      <p>
+        {selected ? (
+          <>
+            <span className="font-medium">{POINT_KIND_LABELS[selected.kind]}</span>{' '}
+            <span className="font-mono">{formatPoint(selected)}</span>
+          </>
+        ) : (
+          <span className="text-muted-foreground">Click a marked point to see its coordinates.</span>
+        )}
+      </p>
+      {curves.length === 0 ? (
+        <p className="text-muted-foreground">Add a y = f(x) formula to find its zeros, extrema and tangents.</p>
+      ) : tangent && curve ? (
+        <div className="grid gap-1">
+          <div className="flex items-center gap-2">
+            <span>Tangent to</span>
+            <Select value={tangent.formulaId} onValueChange={(formulaId) => onTangentChange({ ...tangent, formulaId })}>
+              <SelectTrigger className="w-40 h-8" aria-label="Formula">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {curves.map(c => (
+                  <SelectItem key={c.id} value={c.id}>
+                    <span className="font-mono" style={{ color: c.color }}>y = {label(c.id)}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="font-mono">at x =</span>
+            <ConstantInput
+              value={tangent.x}
+              onChange={(x) => onTangentChange({ ...tangent, x })}
+              className="h-8 w-24"
+              aria-label="Tangent x"
+            />
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onTangentChange(null)}>
+              <X className="h-4 w-4" />
+              <span className="sr-only">Remove tangent</span>
+            </Button>
+          </div>
+          {line ? (
+            <p className="font-mono">
+              f({round(line.x)}) = {round(line.y)}, f′({round(line.x)}) = {round(line.slope)};
+              tangent y = {round(line.slope)}x {line.y - line.slope * line.x < 0 ? '−' : '+'} {Math.abs(round(line.y - line.slope * line.x))}
+            </p>
+          ) : (
+            <p className="text-destructive">The formula has no derivative at x = {round(tangent.x)}.</p>
+          )}
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          className="justify-self-start"
+          onClick={() => onTangentChange({ formulaId: curves[0].id, x: selected?.x ?? 0 })}
+        >
+          Show tangent
+        </Button>
+      )}
+    </div>
+  );
+};
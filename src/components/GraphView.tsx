@@ -0,0 +1,24 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import { plotGraph } from '@/lib/graph-plot';
+import type { Graph } from '@/lib/graph';
+
+interface GraphViewProps {
+  graph: Graph;
+  width: number;
+  height: number;
+  className?: string;
+}
+
+/** Static, live-rendered graph, redrawn whenever the graph or its size changes. */
+export const GraphView: React.FC<GraphViewProps> = ({ graph, width, height, className }) => {
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (plotRef.current) plotGraph(plotRef.current, graph, { width, height });
+  }, [graph, width, height]);
+
+  return <div ref={plotRef} className={cn("bg-white pointer-events-none", className)} style={{ width, height }} />;
+};
@@ -0,0 +1,150 @@
+'use client';
+
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ConstantInput } from '@/components/ConstantInput';
+import {
+  ANGLE_MODES,
+  AXIS_SCALES,
+  type AngleMode,
+  type AxisScale,
+  type Graph,
+  type GraphAxis,
+} from '@/lib/graph';
+
+interface GraphViewportSettingsProps {
+  graph: Graph;
+  onChange: (updates: Partial<Graph>) => void;
+}
+
+const SCALE_LABELS: Record<AxisScale, string> = { linear: 'Linear', log: 'Logarithmic' };
+const ANGLE_MODE_LABELS: Record<AngleMode, string> = { radians: 'Radians', degrees: 'Degrees' };
+
+interface AxisSettingsProps {
+  name: 'x' | 'y';
+  domain: [number, number];
+  axis: GraphAxis;
+  onDomainChange: (domain: [number, number]) => void;
+  onAxisChange: (updates: Partial<GraphAxis>) => void;
+}
+
+const AxisSettings: React.FC<AxisSettingsProps> = ({ name, domain, axis, onDomainChange, onAxisChange }) => (
+  <fieldset className="grid grid-cols-[3.5rem_1fr_1fr] items-center gap-2">
+    <legend className="text-sm font-medium mb-1">{name} axis</legend>
+    <Label>Range</Label>
+    <ConstantInput
+      value={domain[0]}
+      onChange={(value) => onDomainChange([value, domain[1]])}
+      className="h-8"
+      aria-label={`${name} from`}
+    />
+    <ConstantInput
+      value={domain[1]}
+      onChange={(value) => onDomainChange([domain[0], value])}
+      className="h-8"
+      aria-label={`${name} to`}
+    />
+    <Label htmlFor={`axis-${name}-label`}>Label</Label>
+    <Input
+      id={`axis-${name}-label`}
+      value={axis.label}
+      onChange={(e) => onAxisChange({ label: e.target.value })}
+      className="h-8 col-span-2"
+      placeholder={name}
+    />
+    <Label>Scale</Label>
+    <Select value={axis.scale} onValueChange={(scale) => onAxisChange({ scale: scale as AxisScale })}>
+      <SelectTrigger className="h-8 col-span-2" aria-label={`${name} scale`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {AXIS_SCALES.map(scale => <SelectItem key={scale} value={scale}>{SCALE_LABELS[scale]}</SelectItem>)}
+      </SelectContent>
+    </Select>
+    <Label>Ticks</Label>
+    <ConstantInput
+      value={axis.tick_step ?? 1}
+      onChange={(value) => onAxisChange({ tick_step: Math.abs(value) || axis.tick_step })}
+      className="h-8"
+      disabled={axis.tick_step === null || axis.scale === 'log'}
+      aria-label={`${name} tick step${axis.pi_ticks ? ' in multiples of π' : ''}`}
+    />
+    <div className="flex items-center gap-3 text-sm">
+      <label className="flex items-center gap-1">
+        <Checkbox
+          checked={axis.tick_step === null}
+          onCheckedChange={(checked) => onAxisChange({ tick_step: checked ? null : 1 })}
+          disabled={axis.scale === 'log'}
+        />
+        Auto
+      </label>
+      <label className="flex items-center gap-1">
+        <Checkbox
+          checked={axis.pi_ticks}
+          onCheckedChange={(checked) => onAxisChange({ pi_ticks: checked === true })}
+          disabled={axis.scale === 'log'}
+        />
+        ×π
+      </label>
+    </div>
+  </fieldset>
+);
+
+/** Title, axis ranges, labels, scales and ticks, angle units and aspect of a graph. */
+export const GraphViewportSettings: React.FC<GraphViewportSettingsProps> = ({ graph, onChange }) => {
+  const hasLogAxis = graph.x_axis.scale === 'log' || graph.y_axis.scale === 'log';
+  return (
+    <div className="grid gap-3">
+      <div className="grid grid-cols-[3.5rem_1fr] items-center gap-2">
+        <Label htmlFor="graph-title">Title</Label>
+        <Input id="graph-title" value={graph.title} onChange={(e) => onChange({ title: e.target.value })} className="h-8" />
+      </div>
+      <AxisSettings
+        name="x"
+        domain={graph.x_domain}
+        axis={graph.x_axis}
+        onDomainChange={(x_domain) => onChange({ x_domain })}
+        onAxisChange={(updates) => onChange({ x_axis: { ...graph.x_axis, ...updates } })}
+      />
+      <AxisSettings
+        name="y"
+        domain={graph.y_domain}
+        axis={graph.y_axis}
+        onDomainChange={(y_domain) => onChange({ y_domain })}
+        onAxisChange={(updates) => onChange({ y_axis: { ...graph.y_axis, ...updates } })}
+      />
+      <div className="grid grid-cols-[1fr_auto] items-center gap-2 text-sm">
+        <Label>Angles</Label>
+        <Select value={graph.angle_mode} onValueChange={(mode) => onChange({ angle_mode: mode as AngleMode })}>
+          <SelectTrigger className="h-8 w-32" aria-label="Angle mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ANGLE_MODES.map(mode => <SelectItem key={mode} value={mode}>{ANGLE_MODE_LABELS[mode]}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Label htmlFor="graph-grid">Grid</Label>
+        <Switch id="graph-grid" checked={graph.grid} onCheckedChange={(grid) => onChange({ grid })} />
+        <Label htmlFor="graph-lock-aspect" className={hasLogAxis ? 'text-muted-foreground' : undefined}>
+          Equal units on both axes
+        </Label>
+        <Switch
+          id="graph-lock-aspect"
+          checked={graph.lock_aspect && !hasLogAxis}
+          disabled={hasLogAxis}
+          onCheckedChange={(lock_aspect) => onChange({ lock_aspect })}
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,138 +1,347 @@
 
 'use client';
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
-import { X, Trash2, Camera, Sigma, Plus, Delete } from 'lucide-react';
-import { cn } from '@/lib/utils';
-import functionPlot from 'function-plot';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ConstantInput } from '@/components/ConstantInput';
+import { ParameterSlider } from '@/components/ParameterSlider';
+import { PointTableEditor } from '@/components/PointTableEditor';
+import { GraphAnalysisPanel } from '@/components/GraphAnalysisPanel';
+import { CasPanel } from '@/components/CasPanel';
+import { MathKeyboard } from '@/components/MathKeyboard';
+import { GraphViewportSettings } from '@/components/GraphViewportSettings';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SurfacePlot } from '@/components/SurfacePlot';
+import { X, Trash2, Camera, Sigma, Plus, Check, Table, Crosshair, Calculator, Home, Maximize, SlidersHorizontal, Save } from 'lucide-react';
+import type { Chart } from 'function-plot';
 import html2canvas from 'html2canvas';
+import {
+  advanceParameter,
+  createFormula,
+  createGraph,
+  createParameter,
+  createPointTable,
+  FORMULA_TYPE_INFO,
+  FORMULA_TYPES,
+  parseFormula,
+  type FormulaField,
+  type FormulaType,
+  type Graph,
+  type GraphFormula,
+  type GraphParameter,
+  type PointTable,
+} from '@/lib/graph';
+import { applySuggestion, ExpressionError } from '@/lib/expression';
+import { CasError } from '@/lib/cas';
+import { applyKey, type EditResult, type MathKey } from '@/lib/math-keyboard';
+import { cn } from '@/lib/utils';
+import { chartDomains, plotGraph, type AnalysisOptions } from '@/lib/graph-plot';
+import { analysisCurves, fitDomains, type GraphPoint } from '@/lib/graph-analysis';
+import { sampleSurface, surfaceFormula, SURFACE_VIEW_LABELS, SURFACE_VIEWS, type SurfaceView } from '@/lib/surface-plot';
 
 interface GraphingCanvasProps {
+  // Graph to edit, or null to start a new one.
+  graph: Graph | null;
   onClose: () => void;
   onCapture: (dataUrl: string) => void;
+  // Places the graph on the slide as a live graph item.
+  onInsert: (graph: Graph) => void;
+  // Places TeX on the slide as math text, e.g. a CAS result.
+  onInsertText?: (tex: string) => void;
+  // Text of the button calling onInsert, if not about slides.
+  insertLabel?: string;
+  // Saves the graph as a standalone .graph file; the button is hidden without it.
+  onSave?: (graph: Graph) => void;
+  // Called with the edited graph after each change to its content or settings.
+  onChange?: (graph: Graph) => void;
+}
+
+interface FormulaErrorProps {
+  expression: string;
+  error: ExpressionError;
+  onApplySuggestion: (expression: string) => void;
+}
+
+/** Error message under a formula, marking where in the formula it is. */
+const FormulaError: React.FC<FormulaErrorProps> = ({ expression, error, onApplySuggestion }) => {
+  const suggestion = applySuggestion(expression, error);
+  const end = error.position + error.length;
+  return (
+    <div className="pl-4 text-xs text-destructive">
+      <p className="font-mono whitespace-pre text-muted-foreground overflow-x-auto">
+        {expression.slice(0, error.position)}
+        <span className="text-destructive underline decoration-wavy">{expression.slice(error.position, end) || ' '}</span>
+        {expression.slice(end)}
+      </p>
+      <p>
+        Column {error.position + 1}: {error.message}
+        {suggestion !== null && (
+          <>
+            {' '}Did you mean{' '}
+            <button type="button" className="font-mono underline" onClick={() => onApplySuggestion(suggestion)}>{suggestion}</button>?
+          </>
+        )}
+      </p>
+    </div>
+  );
+};
+
+// Variables of each formula type, first on the keyboard.
+const variableKeys: Record<FormulaType, string[]> = {
+  function: ['x', 'y'],
+  parametric: ['t'],
+  polar: ['θ'],
+  implicit: ['x', 'y'],
+  inequality: ['x', 'y'],
+  surface: ['x', 'y'],
+};
+
+interface ActiveInput {
+  id: string;
+  field: FormulaField;
 }
 
-const keyboardLayout = [
-    ['x', 'y', 'pi', '^', '(', ')', 'sqrt', 'sin'],
-    ['7', '8', '9', '+', '-', 'cos', 'tan', 'log'],
-    ['4', '5', '6', '*', '/', 'abs', 'e', ''],
-    ['1', '2', '3', '.', '=', '0', '', 'backspace'],
-];
+const inputKey = ({ id, field }: ActiveInput) => `${id}:${field}`;
+
+// Settings of the graph other than its content and visible ranges.
+type ViewSettings = Pick<Graph, 'grid' | 'title' | 'x_axis' | 'y_axis' | 'angle_mode' | 'lock_aspect'>;
 
+// What the bottom of the footer shows.
+type FooterPanel = 'keyboard' | 'analysis' | 'cas';
 
-export const GraphingCanvas: React.FC<GraphingCanvasProps> = ({ onClose, onCapture }) => {
+// Milliseconds between steps of a playing slider.
+const PLAY_INTERVAL = 50;
+
+export const GraphingCanvas: React.FC<GraphingCanvasProps> = ({ graph, onClose, onCapture, onInsert, onInsertText, insertLabel, onSave, onChange }) => {
   const plotContainerRef = useRef<HTMLDivElement>(null);
   const plotRef = useRef<HTMLDivElement>(null);
-  const [formulas, setFormulas] = useState<{ id: number; value: string; color: string }[]>([
-    { id: 1, value: 'x^2', color: '#3366cc' },
-  ]);
-  const [nextId, setNextId] = useState(2);
-  const [activeInputIndex, setActiveInputIndex] = useState<number | null>(0);
-  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
+  const [initialGraph] = useState(() => graph ?? createGraph());
+  const [formulas, setFormulas] = useState<GraphFormula[]>(initialGraph.formulas);
+  // Unused parameters are kept so their settings return if used again.
+  const [parameters, setParameters] = useState<GraphParameter[]>(initialGraph.parameters);
+  const [playing, setPlaying] = useState<string[]>([]);
+  const [tables, setTables] = useState<PointTable[]>(initialGraph.tables);
+  const [initialViewSettings] = useState<ViewSettings>(() => {
+    const { grid, title, x_axis, y_axis, angle_mode, lock_aspect } = initialGraph;
+    return { grid, title, x_axis, y_axis, angle_mode, lock_aspect };
+  });
+  const [viewSettings, setViewSettings] = useState(initialViewSettings);
+  // The graph as shown in the viewport settings while they are open.
+  const [viewportGraph, setViewportGraph] = useState<Graph | null>(null);
+  const [activeInput, setActiveInput] = useState<ActiveInput | null>(
+    initialGraph.formulas.length ? { id: initialGraph.formulas[0].id, field: 'expression' } : null
+  );
+  // The usual 2D plot, or a view of a z = f(x, y) formula.
+  const [view, setView] = useState<'2d' | SurfaceView>('2d');
+  const surfaceCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [panel, setPanel] = useState<FooterPanel>('keyboard');
+  const isAnalyzing = panel === 'analysis';
+  const [selectedPoint, setSelectedPoint] = useState<GraphPoint | null>(null);
+  const [tangent, setTangent] = useState<AnalysisOptions['tangent']>(null);
+  const [keyboardError, setKeyboardError] = useState<string | null>(null);
+  const inputRefs = useRef<Record<string, HTMLInputElement | null>>({});
+  const chartRef = useRef<Chart | null>(null);
+  // Axis ranges survive redraws, so panning is kept while formulas change.
+  const domainsRef = useRef({ x_domain: initialGraph.x_domain, y_domain: initialGraph.y_domain });
 
-  const colors = ['#3366cc', '#dc3912', '#ff9900', '#109618', '#990099', '#0099c6'];
+  // Blank formulas are not errors; they are simply not plotted.
+  const parsedFormulas = useMemo(() => formulas.map(formula => parseFormula(formula)), [formulas]);
+  const usedParameters = useMemo(
+    () => Array.from(new Set(parsedFormulas.flatMap(parsed => parsed.parameters))).sort(),
+    [parsedFormulas]
+  );
+
+  const curves = useMemo(
+    () => (isAnalyzing ? analysisCurves({ ...initialGraph, ...viewSettings, formulas, parameters }) : []),
+    [isAnalyzing, initialGraph, viewSettings, formulas, parameters]
+  );
+
+  const surface = useMemo(
+    () => (view === '2d' ? null : surfaceFormula({ ...initialGraph, ...viewSettings, formulas, parameters }, activeInput?.id)),
+    [view, initialGraph, viewSettings, formulas, parameters, activeInput]
+  );
+  const surfaceGrid = useMemo(
+    () => surface && sampleSurface(surface.fn, domainsRef.current.x_domain, domainsRef.current.y_domain),
+    [surface]
+  );
+
+  const currentGraph = useCallback((): Graph => {
+    const domains = chartRef.current && chartDomains(chartRef.current);
+    if (domains) domainsRef.current = domains;
+    return {
+      ...initialGraph,
+      ...viewSettings,
+      ...domainsRef.current,
+      formulas,
+      parameters: parameters.filter(p => usedParameters.includes(p.name)),
+      tables,
+    };
+  }, [initialGraph, viewSettings, formulas, parameters, usedParameters, tables]);
+
+  // Any state still being the initial one means it has not been edited.
+  useEffect(() => {
+    if (
+      formulas === initialGraph.formulas &&
+      parameters === initialGraph.parameters &&
+      tables === initialGraph.tables &&
+      viewSettings === initialViewSettings
+    ) return;
+    onChange?.(currentGraph());
+  }, [formulas, parameters, tables, viewSettings, initialGraph, initialViewSettings, currentGraph, onChange]);
 
   const drawPlot = useCallback(() => {
     if (plotRef.current && plotContainerRef.current) {
-      try {
-        plotRef.current.innerHTML = '';
-        functionPlot({
-          target: plotRef.current,
-          width: plotContainerRef.current.clientWidth,
-          height: plotContainerRef.current.clientHeight,
-          grid: true,
-          data: formulas
-            .filter(f => f.value.trim() !== '')
-            .map(f => ({
-                fn: f.value,
-                color: f.color,
-                graphType: 'polyline'
-            })),
-        });
-      } catch(e) {
-        console.error("Error plotting function:", e);
-      }
+      const nextGraph = currentGraph();
+      chartRef.current = plotGraph(plotRef.current, nextGraph, {
+        width: plotContainerRef.current.clientWidth,
+        height: plotContainerRef.current.clientHeight,
+        interactive: true,
+        analysis: isAnalyzing ? { selected: selectedPoint, onSelect: setSelectedPoint, tangent } : undefined,
+      });
     }
-  }, [formulas]);
+  }, [currentGraph, isAnalyzing, selectedPoint, tangent]);
 
+  // A surface view replaces the plot, so it is drawn again on returning to 2D.
   useEffect(() => {
+    if (view !== '2d') return;
     drawPlot();
     const handleResize = () => drawPlot();
     window.addEventListener('resize', handleResize);
     return () => window.removeEventListener('resize', handleResize);
-  }, [drawPlot]);
+  }, [drawPlot, view]);
   
+  // New names in the formulas get a slider.
+  useEffect(() => {
+    const missing = usedParameters.filter(name => !parameters.some(p => p.name === name));
+    if (missing.length) setParameters([...parameters, ...missing.map(createParameter)]);
+  }, [usedParameters, parameters]);
+
+  useEffect(() => {
+    if (!playing.length) return;
+    const timer = window.setInterval(() => {
+      setParameters(current => current.map(p => (playing.includes(p.name) ? advanceParameter(p) : p)));
+    }, PLAY_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [playing]);
+
+  // Sliders that do not loop stop at the end.
+  useEffect(() => {
+    const finished = parameters.filter(p => playing.includes(p.name) && !p.loop && p.value >= p.max);
+    if (finished.length) setPlaying(playing.filter(name => !finished.some(p => p.name === name)));
+  }, [parameters, playing]);
+
   useEffect(() => {
-    if (activeInputIndex !== null && inputRefs.current[activeInputIndex]) {
-      inputRefs.current[activeInputIndex]?.focus();
+    if (activeInput) {
+      inputRefs.current[inputKey(activeInput)]?.focus();
     }
-  }, [activeInputIndex]);
+  }, [activeInput]);
 
-  const handleFormulaChange = (id: number, value: string) => {
-    setFormulas(formulas.map(f => (f.id === id ? { ...f, value } : f)));
+  const formulaErrors = parsedFormulas.map(parsed => parsed.errors);
+  const activeFormula = formulas.find(f => f.id === activeInput?.id);
+
+  const updateFormula = (id: string, updates: Partial<GraphFormula>) => {
+    setFormulas(formulas.map(f => (f.id === id ? { ...f, ...updates } : f)));
   };
 
-  const addFormula = () => {
-    const newColor = colors[formulas.length % colors.length];
-    const newFormula = { id: nextId, value: '', color: newColor };
-    setFormulas([...formulas, newFormula]);
-    setActiveInputIndex(formulas.length);
-    setNextId(nextId + 1);
+  const updateParameter = (name: string, updates: Partial<GraphParameter>) => {
+    setParameters(current => current.map(p => (p.name === name ? { ...p, ...updates } : p)));
   };
 
-  const removeFormula = (id: number) => {
-    setFormulas(formulas.filter(f => f.id !== id));
-    if (formulas.length === 1) {
-        setFormulas([{ id: nextId, value: '', color: colors[0] }]);
-        setNextId(nextId + 1);
+  const togglePlaying = (parameter: GraphParameter) => {
+    if (playing.includes(parameter.name)) {
+      setPlaying(playing.filter(name => name !== parameter.name));
+      return;
     }
-     setActiveInputIndex(Math.max(0, formulas.length - 2));
+    // Playing a finished slider starts it over.
+    if (!parameter.loop && parameter.value >= parameter.max) updateParameter(parameter.name, { value: parameter.min });
+    setPlaying([...playing, parameter.name]);
+  };
+
+  const addFormula = (expression = '') => {
+    const formula = createFormula(expression, formulas.length);
+    setFormulas([...formulas, formula]);
+    setActiveInput({ id: formula.id, field: 'expression' });
+  };
+
+  const removeFormula = (id: string) => {
+    const remaining = formulas.filter(f => f.id !== id);
+    const next = remaining.length ? remaining : [createFormula('', 0)];
+    setFormulas(next);
+    setActiveInput({ id: next[next.length - 1].id, field: 'expression' });
+  };
+
+  const addTable = () => {
+    setTables([...tables, createPointTable(formulas.length + tables.length)]);
   };
 
-  const handleKeyboardClick = (key: string) => {
-    if (activeInputIndex === null) return;
+  const updateTable = (id: string, updates: Partial<PointTable>) => {
+    setTables(tables.map(t => (t.id === id ? { ...t, ...updates } : t)));
+  };
 
-    const input = inputRefs.current[activeInputIndex];
-    const formulaId = formulas[activeInputIndex].id;
+  const handleKey = (key: MathKey) => {
+    if (!activeInput || !activeFormula) return;
+
+    const input = inputRefs.current[inputKey(activeInput)];
     if (!input) return;
 
-    const start = input.selectionStart ?? 0;
-    const end = input.selectionEnd ?? 0;
-    const currentValue = input.value;
-    let newValue = '';
-    let cursorPosOffset = key.length;
-    
-    if (key === 'sqrt' || key === 'sin' || key === 'cos' || key === 'tan' || key === 'log' || key === 'abs') {
-        newValue = currentValue.substring(0, start) + `${key}()` + currentValue.substring(end);
-        cursorPosOffset = key.length + 1;
-    } else if (key === '=') {
-        drawPlot();
-        return;
-    } else if (key === 'backspace') {
-      if (start > 0) {
-        newValue = currentValue.substring(0, start - 1) + currentValue.substring(end);
-        cursorPosOffset = -1;
-      } else {
-        newValue = currentValue;
-        cursorPosOffset = 0;
-      }
-    } else {
-        newValue = currentValue.substring(0, start) + key + currentValue.substring(end);
+    let edit: EditResult;
+    try {
+      edit = applyKey(input.value, input.selectionStart ?? 0, input.selectionEnd ?? 0, key);
+    } catch (e) {
+      if (!(e instanceof ExpressionError || e instanceof CasError)) throw e;
+      setKeyboardError(e.message);
+      return;
     }
+    setKeyboardError(null);
+    updateFormula(activeFormula.id, { [activeInput.field]: edit.value });
 
-    handleFormulaChange(formulaId, newValue);
-
-    const newCursorPos = start + cursorPosOffset;
     setTimeout(() => {
       input.focus();
-      input.setSelectionRange(newCursorPos, newCursorPos);
+      input.setSelectionRange(edit.cursor, edit.cursor);
     }, 0);
   };
   
+  // The chart is dropped first so currentGraph does not read back the
+  // ranges it shows.
+  const setDomains = (domains: Pick<Graph, 'x_domain' | 'y_domain'>) => {
+    chartRef.current = null;
+    domainsRef.current = domains;
+    drawPlot();
+  };
+
+  const resetView = () => {
+    const { x_domain, y_domain } = createGraph();
+    setDomains({ x_domain, y_domain });
+  };
+
+  const zoomToFit = () => {
+    const domains = fitDomains(currentGraph());
+    if (domains) setDomains(domains);
+  };
+
+  const updateViewport = (updates: Partial<Graph>) => {
+    const { x_domain, y_domain, ...settings } = updates;
+    if (x_domain || y_domain) {
+      setDomains({ x_domain: x_domain ?? domainsRef.current.x_domain, y_domain: y_domain ?? domainsRef.current.y_domain });
+    }
+    setViewSettings(current => ({ ...current, ...settings }));
+    setViewportGraph(current => current && { ...current, ...updates });
+  };
+
   const handleCapture = async () => {
+    if (view !== '2d') {
+      if (surfaceCanvasRef.current) onCapture(surfaceCanvasRef.current.toDataURL('image/png'));
+      return;
+    }
     if (plotRef.current) {
         const canvas = await html2canvas(plotRef.current, { useCORS: true, backgroundColor: '#ffffff' });
         const dataUrl = canvas.toDataURL('image/png');
@@ -140,67 +349,222 @@ export const GraphingCanvas: React.FC<GraphingCanvasProps> = ({ onClose, onCaptu
     }
   };
 
+  const handleInsert = () => {
+    onInsert(currentGraph());
+  };
+
   return (
     <div className="h-full w-full flex flex-col bg-background text-foreground relative">
       <header className="flex-shrink-0 h-12 flex items-center justify-between px-3 border-b">
         <h2 className="text-lg font-semibold flex items-center gap-2"><Sigma/>Graphing Calculator</h2>
         <div className="flex items-center gap-2">
+            <Button size="sm" onClick={handleInsert}><Check className="h-4 w-4 mr-2" />{insertLabel ?? (graph ? 'Update Graph' : 'Add to Slide')}</Button>
+            <Select value={view} onValueChange={(value) => setView(value as '2d' | SurfaceView)}>
+              <SelectTrigger className="w-36 h-8" aria-label="View">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="2d">2D graph</SelectItem>
+                {SURFACE_VIEWS.map(surfaceView => (
+                  <SelectItem key={surfaceView} value={surfaceView}>{SURFACE_VIEW_LABELS[surfaceView]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant={isAnalyzing ? 'secondary' : 'ghost'}
+              size="icon"
+              disabled={view !== '2d'}
+              onClick={() => setPanel(isAnalyzing ? 'keyboard' : 'analysis')}
+              aria-pressed={isAnalyzing}
+              title="Analyze"
+            >
+              <Crosshair /><span className="sr-only">Analyze</span>
+            </Button>
+            <Button
+              variant={panel === 'cas' ? 'secondary' : 'ghost'}
+              size="icon"
+              onClick={() => setPanel(panel === 'cas' ? 'keyboard' : 'cas')}
+              aria-pressed={panel === 'cas'}
+              title="Algebra"
+            >
+              <Calculator /><span className="sr-only">Algebra</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-12 font-mono"
+              onClick={() => updateViewport({ angle_mode: viewSettings.angle_mode === 'radians' ? 'degrees' : 'radians' })}
+              title="Angle mode"
+            >
+              {viewSettings.angle_mode === 'radians' ? 'RAD' : 'DEG'}
+            </Button>
+            <Button variant="ghost" size="icon" disabled={view !== '2d'} onClick={resetView} title="Reset view">
+              <Home /><span className="sr-only">Reset view</span>
+            </Button>
+            <Button variant="ghost" size="icon" disabled={view !== '2d'} onClick={zoomToFit} title="Zoom to fit">
+              <Maximize /><span className="sr-only">Zoom to fit</span>
+            </Button>
+            <Popover onOpenChange={(open) => setViewportGraph(open ? currentGraph() : null)}>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="icon" title="Axes and view">
+                  <SlidersHorizontal /><span className="sr-only">Axes and view</span>
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-96" align="end">
+                {viewportGraph && <GraphViewportSettings graph={viewportGraph} onChange={updateViewport} />}
+              </PopoverContent>
+            </Popover>
+            {onSave && (
+              <Button variant="ghost" size="icon" onClick={() => onSave(currentGraph())} title="Save as .graph file">
+                <Save /><span className="sr-only">Save as .graph file</span>
+              </Button>
+            )}
             <Button variant="ghost" size="icon" onClick={handleCapture}><Camera /><span className="sr-only">Capture</span></Button>
             <Button variant="ghost" size="icon" onClick={onClose}><X /><span className="sr-only">Close</span></Button>
         </div>
       </header>
 
-      <main ref={plotContainerRef} className="flex-grow w-full pb-[280px]">
-        <div ref={plotRef} className="w-full h-full bg-white" />
+      <main ref={plotContainerRef} className="flex-grow w-full pb-[320px]">
+        {view === '2d' ? (
+          <div ref={plotRef} className="w-full h-full bg-white" />
+        ) : surface && surfaceGrid ? (
+          <SurfacePlot grid={surfaceGrid} view={view} color={surface.formula.color} canvasRef={surfaceCanvasRef} className="w-full h-full" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+            Add a z = f(x, y) formula to see it in this view.
+          </div>
+        )}
       </main>
       
       <footer className="absolute bottom-0 left-0 right-0 w-full flex-shrink-0">
         <Card className="rounded-t-lg rounded-b-none border-t-2 border-x-0 border-b-0">
             <CardContent className="p-2 grid gap-2">
                 <div className="flex flex-col gap-2 max-h-40 overflow-y-auto pr-2">
-                    {formulas.map((f, index) => (
-                        <div key={f.id} className="flex items-center gap-2 flex-shrink-0">
-                        <span className="w-2 h-6 rounded-full" style={{ backgroundColor: f.color }} />
-                        <Input
-                            ref={el => (inputRefs.current[index] = el)}
-                            type="text"
-                            readOnly
-                            value={f.value}
-                            onFocus={() => setActiveInputIndex(index)}
-                            onClick={() => setActiveInputIndex(index)}
-                            onKeyDown={(e) => { 
-                              if (e.key === 'Enter') drawPlot() 
-                              e.preventDefault();
-                            }}
-                            className="flex-grow bg-muted border-muted-foreground/30"
-                            placeholder="y = f(x)"
-                        />
-                        <Button variant="ghost" size="icon" onClick={() => removeFormula(f.id)} disabled={formulas.length <= 1 && f.value === ''}>
+                    {formulas.map((f, index) => {
+                        const info = FORMULA_TYPE_INFO[f.type];
+                        const errors = formulaErrors[index];
+                        const variable = f.type === 'polar' ? 'θ' : 't';
+                        return (
+                        <div key={f.id} className="flex flex-col gap-1 flex-shrink-0">
+                        <div className="flex items-center gap-2">
+                        <span className="w-2 h-6 rounded-full flex-shrink-0" style={{ backgroundColor: f.color }} />
+                        <Select value={f.type} onValueChange={(type) => updateFormula(f.id, { type: type as FormulaType })}>
+                            <SelectTrigger className="w-32 flex-shrink-0" aria-label="Formula type">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {FORMULA_TYPES.map(type => (
+                                    <SelectItem key={type} value={type}>{FORMULA_TYPE_INFO[type].label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <div className="flex-grow grid gap-1">
+                            {info.inputs.map(({ field, label, placeholder }) => (
+                                <div key={field} className="flex items-center gap-2">
+                                    {label && <span className="text-sm font-mono text-muted-foreground whitespace-nowrap">{label}</span>}
+                                    <Input
+                                        ref={el => { inputRefs.current[inputKey({ id: f.id, field })] = el; }}
+                                        type="text"
+                                        value={f[field]}
+                                        onChange={(e) => updateFormula(f.id, { [field]: e.target.value })}
+                                        onFocus={() => setActiveInput({ id: f.id, field })}
+                                        onClick={() => setActiveInput({ id: f.id, field })}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') drawPlot(); }}
+                                        spellCheck={false}
+                                        autoComplete="off"
+                                        className={cn("flex-grow bg-muted border-muted-foreground/30", errors[field] && "border-destructive")}
+                                        placeholder={placeholder}
+                                        aria-invalid={!!errors[field]}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <Button variant="ghost" size="icon" onClick={() => removeFormula(f.id)} disabled={formulas.length <= 1 && f.expression === ''}>
                             <Trash2 className="h-4 w-4 text-destructive" />
                         </Button>
                         </div>
+                        {info.hasRange && (
+                          <div className="flex items-center gap-2 pl-4 text-sm text-muted-foreground">
+                            <span className="font-mono">{variable} from</span>
+                            <ConstantInput
+                              value={f.range[0]}
+                              onChange={(value) => updateFormula(f.id, { range: [value, f.range[1]] })}
+                              className="h-8 w-24"
+                              aria-label={`${variable} from`}
+                            />
+                            <span>to</span>
+                            <ConstantInput
+                              value={f.range[1]}
+                              onChange={(value) => updateFormula(f.id, { range: [f.range[0], value] })}
+                              className="h-8 w-24"
+                              aria-label={`${variable} to`}
+                            />
+                          </div>
+                        )}
+                        {info.inputs.map(({ field }) => errors[field] && (
+                          <FormulaError
+                            key={field}
+                            expression={f[field]}
+                            error={errors[field]!}
+                            onApplySuggestion={(expression) => updateFormula(f.id, { [field]: expression })}
+                          />
+                        ))}
+                        </div>
+                        );
+                    })}
+                    {tables.map(t => (
+                      <PointTableEditor
+                        key={t.id}
+                        table={t}
+                        onChange={(updates) => updateTable(t.id, updates)}
+                        onRemove={() => setTables(tables.filter(other => other.id !== t.id))}
+                      />
                     ))}
                 </div>
-                 <Button onClick={addFormula} variant="outline" size="sm" className="w-full">
-                    <Plus className="h-4 w-4 mr-2" /> Add Formula
-                </Button>
-                
-                <div className="grid grid-cols-8 gap-1 pt-2">
-                    {keyboardLayout.flat().map((key, index) =>
-                        key ? (
-                            <Button
-                                key={index}
-                                variant="outline"
-                                className="h-8 text-sm p-1"
-                                onClick={() => handleKeyboardClick(key)}
-                            >
-                                {key === 'backspace' ? <Delete /> : key}
-                            </Button>
-                        ) : (
-                            <div key={index} />
-                        )
-                    )}
+                {usedParameters.length > 0 && (
+                  <div className="flex flex-col gap-1 max-h-28 overflow-y-auto pr-2 border-t pt-2">
+                    {parameters.filter(p => usedParameters.includes(p.name)).map(p => (
+                      <ParameterSlider
+                        key={p.name}
+                        parameter={p}
+                        isPlaying={playing.includes(p.name)}
+                        onChange={(updates) => updateParameter(p.name, updates)}
+                        onTogglePlay={() => togglePlaying(p)}
+                      />
+                    ))}
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                    <Button onClick={() => addFormula()} variant="outline" size="sm">
+                        <Plus className="h-4 w-4 mr-2" /> Add Formula
+                    </Button>
+                    <Button onClick={addTable} variant="outline" size="sm">
+                        <Table className="h-4 w-4 mr-2" /> Add Table
+                    </Button>
                 </div>
+                
+                {isAnalyzing && view === '2d' ? (
+                  <GraphAnalysisPanel
+                    curves={curves}
+                    formulas={formulas}
+                    selected={selectedPoint}
+                    tangent={tangent}
+                    onTangentChange={setTangent}
+                  />
+                ) : panel === 'cas' ? (
+                  <CasPanel
+                    initialSource={activeFormula?.type === 'function' ? activeFormula.expression : ''}
+                    onPlot={addFormula}
+                    onInsertText={onInsertText}
+                  />
+                ) : (
+                  <MathKeyboard
+                    variables={variableKeys[activeFormula?.type ?? 'function']}
+                    canTransform={(activeFormula?.type ?? 'function') === 'function'}
+                    onKey={handleKey}
+                    error={keyboardError}
+                  />
+                )}
             </CardContent>
         </Card>
       </footer>
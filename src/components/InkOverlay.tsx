@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { createItemId, type BoardItem, type InkItem } from '@/lib/board';
+import {
+  createInkItem,
+  hitTestInk,
+  HIGHLIGHTER_OPACITY,
+  inkOutline,
+  inkStrokeWidth,
+  outlineToPath,
+  type InkPoint,
+  type InkSettings,
+} from '@/lib/ink';
+import { SLIDE_REFERENCE_HEIGHT, SLIDE_REFERENCE_WIDTH } from '@/lib/slide-layout';
+
+interface InkOverlayProps {
+  settings: InkSettings;
+  // Items on the slide, for the eraser.
+  items: BoardItem[];
+  onAddStroke: (item: InkItem) => void;
+  // Called as the eraser touches strokes; `gestureId` is the same for one drag.
+  onErase: (ids: string[], gestureId: string) => void;
+}
+
+interface ActiveStroke {
+  pointerId: number;
+  gestureId: string;
+  points: InkPoint[];
+}
+
+/**
+ * Transparent layer over a slide that captures pen, mouse and touch input
+ * as ink strokes, or erases whole strokes when the eraser is selected.
+ * Strokes are recorded at the slide's reference size, whatever its size on
+ * screen.
+ */
+export const InkOverlay: React.FC<InkOverlayProps> = ({ settings, items, onAddStroke, onErase }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const strokeRef = useRef<ActiveStroke | null>(null);
+  const erasedRef = useRef(new Set<string>());
+  const [livePoints, setLivePoints] = useState<InkPoint[] | null>(null);
+
+  const getSize = (): [number, number] => [SLIDE_REFERENCE_WIDTH, SLIDE_REFERENCE_HEIGHT];
+
+  const toPoint = (e: PointerEvent): InkPoint => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const scale = rect.width / SLIDE_REFERENCE_WIDTH;
+    // Only pens report real pressure; mice and touch get a constant mid value.
+    const pressure = e.pointerType === 'pen' ? e.pressure : 0.5;
+    return [(e.clientX - rect.left) / scale, (e.clientY - rect.top) / scale, pressure];
+  };
+
+  const erase = (points: InkPoint[], gestureId: string) => {
+    const size = getSize();
+    const hits = items.filter((item): item is InkItem =>
+      item.type === 'ink' && !erasedRef.current.has(item.id) && points.some(point => hitTestInk(item, [point[0], point[1]], size))
+    );
+    if (!hits.length) return;
+    hits.forEach(item => erasedRef.current.add(item.id));
+    onErase(hits.map(item => item.id), gestureId);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!containerRef.current || e.button !== 0) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const stroke: ActiveStroke = { pointerId: e.pointerId, gestureId: createItemId('ink-gesture'), points: [toPoint(e.nativeEvent)] };
+    strokeRef.current = stroke;
+    if (settings.tool === 'eraser') {
+      erasedRef.current.clear();
+      erase(stroke.points, stroke.gestureId);
+    } else {
+      setLivePoints(stroke.points);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const stroke = strokeRef.current;
+    if (!stroke || stroke.pointerId !== e.pointerId) return;
+    // Coalesced events keep fast pen movements smooth.
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const points = (events.length ? events : [e.nativeEvent]).map(toPoint);
+    if (settings.tool === 'eraser') {
+      erase(points, stroke.gestureId);
+      return;
+    }
+    stroke.points = [...stroke.points, ...points];
+    setLivePoints(stroke.points);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const stroke = strokeRef.current;
+    if (!stroke || stroke.pointerId !== e.pointerId) return;
+    strokeRef.current = null;
+    setLivePoints(null);
+    if (settings.tool !== 'eraser') {
+      onAddStroke(createInkItem(createItemId('ink'), stroke.points, settings, getSize()));
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 z-20 touch-none"
+      style={{ cursor: settings.tool === 'eraser' ? 'cell' : 'crosshair' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {livePoints && settings.tool !== 'eraser' && (
+        <svg className="absolute inset-0 h-full w-full pointer-events-none" viewBox={`0 0 ${SLIDE_REFERENCE_WIDTH} ${SLIDE_REFERENCE_HEIGHT}`}>
+          <path
+            d={outlineToPath(inkOutline({ tool: settings.tool, stroke_width: inkStrokeWidth(settings), points: livePoints }, false))}
+            fill={settings.color}
+            fillOpacity={settings.tool === 'highlighter' ? HIGHLIGHTER_OPACITY : 1}
+          />
+        </svg>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+'use client';
+
+import React from 'react';
+import { Eraser, Highlighter, PenLine } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { INK_COLORS, INK_WIDTHS, type InkSettings, type InkTool } from '@/lib/ink';
+
+interface InkToolbarProps {
+  settings: InkSettings;
+  onChange: (settings: InkSettings) => void;
+  className?: string;
+}
+
+const tools: { value: InkTool; label: string; icon: React.ElementType }[] = [
+  { value: 'pen', label: 'Pen', icon: PenLine },
+  { value: 'highlighter', label: 'Highlighter', icon: Highlighter },
+  { value: 'eraser', label: 'Eraser', icon: Eraser },
+];
+
+/** Tool, color and width pickers for drawing ink on a slide. */
+export const InkToolbar: React.FC<InkToolbarProps> = ({ settings, onChange, className }) => {
+  const update = (updates: Partial<InkSettings>) => onChange({ ...settings, ...updates });
+  const isEraser = settings.tool === 'eraser';
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      {tools.map(({ value, label, icon: Icon }) => (
+        <Button
+          key={value}
+          variant={settings.tool === value ? 'secondary' : 'ghost'}
+          size="icon"
+          className="h-8 w-8"
+          title={label}
+          aria-pressed={settings.tool === value}
+          onClick={() => update({ tool: value })}
+        >
+          <Icon className="h-4 w-4" />
+          <span className="sr-only">{label}</span>
+        </Button>
+      ))}
+      <div className="w-px h-6 bg-border mx-1" />
+      {INK_COLORS.map(color => (
+        <button
+          key={color}
+          type="button"
+          title={color}
+          disabled={isEraser}
+          className={cn(
+            "h-6 w-6 rounded-full border-2 disabled:opacity-40",
+            settings.color === color ? "border-primary" : "border-transparent"
+          )}
+          style={{ backgroundColor: color }}
+          onClick={() => update({ color })}
+        >
+          <span className="sr-only">Color {color}</span>
+        </button>
+      ))}
+      <input
+        type="color"
+        title="Custom color"
+        aria-label="Custom color"
+        value={settings.color}
+        disabled={isEraser}
+        onChange={(e) => update({ color: e.target.value })}
+        className="h-7 w-7 cursor-pointer rounded border border-input bg-transparent p-0.5 disabled:opacity-40"
+      />
+      <div className="w-px h-6 bg-border mx-1" />
+      {INK_WIDTHS.map(({ value, label }) => (
+        <Button
+          key={value}
+          variant={settings.width === value ? 'secondary' : 'ghost'}
+          size="icon"
+          className="h-8 w-8"
+          title={label}
+          aria-pressed={settings.width === value}
+          disabled={isEraser}
+          onClick={() => update({ width: value })}
+        >
+          <span className="rounded-full bg-current" style={{ width: value + 2, height: value + 2 }} />
+          <span className="sr-only">{label}</span>
+        </Button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowLeft, ArrowRight, Delete } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  KEYBOARD_TAB_LABELS,
+  KEYBOARD_TABS,
+  keyboardLayout,
+  type KeyboardTab,
+  type MathKey,
+} from '@/lib/math-keyboard';
+
+interface MathKeyboardProps {
+  // Variables of the formula being edited, offered first.
+  variables: string[];
+  // Whether the calculus tab's rewriting keys apply to the formula.
+  canTransform: boolean;
+  onKey: (key: MathKey) => void;
+  // Why the last key could not be applied.
+  error: string | null;
+}
+
+/** Tabbed on-screen keyboard for typing formulas without a hardware keyboard. */
+export const MathKeyboard: React.FC<MathKeyboardProps> = ({ variables, canTransform, onKey, error }) => {
+  const [tab, setTab] = useState<KeyboardTab>('basic');
+
+  // Keys keep the focus in the formula input, where they type.
+  const keepFocus = (e: React.MouseEvent) => e.preventDefault();
+
+  return (
+    <Tabs value={tab} onValueChange={(value) => setTab(value as KeyboardTab)} className="pt-2 border-t">
+      <div className="flex items-center gap-2">
+        <TabsList className="h-8">
+          {KEYBOARD_TABS.map(t => (
+            <TabsTrigger key={t} value={t} className="h-6 px-3 text-xs">{KEYBOARD_TAB_LABELS[t]}</TabsTrigger>
+          ))}
+        </TabsList>
+        <div className="ml-auto flex gap-1">
+          <Button variant="outline" className="h-8 w-10 p-1" onMouseDown={keepFocus} onClick={() => onKey({ type: 'move', offset: -1 })}>
+            <ArrowLeft className="h-4 w-4" /><span className="sr-only">Move left</span>
+          </Button>
+          <Button variant="outline" className="h-8 w-10 p-1" onMouseDown={keepFocus} onClick={() => onKey({ type: 'move', offset: 1 })}>
+            <ArrowRight className="h-4 w-4" /><span className="sr-only">Move right</span>
+          </Button>
+          <Button variant="outline" className="h-8 w-10 p-1" onMouseDown={keepFocus} onClick={() => onKey({ type: 'backspace' })}>
+            <Delete className="h-4 w-4" /><span className="sr-only">Backspace</span>
+          </Button>
+        </div>
+      </div>
+      {KEYBOARD_TABS.map(t => {
+        const { columns, keys } = keyboardLayout(t, variables);
+        return (
+          <TabsContent key={t} value={t} className="mt-2">
+            <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+              {keys.map((key, index) => (
+                <Button
+                  key={index}
+                  variant="outline"
+                  className="h-8 text-sm p-1"
+                  disabled={key.type === 'transform' && !canTransform}
+                  onMouseDown={keepFocus}
+                  onClick={() => onKey(key)}
+                >
+                  {'label' in key ? key.label : null}
+                </Button>
+              ))}
+            </div>
+            {t === 'calculus' && !canTransform && (
+              <p className="mt-1 text-xs text-muted-foreground">Rewriting works on y = f(x) formulas.</p>
+            )}
+          </TabsContent>
+        );
+      })}
+      {error && <p className="mt-1 text-xs text-destructive">{error}</p>}
+    </Tabs>
+  );
+};
@@ -0,0 +1,93 @@
+'use client';
+
+import React from 'react';
+import { Pause, Play, Repeat, Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Label } from '@/components/ui/label';
+import { ConstantInput, formatConstant } from '@/components/ConstantInput';
+import type { GraphParameter } from '@/lib/graph';
+
+interface ParameterSliderProps {
+  parameter: GraphParameter;
+  isPlaying: boolean;
+  onChange: (updates: Partial<GraphParameter>) => void;
+  onTogglePlay: () => void;
+}
+
+/** Slider for one free variable, with its range, step and playback. */
+export const ParameterSlider: React.FC<ParameterSliderProps> = ({ parameter, isPlaying, onChange, onTogglePlay }) => {
+  const { name, value, min, max, step, loop } = parameter;
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="font-mono text-sm w-6 text-right">{name} =</span>
+      <ConstantInput
+        value={value}
+        onChange={(next) => onChange({ value: next })}
+        className="h-8 w-20"
+        aria-label={`Value of ${name}`}
+      />
+      <span className="text-xs text-muted-foreground w-10 text-right">{formatConstant(min)}</span>
+      <Slider
+        value={[Math.min(Math.max(value, min), max)]}
+        min={min}
+        max={max}
+        step={step}
+        onValueChange={([next]) => onChange({ value: next })}
+        className="flex-grow"
+        aria-label={name}
+      />
+      <span className="text-xs text-muted-foreground w-10">{formatConstant(max)}</span>
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onTogglePlay} title={isPlaying ? 'Pause' : 'Play'}>
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        <span className="sr-only">{isPlaying ? 'Pause' : 'Play'} {name}</span>
+      </Button>
+      <Button
+        variant={loop ? 'secondary' : 'ghost'}
+        size="icon"
+        className="h-8 w-8"
+        onClick={() => onChange({ loop: !loop })}
+        title="Loop"
+        aria-pressed={loop}
+      >
+        <Repeat className="h-4 w-4" />
+        <span className="sr-only">Loop {name}</span>
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8" title="Slider range">
+            <Settings2 className="h-4 w-4" />
+            <span className="sr-only">Range of {name}</span>
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-56 grid gap-2">
+          <div className="grid grid-cols-[3rem_1fr] items-center gap-2">
+            <Label htmlFor={`parameter-${name}-min`}>Min</Label>
+            <ConstantInput
+              id={`parameter-${name}-min`}
+              value={min}
+              onChange={(next) => onChange({ min: next, max: Math.max(max, next + step) })}
+              className="h-8"
+            />
+            <Label htmlFor={`parameter-${name}-max`}>Max</Label>
+            <ConstantInput
+              id={`parameter-${name}-max`}
+              value={max}
+              onChange={(next) => onChange({ max: next, min: Math.min(min, next - step) })}
+              className="h-8"
+            />
+            <Label htmlFor={`parameter-${name}-step`}>Step</Label>
+            <ConstantInput
+              id={`parameter-${name}-step`}
+              value={step}
+              onChange={(next) => onChange({ step: Math.abs(next) || step })}
+              className="h-8"
+            />
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+'use client';
+
+import React, { useMemo, useRef } from 'react';
+import { Plus, Trash2, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ConstantInput } from '@/components/ConstantInput';
+import { FIT_TYPES, type FitType, type PointTable } from '@/lib/graph';
+import { fitPoints, FitError, parsePoints, type Point } from '@/lib/graph-data';
+
+interface PointTableEditorProps {
+  table: PointTable;
+  onChange: (updates: Partial<PointTable>) => void;
+  onRemove: () => void;
+}
+
+const FIT_LABELS: Record<FitType, string> = {
+  none: 'No fit',
+  linear: 'Linear',
+  quadratic: 'Quadratic',
+  exponential: 'Exponential',
+  power: 'Power',
+};
+
+/**
+ * Table of (x, y) points with a least-squares fit. CSV or spreadsheet
+ * cells pasted anywhere in the table, or imported from a file, are added
+ * as points.
+ */
+export const PointTableEditor: React.FC<PointTableEditorProps> = ({ table, onChange, onRemove }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { points, fit: fitType, color } = table;
+
+  const fit = useMemo(() => {
+    if (fitType === 'none') return null;
+    try {
+      return fitPoints(points, fitType);
+    } catch (e) {
+      if (e instanceof FitError) return e;
+      throw e;
+    }
+  }, [points, fitType]);
+
+  const addPoints = (added: Point[]) => onChange({ points: [...points, ...added] });
+
+  const updatePoint = (index: number, point: Point) => {
+    onChange({ points: points.map((p, i) => (i === index ? point : p)) });
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const pasted = parsePoints(e.clipboardData.getData('text'));
+    if (!pasted.length) return;
+    e.preventDefault();
+    addPoints(pasted);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    addPoints(parsePoints(await file.text()));
+  };
+
+  return (
+    <div className="flex flex-col gap-1 flex-shrink-0" onPaste={handlePaste}>
+      <div className="flex items-center gap-2">
+        <span className="w-2 h-6 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />
+        <span className="text-sm font-medium flex-grow">Table ({points.length} {points.length === 1 ? 'point' : 'points'})</span>
+        <Select value={fitType} onValueChange={(value) => onChange({ fit: value as FitType })}>
+          <SelectTrigger className="w-32 h-8" aria-label="Fit">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FIT_TYPES.map(type => (
+              <SelectItem key={type} value={type}>{FIT_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Import CSV" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4" />
+          <span className="sr-only">Import CSV</span>
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+          <span className="sr-only">Remove table</span>
+        </Button>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/plain"
+          ref={fileInputRef}
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+      {fit instanceof FitError ? (
+        <p className="pl-4 text-xs text-destructive">{fit.message}</p>
+      ) : fit && (
+        <p className="pl-4 text-sm font-mono">
+          {fit.equation}
+          <span className="ml-3 text-muted-foreground">R² = {fit.r2.toFixed(4)}</span>
+        </p>
+      )}
+      <div className="pl-4 grid grid-cols-[1fr_1fr_2rem] gap-1 items-center text-sm">
+        <span className="font-mono text-muted-foreground">x</span>
+        <span className="font-mono text-muted-foreground">y</span>
+        <span />
+        {points.map(([x, y], index) => (
+          <React.Fragment key={index}>
+            <ConstantInput value={x} onChange={(value) => updatePoint(index, [value, y])} className="h-8" aria-label={`x of point ${index + 1}`} />
+            <ConstantInput value={y} onChange={(value) => updatePoint(index, [x, value])} className="h-8" aria-label={`y of point ${index + 1}`} />
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onChange({ points: points.filter((_, i) => i !== index) })}>
+              <X className="h-4 w-4" />
+              <span className="sr-only">Remove point {index + 1}</span>
+            </Button>
+          </React.Fragment>
+        ))}
+      </div>
+      <div className="pl-4 flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => addPoints([points.length ? [points[points.length - 1][0] + 1, 0] : [0, 0]])}>
+          <Plus className="h-4 w-4 mr-2" /> Add Point
+        </Button>
+        <span className="text-xs text-muted-foreground">or paste cells from a spreadsheet</span>
+      </div>
+    </div>
+  );
+};
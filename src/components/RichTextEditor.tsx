@@ -0,0 +1,291 @@
+'use client';
+
+import React from 'react';
+import { EditorContent, useEditor, type Editor, type JSONContent } from '@tiptap/react';
+import StarterKit from '@tiptap/starter-kit';
+import Underline from '@tiptap/extension-underline';
+import TextStyle from '@tiptap/extension-text-style';
+import Color from '@tiptap/extension-color';
+import Highlight from '@tiptap/extension-highlight';
+import TextAlign from '@tiptap/extension-text-align';
+import {
+  AlignCenter,
+  AlignJustify,
+  AlignLeft,
+  AlignRight,
+  Bold,
+  Highlighter,
+  Italic,
+  List,
+  ListOrdered,
+  RemoveFormatting,
+  Underline as UnderlineIcon,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RICH_TEXT_CLASSES, RichTextView } from '@/components/RichTextView';
+import type { RichText, TextBlock, TextRun } from '@/lib/board';
+import { containsMath, findMathErrors } from '@/lib/math';
+import { normalizeRuns } from '@/lib/rich-text';
+import { cn } from '@/lib/utils';
+
+type Alignment = NonNullable<TextBlock['align']>;
+
+const DEFAULT_HIGHLIGHT = '#fde047';
+
+// Conversion between the board's rich text and the editor's document.
+
+const runToNodes = (run: TextRun): JSONContent[] => {
+  const marks: NonNullable<JSONContent['marks']> = [];
+  if (run.bold) marks.push({ type: 'bold' });
+  if (run.italic) marks.push({ type: 'italic' });
+  if (run.underline) marks.push({ type: 'underline' });
+  if (run.color) marks.push({ type: 'textStyle', attrs: { color: run.color } });
+  if (run.highlight) marks.push({ type: 'highlight', attrs: { color: run.highlight } });
+  return run.text.split('\n').flatMap((part, index) => [
+    ...(index > 0 ? [{ type: 'hardBreak' }] : []),
+    ...(part ? [{ type: 'text', text: part, ...(marks.length ? { marks } : {}) }] : []),
+  ]);
+};
+
+const blockToNode = (block: TextBlock, asParagraph = false): JSONContent => {
+  const heading = block.type === 'heading' && !asParagraph;
+  return {
+    type: heading ? 'heading' : 'paragraph',
+    attrs: { textAlign: block.align ?? 'left', ...(heading ? { level: block.level ?? 1 } : {}) },
+    content: block.runs.flatMap(runToNodes),
+  };
+};
+
+const toDocument = (content: RichText): JSONContent => {
+  const nodes: JSONContent[] = [];
+  for (let index = 0; index < content.length; index++) {
+    const block = content[index];
+    if (block.type !== 'bullet' && block.type !== 'numbered') {
+      nodes.push(blockToNode(block));
+      continue;
+    }
+    const items: JSONContent[] = [];
+    while (index < content.length && content[index].type === block.type) {
+      items.push({ type: 'listItem', content: [blockToNode(content[index], true)] });
+      index++;
+    }
+    index--;
+    nodes.push({ type: block.type === 'bullet' ? 'bulletList' : 'orderedList', content: items });
+  }
+  return { type: 'doc', content: nodes.length ? nodes : [{ type: 'paragraph' }] };
+};
+
+const nodeRuns = (node: JSONContent): TextRun[] =>
+  normalizeRuns((node.content ?? []).map(child => {
+    if (child.type === 'hardBreak') return { text: '\n' };
+    const run: TextRun = { text: child.text ?? '' };
+    for (const mark of child.marks ?? []) {
+      if (mark.type === 'bold') run.bold = true;
+      else if (mark.type === 'italic') run.italic = true;
+      else if (mark.type === 'underline') run.underline = true;
+      else if (mark.type === 'textStyle' && mark.attrs?.color) run.color = mark.attrs.color;
+      else if (mark.type === 'highlight') run.highlight = mark.attrs?.color || DEFAULT_HIGHLIGHT;
+    }
+    return run;
+  }));
+
+// Nested lists are flattened into the list they belong to.
+const collectBlocks = (nodes: JSONContent[], listType: 'bullet' | 'numbered' | null, blocks: TextBlock[]) => {
+  for (const node of nodes) {
+    if (node.type === 'paragraph' || node.type === 'heading') {
+      const align = node.attrs?.textAlign as Alignment | undefined;
+      const heading = node.type === 'heading' && !listType;
+      blocks.push({
+        type: listType ?? (heading ? 'heading' : 'paragraph'),
+        ...(heading ? { level: node.attrs?.level ?? 1 } : {}),
+        ...(align && align !== 'left' ? { align } : {}),
+        runs: nodeRuns(node),
+      });
+    } else if (node.type === 'bulletList' || node.type === 'orderedList') {
+      collectBlocks(node.content ?? [], node.type === 'bulletList' ? 'bullet' : 'numbered', blocks);
+    } else if (node.type === 'listItem') {
+      collectBlocks(node.content ?? [], listType, blocks);
+    }
+  }
+  return blocks;
+};
+
+const fromDocument = (doc: JSONContent): RichText => collectBlocks(doc.content ?? [], null, []);
+
+const ToolbarButton: React.FC<{ active?: boolean; label: string; onClick: () => void; children: React.ReactNode }> = ({ active, label, onClick, children }) => (
+  <Button
+    type="button"
+    variant={active ? 'secondary' : 'ghost'}
+    size="icon"
+    className="h-8 w-8"
+    title={label}
+    aria-label={label}
+    aria-pressed={active}
+    onClick={onClick}
+  >
+    {children}
+  </Button>
+);
+
+const blockStyleOf = (editor: Editor) => {
+  for (const level of [1, 2, 3]) {
+    if (editor.isActive('heading', { level })) return String(level);
+  }
+  return 'paragraph';
+};
+
+const alignments: { value: Alignment; label: string; icon: React.ElementType }[] = [
+  { value: 'left', label: 'Align left', icon: AlignLeft },
+  { value: 'center', label: 'Align center', icon: AlignCenter },
+  { value: 'right', label: 'Align right', icon: AlignRight },
+  { value: 'justify', label: 'Justify', icon: AlignJustify },
+];
+
+interface RichTextEditorProps {
+  value: RichText;
+  onChange: (value: RichText) => void;
+  className?: string;
+}
+
+/** Typeset preview of the text's math with any TeX errors listed below it. */
+const MathPreview: React.FC<{ content: RichText }> = ({ content }) => {
+  const errors = React.useMemo(() => findMathErrors(content), [content]);
+  return (
+    <div className="grid gap-2">
+      <p className="text-sm font-medium">Preview</p>
+      <div className="max-h-48 overflow-auto rounded-md border border-input bg-white px-3 py-2 text-lg text-black">
+        <RichTextView content={content} />
+      </div>
+      {errors.map((error, index) => (
+        <p key={index} className="text-sm text-destructive">
+          <code className="font-mono">{error.tex}</code>: {error.message}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * WYSIWYG editor for a text item's rich text. `value` is only read when
+ * the editor mounts; remount it (e.g. with a `key`) to load other content.
+ * Text with `$...$` or `$$...$$` math gets a live typeset preview.
+ */
+export const RichTextEditor: React.FC<RichTextEditorProps> = ({ value, onChange, className }) => {
+  const [highlightColor, setHighlightColor] = React.useState(DEFAULT_HIGHLIGHT);
+  const [content, setContent] = React.useState(value);
+  const editor = useEditor({
+    immediatelyRender: false,
+    extensions: [
+      StarterKit.configure({
+        heading: { levels: [1, 2, 3] },
+        blockquote: false,
+        code: false,
+        codeBlock: false,
+        horizontalRule: false,
+        strike: false,
+      }),
+      Underline,
+      TextStyle,
+      Color,
+      Highlight.configure({ multicolor: true }),
+      TextAlign.configure({ types: ['heading', 'paragraph'] }),
+    ],
+    content: toDocument(value),
+    editorProps: {
+      attributes: {
+        class: 'min-h-[200px] rounded-md border border-input bg-white text-black px-3 py-2 text-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+      },
+    },
+    onUpdate: ({ editor }) => {
+      const updated = fromDocument(editor.getJSON());
+      setContent(updated);
+      onChange(updated);
+    },
+  });
+
+  if (!editor) return null;
+
+  const chain = () => editor.chain().focus();
+  const textColor = (editor.getAttributes('textStyle').color as string | undefined) ?? '#000000';
+
+  return (
+    <div className={cn("grid gap-2", className)}>
+      <div className="flex flex-wrap items-center gap-1">
+        <Select
+          value={blockStyleOf(editor)}
+          onValueChange={(style) => style === 'paragraph'
+            ? chain().setParagraph().run()
+            : chain().setHeading({ level: Number(style) as 1 | 2 | 3 }).run()}
+        >
+          <SelectTrigger className="h-8 w-32" aria-label="Block style">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="paragraph">Paragraph</SelectItem>
+            <SelectItem value="1">Heading 1</SelectItem>
+            <SelectItem value="2">Heading 2</SelectItem>
+            <SelectItem value="3">Heading 3</SelectItem>
+          </SelectContent>
+        </Select>
+        <ToolbarButton label="Bold" active={editor.isActive('bold')} onClick={() => chain().toggleBold().run()}>
+          <Bold className="h-4 w-4" />
+        </ToolbarButton>
+        <ToolbarButton label="Italic" active={editor.isActive('italic')} onClick={() => chain().toggleItalic().run()}>
+          <Italic className="h-4 w-4" />
+        </ToolbarButton>
+        <ToolbarButton label="Underline" active={editor.isActive('underline')} onClick={() => chain().toggleUnderline().run()}>
+          <UnderlineIcon className="h-4 w-4" />
+        </ToolbarButton>
+        <input
+          type="color"
+          title="Text color"
+          aria-label="Text color"
+          value={textColor}
+          onChange={(e) => chain().setColor(e.target.value).run()}
+          className="h-8 w-8 cursor-pointer rounded border border-input bg-transparent p-1"
+        />
+        <ToolbarButton
+          label="Highlight"
+          active={editor.isActive('highlight')}
+          onClick={() => chain().toggleHighlight({ color: highlightColor }).run()}
+        >
+          <Highlighter className="h-4 w-4" />
+        </ToolbarButton>
+        <input
+          type="color"
+          title="Highlight color"
+          aria-label="Highlight color"
+          value={highlightColor}
+          onChange={(e) => {
+            setHighlightColor(e.target.value);
+            chain().setHighlight({ color: e.target.value }).run();
+          }}
+          className="h-8 w-8 cursor-pointer rounded border border-input bg-transparent p-1"
+        />
+        <ToolbarButton label="Bulleted list" active={editor.isActive('bulletList')} onClick={() => chain().toggleBulletList().run()}>
+          <List className="h-4 w-4" />
+        </ToolbarButton>
+        <ToolbarButton label="Numbered list" active={editor.isActive('orderedList')} onClick={() => chain().toggleOrderedList().run()}>
+          <ListOrdered className="h-4 w-4" />
+        </ToolbarButton>
+        {alignments.map(({ value: align, label, icon: Icon }) => (
+          <ToolbarButton key={align} label={label} active={editor.isActive({ textAlign: align })} onClick={() => chain().setTextAlign(align).run()}>
+            <Icon className="h-4 w-4" />
+          </ToolbarButton>
+        ))}
+        <ToolbarButton label="Clear formatting" onClick={() => chain().unsetAllMarks().unsetTextAlign().run()}>
+          <RemoveFormatting className="h-4 w-4" />
+        </ToolbarButton>
+      </div>
+      <EditorContent editor={editor} className={RICH_TEXT_CLASSES} />
+      {containsMath(content) && <MathPreview content={content} />}
+    </div>
+  );
+};
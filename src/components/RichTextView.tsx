@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import 'katex/dist/katex.min.css';
+import type { RichText, TextBlock, TextRun } from '@/lib/board';
+import { renderMathToHtml, splitRunsWithMath } from '@/lib/math';
+
+// Block styles shared by the slide rendering and the rich-text editor, so
+// what is typed in the editor looks the same on the slide.
+export const RICH_TEXT_CLASSES = [
+  'whitespace-pre-wrap',
+  '[&_p]:m-0',
+  '[&_h1]:m-0 [&_h1]:text-[2em] [&_h1]:font-bold [&_h1]:leading-tight',
+  '[&_h2]:m-0 [&_h2]:text-[1.5em] [&_h2]:font-bold [&_h2]:leading-tight',
+  '[&_h3]:m-0 [&_h3]:text-[1.17em] [&_h3]:font-bold [&_h3]:leading-tight',
+  '[&_ul]:m-0 [&_ul]:list-disc [&_ul]:pl-[1.5em]',
+  '[&_ol]:m-0 [&_ol]:list-decimal [&_ol]:pl-[1.5em]',
+].join(' ');
+
+const runStyle = (run: TextRun): React.CSSProperties => ({
+  fontWeight: run.bold ? 'bold' : undefined,
+  fontStyle: run.italic ? 'italic' : undefined,
+  textDecoration: run.underline ? 'underline' : undefined,
+  color: run.color,
+  backgroundColor: run.highlight,
+});
+
+// `$...$` and `$$...$$` in the text are typeset as math.
+const renderRuns = (runs: TextRun[]) =>
+  runs.length === 0
+    ? <br />
+    : splitRunsWithMath(runs).map((piece, index) =>
+        piece.kind === 'math'
+          ? <span key={index} style={runStyle(piece.run)} dangerouslySetInnerHTML={{ __html: renderMathToHtml(piece.tex, piece.display) }} />
+          : <span key={index} style={runStyle(piece.run)}>{piece.text}</span>
+      );
+
+const renderBlock = (block: TextBlock, key: number) => {
+  const style: React.CSSProperties = { textAlign: block.align };
+  const runs = renderRuns(block.runs);
+  if (block.type === 'heading') {
+    const Heading = `h${block.level ?? 1}` as 'h1' | 'h2' | 'h3';
+    return <Heading key={key} style={style}>{runs}</Heading>;
+  }
+  if (block.type === 'bullet' || block.type === 'numbered') {
+    return <li key={key} style={style}>{runs}</li>;
+  }
+  return <p key={key} style={style}>{runs}</p>;
+};
+
+/** Renders a text item's rich text. Consecutive list blocks share one list. */
+export const RichTextView: React.FC<{ content: RichText }> = ({ content }) => {
+  const elements: React.ReactNode[] = [];
+  for (let index = 0; index < content.length; index++) {
+    const block = content[index];
+    if (block.type !== 'bullet' && block.type !== 'numbered') {
+      elements.push(renderBlock(block, index));
+      continue;
+    }
+    const start = index;
+    const items: React.ReactNode[] = [];
+    while (index < content.length && content[index].type === block.type) {
+      items.push(renderBlock(content[index], index));
+      index++;
+    }
+    index--;
+    elements.push(block.type === 'bullet' ? <ul key={`list-${start}`}>{items}</ul> : <ol key={`list-${start}`}>{items}</ol>);
+  }
+  return <div className={RICH_TEXT_CLASSES}>{elements}</div>;
+};
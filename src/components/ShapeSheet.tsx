@@ -0,0 +1,167 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Slider } from '@/components/ui/slider';
+import { createItemId, type ShapeItem } from '@/lib/board';
+import { createShape, isLineShape, SHAPE_KINDS, shapeToSvgMarkup } from '@/lib/shapes';
+
+interface ShapeSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Shape being edited, or null to add a new one.
+  shape: ShapeItem | null;
+  onSave: (shape: ShapeItem) => void;
+}
+
+const dashStyles: { value: ShapeItem['dash']; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'dotted', label: 'Dotted' },
+];
+
+const DEFAULT_FILL = '#bfdbfe';
+
+export const ShapeSheet: React.FC<ShapeSheetProps> = ({ open, onOpenChange, shape, onSave }) => {
+  const [draft, setDraft] = useState<ShapeItem>(() => shape ?? createShape('rect', createItemId('shape')));
+
+  useEffect(() => {
+    if (open) setDraft(shape ?? createShape('rect', createItemId('shape')));
+  }, [open, shape]);
+
+  const update = (updates: Partial<ShapeItem>) => setDraft(current => ({ ...current, ...updates }));
+
+  const handleKindChange = (kind: ShapeItem['kind']) => {
+    if (shape) {
+      // Keep the edited shape's size and position, but give arrows a head.
+      update({ kind, ...(kind === 'arrow' && !draft.arrow_start && !draft.arrow_end ? { arrow_end: true } : {}) });
+    } else {
+      setDraft(current => ({ ...createShape(kind, current.id), stroke: current.stroke, stroke_width: current.stroke_width, dash: current.dash }));
+    }
+  };
+
+  const hasFill = draft.fill !== 'none';
+  const previewSize = { width: Math.min(draft.width, 240), height: Math.min(draft.height, 120) };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent>
+        <SheetHeader>
+          <SheetTitle>{shape ? 'Edit Shape' : 'Add Shape'}</SheetTitle>
+          <SheetDescription>
+            Choose a shape and its outline, fill and arrowheads.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="grid gap-6 py-6">
+          <div className="flex h-36 items-center justify-center rounded-md border bg-white">
+            <svg
+              width={previewSize.width}
+              height={previewSize.height}
+              viewBox={`0 0 ${draft.width} ${draft.height}`}
+              preserveAspectRatio="xMidYMid meet"
+              overflow="visible"
+              dangerouslySetInnerHTML={{ __html: shapeToSvgMarkup(draft) }}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Shape</Label>
+            <RadioGroup value={draft.kind} onValueChange={(value) => handleKindChange(value as ShapeItem['kind'])} className="grid-cols-2">
+              {SHAPE_KINDS.map(option => (
+                <div key={option.value} className="flex items-center gap-2">
+                  <RadioGroupItem value={option.value} id={`shape-kind-${option.value}`} />
+                  <Label htmlFor={`shape-kind-${option.value}`} className="font-normal">{option.label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="shape-stroke">Stroke</Label>
+              <Input id="shape-stroke" type="color" value={draft.stroke} onChange={(e) => update({ stroke: e.target.value })} className="h-10 w-full p-1" />
+            </div>
+            {!isLineShape(draft) && (
+              <div className="grid gap-2">
+                <Label htmlFor="shape-fill">Fill</Label>
+                <Input
+                  id="shape-fill"
+                  type="color"
+                  value={hasFill ? draft.fill : DEFAULT_FILL}
+                  disabled={!hasFill}
+                  onChange={(e) => update({ fill: e.target.value })}
+                  className="h-10 w-full p-1"
+                />
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="shape-no-fill"
+                    checked={!hasFill}
+                    onCheckedChange={(checked) => update({ fill: checked === true ? 'none' : DEFAULT_FILL })}
+                  />
+                  <Label htmlFor="shape-no-fill" className="font-normal">No fill</Label>
+                </div>
+              </div>
+            )}
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="shape-stroke-width">Stroke width: {draft.stroke_width}px</Label>
+            <Slider
+              id="shape-stroke-width"
+              value={[draft.stroke_width]}
+              onValueChange={(value) => update({ stroke_width: value[0] })}
+              max={20}
+              step={1}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="shape-dash">Line style</Label>
+            <Select value={draft.dash} onValueChange={(value) => update({ dash: value as ShapeItem['dash'] })}>
+              <SelectTrigger id="shape-dash">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {dashStyles.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isLineShape(draft) && (
+            <div className="grid gap-2">
+              <Label>Arrowheads</Label>
+              <div className="flex items-center gap-2">
+                <Checkbox id="shape-arrow-start" checked={draft.arrow_start} onCheckedChange={(checked) => update({ arrow_start: checked === true })} />
+                <Label htmlFor="shape-arrow-start" className="font-normal">Start</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox id="shape-arrow-end" checked={draft.arrow_end} onCheckedChange={(checked) => update({ arrow_end: checked === true })} />
+                <Label htmlFor="shape-arrow-end" className="font-normal">End</Label>
+              </div>
+            </div>
+          )}
+        </div>
+        <SheetFooter>
+          <Button onClick={() => onOpenChange(false)} variant="outline">Cancel</Button>
+          <Button onClick={() => onSave(draft)}>{shape ? 'Save Changes' : 'Add Shape'}</Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,329 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { SlideItemView } from '@/components/SlideView';
+import { useReferenceScale } from '@/hooks/use-reference-scale';
+import type { BoardItem, GraphItem, ShapeItem, TextItem } from '@/lib/board';
+import { SLIDE_REFERENCE_HEIGHT, SLIDE_REFERENCE_WIDTH, sortSlideItems } from '@/lib/slide-layout';
+
+interface SlideCanvasProps {
+  items: BoardItem[];
+  selectedItemId: string | null;
+  onSelectItem: (id: string | null) => void;
+  onUpdateItem: (id: string, updates: Partial<BoardItem>, label: string, mergeKey?: string) => void;
+  onTextDoubleClick: (item: TextItem) => void;
+  onShapeDoubleClick: (item: ShapeItem) => void;
+  onGraphDoubleClick: (item: GraphItem) => void;
+}
+
+type Handle = 'nw' | 'ne' | 'sw' | 'se' | 'w' | 'e' | 'rotate';
+type GestureKind = 'move' | 'scale' | 'width' | 'rotate';
+
+interface Gesture {
+  kind: GestureKind;
+  handle?: Handle;
+  pointerId: number;
+  item: BoardItem;
+  start: [number, number];
+  size: [number, number];
+  center: [number, number];
+  // On-screen pixels per reference pixel when the gesture started.
+  scale: number;
+  moved: boolean;
+}
+
+interface Guides {
+  x: number[];
+  y: number[];
+}
+
+const SNAP_DISTANCE_PX = 6;
+const ROTATION_SNAP_DEG = 15;
+const NUDGE_STEP = 1; // Percentage step
+const NUDGE_STEP_LARGE = 5;
+const MIN_FONT_SIZE = 8;
+const MIN_TEXT_WIDTH = 50;
+const MIN_IMAGE_SCALE = 0.1;
+const MIN_SHAPE_SIZE = 4;
+
+const gestureLabels: Record<GestureKind, string> = {
+  move: 'Move item',
+  scale: 'Scale item',
+  width: 'Change width',
+  rotate: 'Rotate item',
+};
+
+const corners: { handle: Handle; style: React.CSSProperties }[] = [
+  { handle: 'nw', style: { left: -7, top: -7, cursor: 'nwse-resize' } },
+  { handle: 'ne', style: { right: -7, top: -7, cursor: 'nesw-resize' } },
+  { handle: 'sw', style: { left: -7, bottom: -7, cursor: 'nesw-resize' } },
+  { handle: 'se', style: { right: -7, bottom: -7, cursor: 'nwse-resize' } },
+];
+
+const sides: { handle: Handle; style: React.CSSProperties }[] = [
+  { handle: 'w', style: { left: -7, top: 'calc(50% - 6px)', cursor: 'ew-resize' } },
+  { handle: 'e', style: { right: -7, top: 'calc(50% - 6px)', cursor: 'ew-resize' } },
+];
+
+// Text items are anchored at their left edge and vertically centred;
+// everything else is anchored at its centre. All rotate about their centre.
+const getItemCenter = (item: BoardItem, [width, height]: [number, number]): [number, number] => {
+  const x = (item.position[0] / 100) * width;
+  const y = (item.position[1] / 100) * height;
+  return item.type === 'text' ? [x + item.width / 2, y] : [x, y];
+};
+
+const snap = (value: number, targets: number[], distance: number) => {
+  let best: number | null = null;
+  for (const target of targets) {
+    if (Math.abs(target - value) <= distance && (best === null || Math.abs(target - value) < Math.abs(best - value))) {
+      best = target;
+    }
+  }
+  return best;
+};
+
+const isEditableTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName));
+};
+
+// Sheets, dialogs and popovers over the canvas own the keyboard while open,
+// even when focus has not moved into them.
+const isOverlayOpen = () =>
+  document.querySelector('[role="dialog"][data-state="open"], [role="alertdialog"][data-state="open"]') !== null;
+
+/**
+ * Editable slide. Items are laid out at the reference size and scaled to
+ * fill the canvas, as in previews and exports; pointer positions are
+ * mapped back to reference pixels.
+ */
+export const SlideCanvas: React.FC<SlideCanvasProps> = ({ items, selectedItemId, onSelectItem, onUpdateItem, onTextDoubleClick, onShapeDoubleClick, onGraphDoubleClick }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasScale = useReferenceScale(containerRef, SLIDE_REFERENCE_WIDTH);
+  const gestureRef = useRef<Gesture | null>(null);
+  const [draft, setDraft] = useState<{ id: string; updates: Partial<BoardItem> } | null>(null);
+  const [guides, setGuides] = useState<Guides>({ x: [], y: [] });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!selectedItemId || isEditableTarget(e.target) || isOverlayOpen() || e.ctrlKey || e.metaKey) return;
+      const item = items.find(i => i.id === selectedItemId);
+      if (!item) return;
+      const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+      let [x, y] = item.position;
+      switch (e.key) {
+        case 'ArrowUp': y -= step; break;
+        case 'ArrowDown': y += step; break;
+        case 'ArrowLeft': x -= step; break;
+        case 'ArrowRight': x += step; break;
+        default: return;
+      }
+      e.preventDefault();
+      onUpdateItem(item.id, { position: [x, y] }, 'Move item', `move:${item.id}`);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [items, selectedItemId, onUpdateItem]);
+
+  const getScale = () => containerRef.current!.getBoundingClientRect().width / SLIDE_REFERENCE_WIDTH;
+
+  const getPointer = (e: React.PointerEvent): [number, number] => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const scale = getScale();
+    return [(e.clientX - rect.left) / scale, (e.clientY - rect.top) / scale];
+  };
+
+  const startGesture = (e: React.PointerEvent, item: BoardItem, kind: GestureKind, handle?: Handle) => {
+    if (!containerRef.current || e.button !== 0) return;
+    e.stopPropagation();
+    onSelectItem(item.id);
+    const size: [number, number] = [SLIDE_REFERENCE_WIDTH, SLIDE_REFERENCE_HEIGHT];
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    gestureRef.current = {
+      kind,
+      handle,
+      pointerId: e.pointerId,
+      item,
+      start: getPointer(e),
+      size,
+      center: getItemCenter(item, size),
+      scale: getScale(),
+      moved: false,
+    };
+  };
+
+  const computeUpdates = (gesture: Gesture, pointer: [number, number], e: React.PointerEvent): { updates: Partial<BoardItem>; guides: Guides } => {
+    const { item, start, size: [width, height], center } = gesture;
+    const dx = pointer[0] - start[0];
+    const dy = pointer[1] - start[1];
+    const toPercent = (x: number, y: number): [number, number] => [(x / width) * 100, (y / height) * 100];
+
+    if (gesture.kind === 'move') {
+      let cx = center[0] + dx;
+      let cy = center[1] + dy;
+      const active: Guides = { x: [], y: [] };
+      if (!e.altKey) {
+        const others = items.filter(i => i.id !== item.id).map(i => getItemCenter(i, gesture.size));
+        const distance = SNAP_DISTANCE_PX / gesture.scale;
+        const snapX = snap(cx, [0, width / 2, width, ...others.map(c => c[0])], distance);
+        const snapY = snap(cy, [0, height / 2, height, ...others.map(c => c[1])], distance);
+        if (snapX !== null) { cx = snapX; active.x.push(snapX); }
+        if (snapY !== null) { cy = snapY; active.y.push(snapY); }
+      }
+      const anchorX = item.type === 'text' ? cx - item.width / 2 : cx;
+      return { updates: { position: toPercent(anchorX, cy) }, guides: active };
+    }
+
+    if (gesture.kind === 'rotate') {
+      const startAngle = Math.atan2(start[1] - center[1], start[0] - center[0]);
+      const angle = Math.atan2(pointer[1] - center[1], pointer[0] - center[0]);
+      let rotation = item.rotation + ((angle - startAngle) * 180) / Math.PI;
+      if (e.shiftKey) rotation = Math.round(rotation / ROTATION_SNAP_DEG) * ROTATION_SNAP_DEG;
+      return { updates: { rotation: Math.round(rotation * 10) / 10 }, guides: { x: [], y: [] } };
+    }
+
+    if (gesture.kind === 'scale') {
+      const startDistance = Math.hypot(start[0] - center[0], start[1] - center[1]) || 1;
+      const factor = Math.hypot(pointer[0] - center[0], pointer[1] - center[1]) / startDistance;
+      if (item.type === 'image' || item.type === 'ink') {
+        return { updates: { scale: Math.max(MIN_IMAGE_SCALE, Math.round(item.scale * factor * 100) / 100) }, guides: { x: [], y: [] } };
+      }
+      if (item.type === 'shape' || item.type === 'graph') {
+        return {
+          updates: {
+            width: Math.max(MIN_SHAPE_SIZE, Math.round(item.width * factor)),
+            height: Math.max(MIN_SHAPE_SIZE, Math.round(item.height * factor)),
+          },
+          guides: { x: [], y: [] },
+        };
+      }
+      const fontSize = Math.max(MIN_FONT_SIZE, Math.round(item.font_size * factor));
+      const textWidth = Math.max(MIN_TEXT_WIDTH, Math.round(item.width * factor));
+      return {
+        updates: { font_size: fontSize, width: textWidth, position: toPercent(center[0] - textWidth / 2, center[1]) } as Partial<TextItem>,
+        guides: { x: [], y: [] },
+      };
+    }
+
+    // Width: move one side along the item's rotated x axis and keep the
+    // opposite side where it is.
+    if (item.type !== 'text') return { updates: {}, guides: { x: [], y: [] } };
+    const radians = (item.rotation * Math.PI) / 180;
+    const axis: [number, number] = [Math.cos(radians), Math.sin(radians)];
+    const along = dx * axis[0] + dy * axis[1];
+    const direction = gesture.handle === 'w' ? -1 : 1;
+    const textWidth = Math.max(MIN_TEXT_WIDTH, Math.round(item.width + direction * along));
+    const fixedEdge: [number, number] = [
+      center[0] - direction * (item.width / 2) * axis[0],
+      center[1] - direction * (item.width / 2) * axis[1],
+    ];
+    const newCenter: [number, number] = [
+      fixedEdge[0] + direction * (textWidth / 2) * axis[0],
+      fixedEdge[1] + direction * (textWidth / 2) * axis[1],
+    ];
+    return {
+      updates: { width: textWidth, position: toPercent(newCenter[0] - textWidth / 2, newCenter[1]) },
+      guides: { x: [], y: [] },
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const gesture = gestureRef.current;
+    if (!gesture || gesture.pointerId !== e.pointerId) return;
+    const pointer = getPointer(e);
+    if (!gesture.moved && Math.hypot(pointer[0] - gesture.start[0], pointer[1] - gesture.start[1]) * gesture.scale < 2) return;
+    gesture.moved = true;
+    const result = computeUpdates(gesture, pointer, e);
+    setDraft({ id: gesture.item.id, updates: result.updates });
+    setGuides(result.guides);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const gesture = gestureRef.current;
+    if (!gesture || gesture.pointerId !== e.pointerId) return;
+    gestureRef.current = null;
+    if (gesture.moved && draft && draft.id === gesture.item.id) {
+      const label = gesture.kind === 'scale' && gesture.item.type === 'text' ? 'Resize text' : gestureLabels[gesture.kind];
+      onUpdateItem(gesture.item.id, draft.updates, label);
+    }
+    setDraft(null);
+    setGuides({ x: [], y: [] });
+  };
+
+  const renderHandles = (item: BoardItem) => {
+    // Handles sit inside the scaled canvas, and image and ink handles also
+    // inside the scaled element; undo both so they keep a constant
+    // on-screen size.
+    const itemScale = item.type === 'image' || item.type === 'ink' ? item.scale : 1;
+    const counterScale = `scale(${1 / (itemScale * canvasScale)})`;
+    const handleClass = "absolute h-3 w-3 bg-white border-2 border-primary rounded-sm touch-none";
+    return (
+      <>
+        {[...corners, ...(item.type === 'text' ? sides : [])].map(({ handle, style }) => (
+          <div
+            key={handle}
+            className={handleClass}
+            style={{ ...style, transform: counterScale }}
+            onPointerDown={(e) => startGesture(e, item, handle === 'w' || handle === 'e' ? 'width' : 'scale', handle)}
+          />
+        ))}
+        <div
+          className="absolute left-1/2 -top-8 h-6 w-px bg-primary pointer-events-none"
+          style={{ transform: counterScale, transformOrigin: 'bottom' }}
+        />
+        <div
+          className="absolute left-1/2 -top-10 -ml-2 h-4 w-4 rounded-full bg-white border-2 border-primary touch-none"
+          style={{ cursor: 'grab', transform: counterScale, transformOrigin: 'bottom' }}
+          onPointerDown={(e) => startGesture(e, item, 'rotate', 'rotate')}
+        />
+      </>
+    );
+  };
+
+  return (
+    <div
+      id="canvas-container"
+      ref={containerRef}
+      className="w-full h-full relative overflow-hidden"
+      onPointerDown={() => onSelectItem(null)}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <div
+        className="absolute left-0 top-0 origin-top-left"
+        style={{ width: SLIDE_REFERENCE_WIDTH, height: SLIDE_REFERENCE_HEIGHT, transform: `scale(${canvasScale})` }}
+      >
+        {sortSlideItems(items).map((baseItem) => {
+          const item = draft && draft.id === baseItem.id ? { ...baseItem, ...draft.updates } as BoardItem : baseItem;
+          const isSelected = selectedItemId === item.id;
+          return (
+            <SlideItemView
+              key={item.id}
+              item={item}
+              selected={isSelected}
+              className="touch-none select-none"
+              style={{ cursor: 'move' }}
+              onPointerDown={(e) => startGesture(e, baseItem, 'move')}
+              onDoubleClick={
+                baseItem.type === 'text' ? () => onTextDoubleClick(baseItem)
+                  : baseItem.type === 'shape' ? () => onShapeDoubleClick(baseItem)
+                  : baseItem.type === 'graph' ? () => onGraphDoubleClick(baseItem)
+                  : undefined
+              }
+            >
+              {isSelected && renderHandles(item)}
+            </SlideItemView>
+          );
+        })}
+        {guides.x.map(x => (
+          <div key={`gx-${x}`} className="absolute top-0 bottom-0 w-px bg-primary/70 pointer-events-none" style={{ left: x }} />
+        ))}
+        {guides.y.map(y => (
+          <div key={`gy-${y}`} className="absolute left-0 right-0 h-px bg-primary/70 pointer-events-none" style={{ top: y }} />
+        ))}
+      </div>
+    </div>
+  );
+};
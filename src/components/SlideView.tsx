@@ -0,0 +1,185 @@
+'use client';
+
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useReferenceScale } from '@/hooks/use-reference-scale';
+import { RichTextView } from '@/components/RichTextView';
+import { shapeToSvgMarkup } from '@/lib/shapes';
+import { inkToSvgMarkup } from '@/lib/ink';
+import { GraphView } from '@/components/GraphView';
+import type { BoardItem, Slide } from '@/lib/board';
+import { sortSlideItems } from '@/lib/slide-layout';
+
+interface SlideItemViewProps extends React.HTMLAttributes<HTMLDivElement> {
+  item: BoardItem;
+  selected?: boolean;
+}
+
+/**
+ * Renders a single board item positioned inside its slide container.
+ * Extra props (event handlers, children such as selection handles) are
+ * passed through to the item's root element.
+ */
+export const SlideItemView: React.FC<SlideItemViewProps> = ({ item, selected = false, style, children, ...props }) => {
+  if (item.type === 'text') {
+    return (
+      <div
+        {...props}
+        style={{
+          position: 'absolute',
+          left: `${item.position[0]}%`,
+          top: `${item.position[1]}%`,
+          transform: `translate(0, -50%) rotate(${item.rotation}deg)`,
+          fontSize: `${item.font_size}px`,
+          width: `${item.width}px`,
+          color: 'black',
+          padding: '4px',
+          wordWrap: 'break-word',
+          border: selected ? '2px dashed hsl(var(--muted-foreground))' : '2px dashed transparent',
+          ...style,
+        }}
+      >
+        <RichTextView content={item.content} />
+        {children}
+      </div>
+    );
+  }
+
+  if (item.type === 'shape') {
+    return (
+      <div
+        {...props}
+        style={{
+          position: 'absolute',
+          left: `${item.position[0]}%`,
+          top: `${item.position[1]}%`,
+          transform: `translate(-50%, -50%) rotate(${item.rotation}deg)`,
+          width: `${item.width}px`,
+          height: `${item.height}px`,
+          outline: selected ? '2px dashed hsl(var(--primary))' : undefined,
+          outlineOffset: 2,
+          ...style,
+        }}
+      >
+        <svg
+          width={item.width}
+          height={item.height}
+          viewBox={`0 0 ${item.width} ${item.height}`}
+          overflow="visible"
+          className="absolute inset-0 pointer-events-none"
+          dangerouslySetInnerHTML={{ __html: shapeToSvgMarkup(item) }}
+        />
+        {children}
+      </div>
+    );
+  }
+
+  if (item.type === 'graph') {
+    return (
+      <div
+        {...props}
+        style={{
+          position: 'absolute',
+          left: `${item.position[0]}%`,
+          top: `${item.position[1]}%`,
+          transform: `translate(-50%, -50%) rotate(${item.rotation}deg)`,
+          width: `${item.width}px`,
+          height: `${item.height}px`,
+          outline: selected ? '2px dashed hsl(var(--primary))' : undefined,
+          outlineOffset: 2,
+          ...style,
+        }}
+      >
+        <GraphView graph={item.graph} width={item.width} height={item.height} />
+        {children}
+      </div>
+    );
+  }
+
+  if (item.type === 'ink') {
+    return (
+      <div
+        {...props}
+        style={{
+          position: 'absolute',
+          left: `${item.position[0]}%`,
+          top: `${item.position[1]}%`,
+          transform: `translate(-50%, -50%) rotate(${item.rotation}deg) scale(${item.scale})`,
+          width: `${item.width}px`,
+          height: `${item.height}px`,
+          outline: selected ? '2px dashed hsl(var(--primary))' : undefined,
+          ...style,
+        }}
+      >
+        <svg
+          width={item.width}
+          height={item.height}
+          viewBox={`0 0 ${item.width} ${item.height}`}
+          overflow="visible"
+          className="absolute inset-0 pointer-events-none"
+          dangerouslySetInnerHTML={{ __html: inkToSvgMarkup(item) }}
+        />
+        {children}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      {...props}
+      style={{
+        position: 'absolute',
+        left: `${item.position[0]}%`,
+        top: `${item.position[1]}%`,
+        transform: `translate(-50%, -50%) rotate(${item.rotation}deg) scale(${item.scale})`,
+        width: `${item.width}px`,
+        height: `${item.height}px`,
+        border: selected ? '2px dashed hsl(var(--primary))' : '2px dashed transparent',
+        ...style,
+      }}
+    >
+      {item.src ? (
+        <img src={item.src} alt={item.filename} className="w-full h-full object-contain pointer-events-none" draggable={false} />
+      ) : (
+        <div className="w-full h-full bg-muted flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground"/>
+        </div>
+      )}
+      {children}
+    </div>
+  );
+};
+
+interface SlideViewProps {
+  slide: Slide;
+  className?: string;
+  /**
+   * When set, the slide is laid out at this logical width and scaled to
+   * fit its container, so previews keep the same proportions.
+   */
+  referenceWidth?: number;
+}
+
+/** Read-only rendering of a slide, filling its (16:9) parent. */
+export const SlideView: React.FC<SlideViewProps> = ({ slide, className, referenceWidth }) => {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const scale = useReferenceScale(containerRef, referenceWidth);
+
+  const items = sortSlideItems(slide.items).map(item => (
+    <SlideItemView key={item.id} item={item} />
+  ));
+
+  return (
+    <div ref={containerRef} className={cn("w-full h-full relative overflow-hidden bg-white", className)}>
+      {referenceWidth ? (
+        <div
+          className="absolute left-0 top-0 origin-top-left"
+          style={{ width: referenceWidth, height: (referenceWidth * 9) / 16, transform: `scale(${scale})` }}
+        >
+          {items}
+        </div>
+      ) : items}
+    </div>
+  );
+};
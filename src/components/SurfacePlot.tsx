@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_ROTATION,
+  drawSurface,
+  type SurfaceGrid,
+  type SurfaceRotation,
+  type SurfaceView,
+} from '@/lib/surface-plot';
+
+interface SurfacePlotProps {
+  grid: SurfaceGrid;
+  view: SurfaceView;
+  color: string;
+  // The canvas drawn into, e.g. for capturing it.
+  canvasRef: React.RefObject<HTMLCanvasElement>;
+  className?: string;
+}
+
+// Radians of rotation per pixel dragged.
+const ROTATION_SPEED = 0.01;
+
+/** Canvas showing a surface; dragging rotates the wireframe and shaded views. */
+export const SurfacePlot: React.FC<SurfacePlotProps> = ({ grid, view, color, canvasRef, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [rotation, setRotation] = useState<SurfaceRotation>(DEFAULT_ROTATION);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const isRotatable = view === 'wireframe' || view === 'shaded';
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+    const { clientWidth: width, clientHeight: height } = container;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    drawSurface(ctx, grid, { width, height, view, rotation, color });
+  }, [canvasRef, grid, view, rotation, color]);
+
+  useEffect(() => {
+    draw();
+    window.addEventListener('resize', draw);
+    return () => window.removeEventListener('resize', draw);
+  }, [draw]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!isRotatable) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragRef.current;
+    if (!start) return;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setRotation(({ yaw, pitch }) => ({
+      yaw: yaw + (e.clientX - start.x) * ROTATION_SPEED,
+      pitch: Math.min(Math.PI / 2, Math.max(-Math.PI / 2, pitch + (e.clientY - start.y) * ROTATION_SPEED)),
+    }));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn("relative bg-white", isRotatable && "cursor-grab active:cursor-grabbing", className)}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => { dragRef.current = null; }}
+      onPointerCancel={() => { dragRef.current = null; }}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 touch-none" />
+    </div>
+  );
+};
@@ -9,12 +9,20 @@ import React,
   ReactNode,
 } from 'react';
 
+// Files listed in the workspace browser: boards and standalone graphs.
+const WORKSPACE_FILE_EXTENSIONS = ['.board', '.graph'];
+
 export interface FileSystemItem {
   name: string;
   kind: 'file' | 'directory';
   handle: FileSystemHandle;
 }
 
+export interface FileMetadata {
+  lastModified: number;
+  size: number;
+}
+
 export interface PathSegment {
   name: string;
   handle: FileSystemDirectoryHandle;
@@ -37,6 +45,8 @@ interface WorkspaceContextType {
   deleteItemByPath: (filePath: string) => Promise<void>;
   readFile: (filePath: string, type?: 'read' | 'readwrite') => Promise<string | ArrayBuffer>;
   writeFile: (filePath: string, content: string | Blob) => Promise<void>;
+  getFileMetadata: (filePath: string) => Promise<FileMetadata>;
+  fileExists: (filePath: string) => Promise<boolean>;
 }
 
 export const WorkspaceContext = createContext<WorkspaceContextType | null>(null);
@@ -53,7 +63,7 @@ export const WorkspaceProvider = ({ children }: { children: ReactNode }) => {
     try {
       const contents: FileSystemItem[] = [];
       for await (const entry of handle.values()) {
-        if (entry.kind === 'directory' || (entry.kind === 'file' && entry.name.endsWith('.board'))) {
+        if (entry.kind === 'directory' || (entry.kind === 'file' && WORKSPACE_FILE_EXTENSIONS.some(ext => entry.name.endsWith(ext)))) {
           contents.push({ name: entry.name, kind: entry.kind, handle: entry });
         }
       }
@@ -230,6 +240,30 @@ export const WorkspaceProvider = ({ children }: { children: ReactNode }) => {
       await writable.close();
   }, [getFileHandle]);
 
+  const getFileMetadata = useCallback(async (filePath: string): Promise<FileMetadata> => {
+    const fileHandle = await getFileHandle(filePath);
+    if (!fileHandle) throw new Error(`File not found at path: ${filePath}`);
+    const file = await fileHandle.getFile();
+    return { lastModified: file.lastModified, size: file.size };
+  }, [getFileHandle]);
+
+  // Unlike the lookups above, a missing file or folder is an answer here,
+  // not an error; other failures are thrown.
+  const fileExists = useCallback(async (filePath: string): Promise<boolean> => {
+    const parts = filePath.split('/').filter(p => p);
+    const fileName = parts.pop();
+    if (!fileName) return false;
+    const directoryHandle = await getDirectoryHandle(parts.join('/'));
+    if (!directoryHandle) return false;
+    try {
+      await directoryHandle.getFileHandle(fileName);
+      return true;
+    } catch (e) {
+      if (e instanceof DOMException && (e.name === 'NotFoundError' || e.name === 'TypeMismatchError')) return false;
+      throw e;
+    }
+  }, [getDirectoryHandle]);
+
   return (
     <WorkspaceContext.Provider
       value={{
@@ -248,7 +282,9 @@ export const WorkspaceProvider = ({ children }: { children: ReactNode }) => {
         deleteItem,
         deleteItemByPath,
         readFile,
-        writeFile
+        writeFile,
+        getFileMetadata,
+        fileExists
       }}
     >
       {children}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  commitToHistory,
+  HISTORY_LIMIT,
+  MERGE_WINDOW_MS,
+  redoHistory,
+  undoHistory,
+  type CommitOptions,
+  type HistoryStack,
+} from '@/hooks/use-history';
+
+type Stack = HistoryStack<number, number>;
+
+const empty = (present = 0): Stack => ({ past: [], present, future: [] });
+
+const edit = (label: string, mergeKey?: string, meta = 0): CommitOptions<number> => ({ label, mergeKey, meta });
+
+const states = (stack: Stack) => stack.past.map(frame => frame.state);
+
+describe('commitToHistory', () => {
+  it('adds a step per commit', () => {
+    const stack = commitToHistory(commitToHistory(empty(), 1, edit('One'), 0), 2, edit('Two'), 10);
+    expect(stack.present).toBe(2);
+    expect(states(stack)).toEqual([0, 1]);
+    expect(stack.past.map(frame => frame.command.label)).toEqual(['One', 'Two']);
+  });
+
+  it('merges commits with the same key inside the window', () => {
+    let stack = commitToHistory(empty(), 1, edit('Move', 'move:a', 1), 0);
+    stack = commitToHistory(stack, 2, { ...edit('Move', 'move:a', 2), mergeMeta: (previous, next) => previous + next }, MERGE_WINDOW_MS - 1);
+    expect(stack.present).toBe(2);
+    expect(states(stack)).toEqual([0]);
+    expect(stack.past[0].command).toMatchObject({ meta: 3, time: MERGE_WINDOW_MS - 1 });
+  });
+
+  it('measures the window from the latest merged commit', () => {
+    let stack = commitToHistory(empty(), 1, edit('Move', 'move:a'), 0);
+    stack = commitToHistory(stack, 2, edit('Move', 'move:a'), 800);
+    stack = commitToHistory(stack, 3, edit('Move', 'move:a'), 1600);
+    expect(states(stack)).toEqual([0]);
+  });
+
+  it('starts a new step for another key or after the window', () => {
+    let stack = commitToHistory(empty(), 1, edit('Move', 'move:a'), 0);
+    stack = commitToHistory(stack, 2, edit('Move', 'move:b'), 10);
+    stack = commitToHistory(stack, 3, edit('Move', 'move:b'), 10 + MERGE_WINDOW_MS);
+    expect(states(stack)).toEqual([0, 1, 2]);
+  });
+
+  it('keeps only the most recent steps', () => {
+    let stack = empty();
+    for (let i = 1; i <= HISTORY_LIMIT + 5; i++) stack = commitToHistory(stack, i, edit(`Step ${i}`), i * MERGE_WINDOW_MS);
+    expect(stack.past).toHaveLength(HISTORY_LIMIT);
+    expect(stack.past[0].state).toBe(5);
+  });
+
+  it('drops the redo steps', () => {
+    let stack = commitToHistory(commitToHistory(empty(), 1, edit('One'), 0), 2, edit('Two'), 10);
+    stack = undoHistory(stack)!.stack;
+    stack = commitToHistory(stack, 3, edit('Three'), 20);
+    expect(stack.future).toEqual([]);
+    expect(states(stack)).toEqual([0, 1]);
+    expect(redoHistory(stack)).toBeNull();
+  });
+
+  it('does not merge into a step that was undone past', () => {
+    let stack = commitToHistory(commitToHistory(empty(), 1, edit('Move', 'move:a'), 0), 2, edit('Type', 'type:a'), 10);
+    stack = undoHistory(stack)!.stack;
+    stack = commitToHistory(stack, 3, edit('Move', 'move:a'), 20);
+    expect(states(stack)).toEqual([0, 1]);
+  });
+});
+
+describe('undoHistory and redoHistory', () => {
+  it('walk back and forth through the steps with their commands', () => {
+    const committed = commitToHistory(commitToHistory(empty(), 1, edit('One'), 0), 2, edit('Two'), 10);
+    const undone = undoHistory(committed)!;
+    expect(undone.command.label).toBe('Two');
+    expect(undone.stack.present).toBe(1);
+    const redone = redoHistory(undone.stack)!;
+    expect(redone.command.label).toBe('Two');
+    expect(redone.stack).toEqual(committed);
+  });
+
+  it('return null at either end', () => {
+    expect(undoHistory(empty())).toBeNull();
+    expect(redoHistory(empty())).toBeNull();
+  });
+});
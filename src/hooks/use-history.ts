@@ -0,0 +1,152 @@
+import * as React from "react"
+
+export const HISTORY_LIMIT = 100
+// Commits sharing a merge key within this window collapse into one step.
+export const MERGE_WINDOW_MS = 1000
+
+export interface HistoryCommand<M> {
+  label: string
+  mergeKey?: string
+  meta: M
+  time: number
+}
+
+interface HistoryFrame<T, M> {
+  state: T
+  command: HistoryCommand<M>
+}
+
+export interface HistoryStack<T, M> {
+  past: HistoryFrame<T, M>[]
+  present: T
+  future: HistoryFrame<T, M>[]
+}
+
+export interface CommitOptions<M> {
+  label: string
+  mergeKey?: string
+  meta: M
+  /** Called with the previous meta when this commit merges into the last step. */
+  mergeMeta?: (previous: M, next: M) => M
+}
+
+/**
+ * Records `next` as the present state. A commit with the same merge key as
+ * the last step, made within the merge window and with nothing to redo,
+ * extends that step instead of adding one.
+ */
+export function commitToHistory<T, M>(
+  stack: HistoryStack<T, M>,
+  next: T,
+  options: CommitOptions<M>,
+  now: number
+): HistoryStack<T, M> {
+  const last = stack.past[stack.past.length - 1]
+
+  if (
+    options.mergeKey &&
+    last &&
+    stack.future.length === 0 &&
+    last.command.mergeKey === options.mergeKey &&
+    now - last.command.time < MERGE_WINDOW_MS
+  ) {
+    const meta = options.mergeMeta ? options.mergeMeta(last.command.meta, options.meta) : options.meta
+    return {
+      past: [...stack.past.slice(0, -1), { state: last.state, command: { ...last.command, meta, time: now } }],
+      present: next,
+      future: [],
+    }
+  }
+
+  const command: HistoryCommand<M> = { label: options.label, mergeKey: options.mergeKey, meta: options.meta, time: now }
+  return {
+    past: [...stack.past, { state: stack.present, command }].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+  }
+}
+
+export function undoHistory<T, M>(stack: HistoryStack<T, M>) {
+  const { past, present, future } = stack
+  const frame = past[past.length - 1]
+  if (!frame) return null
+  return {
+    stack: {
+      past: past.slice(0, -1),
+      present: frame.state,
+      future: [{ state: present, command: frame.command }, ...future],
+    },
+    command: frame.command,
+  }
+}
+
+export function redoHistory<T, M>(stack: HistoryStack<T, M>) {
+  const { past, present, future } = stack
+  const frame = future[0]
+  if (!frame) return null
+  return {
+    stack: {
+      past: [...past, { state: present, command: frame.command }],
+      present: frame.state,
+      future: future.slice(1),
+    },
+    command: frame.command,
+  }
+}
+
+/**
+ * Undo/redo stack over an immutable value. Every change goes through
+ * `commit` as a labelled command; `reset` replaces the value and clears
+ * the stack (e.g. after loading from disk).
+ */
+export function useHistory<T, M = undefined>(initial: T) {
+  const stackRef = React.useRef<HistoryStack<T, M>>({ past: [], present: initial, future: [] })
+  const [, forceRender] = React.useReducer((count: number) => count + 1, 0)
+
+  const commit = React.useCallback((next: T, options: CommitOptions<M>) => {
+    stackRef.current = commitToHistory(stackRef.current, next, options, Date.now())
+    forceRender()
+  }, [])
+
+  const undo = React.useCallback((): HistoryCommand<M> | null => {
+    const step = undoHistory(stackRef.current)
+    if (!step) return null
+    stackRef.current = step.stack
+    forceRender()
+    return step.command
+  }, [])
+
+  const redo = React.useCallback((): HistoryCommand<M> | null => {
+    const step = redoHistory(stackRef.current)
+    if (!step) return null
+    stackRef.current = step.stack
+    forceRender()
+    return step.command
+  }, [])
+
+  const reset = React.useCallback((state: T) => {
+    stackRef.current = { past: [], present: state, future: [] }
+    forceRender()
+  }, [])
+
+  // States kept for undo/redo, excluding the present one.
+  const getRetainedStates = React.useCallback((): T[] => {
+    const { past, future } = stackRef.current
+    return [...past, ...future].map((frame) => frame.state)
+  }, [])
+
+  const { past, present, future } = stackRef.current
+
+  return {
+    present,
+    commit,
+    undo,
+    redo,
+    reset,
+    getRetainedStates,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    undoLabel: past[past.length - 1]?.command.label ?? null,
+    redoLabel: future[0]?.command.label ?? null,
+  }
+}
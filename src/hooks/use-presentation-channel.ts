@@ -0,0 +1,31 @@
+import * as React from "react"
+
+import type { PresentationMessage } from "@/lib/presentation-channel"
+
+/**
+ * Subscribes to a BroadcastChannel for the lifetime of the component and
+ * returns a function that posts to it. Pass `null` to stay disconnected.
+ */
+export function usePresentationChannel(
+  name: string | null,
+  onMessage: (message: PresentationMessage) => void
+) {
+  const channelRef = React.useRef<BroadcastChannel | null>(null)
+  const onMessageRef = React.useRef(onMessage)
+  onMessageRef.current = onMessage
+
+  React.useEffect(() => {
+    if (!name || typeof BroadcastChannel === "undefined") return
+    const channel = new BroadcastChannel(name)
+    channel.onmessage = (event: MessageEvent<PresentationMessage>) => onMessageRef.current(event.data)
+    channelRef.current = channel
+    return () => {
+      channel.close()
+      channelRef.current = null
+    }
+  }, [name])
+
+  return React.useCallback((message: PresentationMessage) => {
+    channelRef.current?.postMessage(message)
+  }, [])
+}
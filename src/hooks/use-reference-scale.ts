@@ -0,0 +1,20 @@
+import * as React from "react"
+
+/**
+ * Scale at which content laid out `referenceWidth` pixels wide fills the
+ * width of the element behind `ref`, kept up to date as it is resized.
+ * Stays 1 while `referenceWidth` is not set.
+ */
+export function useReferenceScale(ref: React.RefObject<HTMLElement>, referenceWidth?: number) {
+  const [scale, setScale] = React.useState(1)
+
+  React.useEffect(() => {
+    const element = ref.current
+    if (!referenceWidth || !element) return
+    const observer = new ResizeObserver(([entry]) => setScale(entry.contentRect.width / referenceWidth))
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [ref, referenceWidth])
+
+  return scale
+}
@@ -0,0 +1,71 @@
+import type { BoardData } from '@/lib/board';
+
+type ReadFile = (filePath: string, type?: 'read' | 'readwrite') => Promise<string | ArrayBuffer>;
+
+const MISSING_IMAGE_SRC = 'https://placehold.co/300x200/EEE/31343C?text=Not+Found';
+
+/** Directory part of a workspace-relative path ('' for files at the root). */
+export function getDirectoryPath(filePath: string): string {
+  const parts = filePath.split('/');
+  parts.pop();
+  return parts.join('/');
+}
+
+export function joinPath(directory: string | null | undefined, name: string): string {
+  return directory ? `${directory}/${name}` : name;
+}
+
+export function getImageMimeType(filename: string): string {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('png')) return 'image/png';
+  if (lower.endsWith('svg')) return 'image/svg+xml';
+  if (lower.endsWith('gif')) return 'image/gif';
+  if (lower.endsWith('webp')) return 'image/webp';
+  return 'image/jpeg';
+}
+
+/**
+ * Loads every image item's file (stored next to the board) into an object
+ * URL. Items that already have a `src` are left untouched.
+ */
+export async function resolveImageSources(data: BoardData, directory: string | null, readFile: ReadFile): Promise<BoardData> {
+  return {
+    ...data,
+    slides: await Promise.all(data.slides.map(async (slide) => ({
+      ...slide,
+      items: await Promise.all(slide.items.map(async (item) => {
+        if (item.type !== 'image' || item.src) return item;
+        const imagePath = joinPath(directory, item.filename);
+        let imageSrc = '';
+        try {
+          const imageContent = await readFile(imagePath, 'readwrite');
+          const blob = new Blob([imageContent], { type: getImageMimeType(item.filename) });
+          imageSrc = URL.createObjectURL(blob);
+        } catch (e) {
+          console.error("Could not load image", imagePath, e);
+          imageSrc = MISSING_IMAGE_SRC;
+        }
+        return { ...item, src: imageSrc };
+      }))
+    })))
+  };
+}
+
+/** Base name of a file without its extension, e.g. 'talk' for 'a/talk.board'. */
+export function getBaseName(filePath: string): string {
+  const name = filePath.split('/').pop() || filePath;
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+}
+
+/** Triggers a browser download of `blob` under `filename`. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
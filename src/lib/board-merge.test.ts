@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { BOARD_FORMAT_VERSION, type BoardData, type BoardItem, type Slide } from '@/lib/board';
+import { textToRichText } from '@/lib/rich-text';
+import { mergeBoards } from '@/lib/board-merge';
+
+const text = (id: string, content: string, position: [number, number] = [50, 50]): BoardItem => ({
+  id,
+  type: 'text',
+  content: textToRichText(content),
+  position,
+  rotation: 0,
+  font_size: 24,
+  width: 200,
+});
+
+const board = (...slides: BoardItem[][]): BoardData => ({
+  version: BOARD_FORMAT_VERSION,
+  slides: slides.map((items, index): Slide => ({ slide_number: index + 1, items })),
+});
+
+const ids = (data: BoardData) => data.slides.map(slide => slide.items.map(item => item.id));
+
+describe('mergeBoards', () => {
+  const base = board([text('a', 'A'), text('b', 'B')]);
+
+  it('keeps changes made on either side to different items', () => {
+    const ours = board([text('a', 'A', [10, 10]), text('b', 'B')]);
+    const theirs = board([text('a', 'A'), text('b', 'B changed')]);
+    const { data, conflicts } = mergeBoards(base, ours, theirs);
+    expect(conflicts).toBe(0);
+    expect(data.slides[0].items).toEqual([text('a', 'A', [10, 10]), text('b', 'B changed')]);
+  });
+
+  it('keeps the local version of an item changed on both sides and counts it', () => {
+    const ours = board([text('a', 'ours'), text('b', 'B')]);
+    const theirs = board([text('a', 'theirs'), text('b', 'B')]);
+    const { data, conflicts } = mergeBoards(base, ours, theirs);
+    expect(conflicts).toBe(1);
+    expect(data.slides[0].items[0]).toEqual(text('a', 'ours'));
+  });
+
+  it('does not count identical changes as conflicts', () => {
+    const changed = board([text('a', 'same'), text('b', 'B')]);
+    expect(mergeBoards(base, changed, changed).conflicts).toBe(0);
+  });
+
+  it('applies additions and deletions from both sides', () => {
+    const ours = board([text('a', 'A'), text('b', 'B'), text('c', 'C')]);
+    const theirs = board([text('b', 'B'), text('d', 'D')]);
+    expect(ids(mergeBoards(base, ours, theirs).data)).toEqual([['b', 'c', 'd']]);
+  });
+
+  it('keeps an item deleted on one side but edited on the other', () => {
+    const ours = board([text('b', 'B')]);
+    const theirs = board([text('a', 'edited'), text('b', 'B')]);
+    expect(mergeBoards(base, ours, theirs).data.slides[0].items).toEqual([text('b', 'B'), text('a', 'edited')]);
+  });
+
+  it('adds slides added on disk and renumbers them', () => {
+    const theirs = board([text('a', 'A'), text('b', 'B')], [text('c', 'C')]);
+    const { data } = mergeBoards(base, base, theirs);
+    expect(ids(data)).toEqual([['a', 'b'], ['c']]);
+    expect(data.slides.map(slide => slide.slide_number)).toEqual([1, 2]);
+  });
+
+  it('drops a slide deleted on disk that was not changed locally', () => {
+    const twoSlides = board([text('a', 'A')], [text('b', 'B')]);
+    const theirs = board([text('a', 'A')]);
+    expect(ids(mergeBoards(twoSlides, twoSlides, theirs).data)).toEqual([['a']]);
+  });
+
+  it('matches slides by their items when a slide was inserted on one side', () => {
+    const twoSlides = board([text('a', 'A')], [text('b', 'B')]);
+    const ours = board([text('a', 'A')], [text('n', 'New')], [text('b', 'B')]);
+    const theirs = board([text('a', 'A')], [text('b', 'B edited')]);
+    const { data, conflicts } = mergeBoards(twoSlides, ours, theirs);
+    expect(conflicts).toBe(0);
+    expect(data.slides.map(slide => slide.items)).toEqual([[text('a', 'A')], [text('n', 'New')], [text('b', 'B edited')]]);
+  });
+
+  it('places slides added on disk after the slide that precedes them there', () => {
+    const twoSlides = board([text('a', 'A')], [text('b', 'B')]);
+    const theirs = board([text('a', 'A')], [text('n', 'New')], [text('b', 'B')]);
+    expect(ids(mergeBoards(twoSlides, twoSlides, theirs).data)).toEqual([['a'], ['n'], ['b']]);
+  });
+
+  it('keeps an item on one slide when it was moved here and edited on disk', () => {
+    const twoSlides = board([text('a', 'A'), text('b', 'B')], [text('c', 'C')]);
+    const ours = board([text('a', 'A')], [text('c', 'C'), text('b', 'B')]);
+    const theirs = board([text('a', 'A'), text('b', 'edited')], [text('c', 'C')]);
+    const { data, conflicts } = mergeBoards(twoSlides, ours, theirs);
+    expect(ids(data)).toEqual([['a'], ['c', 'b']]);
+    expect(conflicts).toBe(1);
+  });
+
+  it('ignores runtime image sources when comparing items', () => {
+    const image = (src?: string): BoardItem => ({
+      id: 'img', type: 'image', filename: 'a.png', position: [50, 50], rotation: 0, width: 10, height: 10, scale: 1, ...(src ? { src } : {}),
+    });
+    const { data, conflicts } = mergeBoards(board([image()]), board([image('blob:1')]), board([image()]));
+    expect(conflicts).toBe(0);
+    // Callers resolve image sources again after merging.
+    expect(data.slides[0].items).toEqual([image()]);
+  });
+});
@@ -0,0 +1,157 @@
+import type { BoardData, BoardItem, Slide } from '@/lib/board';
+
+export interface MergeResult {
+  data: BoardData;
+  // Items changed on both sides; the local version was kept.
+  conflicts: number;
+}
+
+const stripRuntime = (item: BoardItem) => {
+  if (item.type === 'image') {
+    const { src, ...rest } = item;
+    return rest;
+  }
+  return item;
+};
+
+const sameItem = (a: BoardItem | undefined, b: BoardItem | undefined) =>
+  a !== undefined && b !== undefined && JSON.stringify(stripRuntime(a)) === JSON.stringify(stripRuntime(b));
+
+const byId = (slide: Slide | undefined) => new Map((slide?.items ?? []).map(item => [item.id, item]));
+
+function mergeSlide(base: Slide | undefined, ours: Slide | undefined, theirs: Slide | undefined) {
+  const baseItems = byId(base);
+  const ourItems = byId(ours);
+  const theirItems = byId(theirs);
+  let conflicts = 0;
+
+  const pick = (id: string): BoardItem | null => {
+    const b = baseItems.get(id);
+    const o = ourItems.get(id);
+    const t = theirItems.get(id);
+
+    if (!b) return o ?? t ?? null;
+    if (!o) return t && !sameItem(t, b) ? t : null;
+    if (!t) return sameItem(o, b) ? null : o;
+    if (sameItem(o, b)) return t;
+    if (sameItem(t, b) || sameItem(o, t)) return o;
+    conflicts++;
+    return o;
+  };
+
+  // Keep local ordering, then append items that only exist remotely.
+  const order = [
+    ...(ours?.items ?? []).map(item => item.id),
+    ...(theirs?.items ?? []).map(item => item.id).filter(id => !ourItems.has(id)),
+  ];
+  const items = order.map(pick).filter((item): item is BoardItem => item !== null);
+  return { items, conflicts };
+}
+
+/**
+ * For each slide in `other`, the index of the `base` slide it descends from,
+ * or undefined for a slide added on that side. Slides are paired by the item
+ * ids they share, most shared first; leftover empty slides are paired in
+ * order with leftover base slides, since they have nothing else to go by.
+ */
+function matchSlides(base: Slide[], other: Slide[]): (number | undefined)[] {
+  const baseIds = base.map(slide => new Set(slide.items.map(item => item.id)));
+  const pairs: { index: number; baseIndex: number; shared: number }[] = [];
+  other.forEach((slide, index) => {
+    baseIds.forEach((ids, baseIndex) => {
+      const shared = slide.items.filter(item => ids.has(item.id)).length;
+      if (shared > 0) pairs.push({ index, baseIndex, shared });
+    });
+  });
+  pairs.sort((a, b) => b.shared - a.shared || Math.abs(a.index - a.baseIndex) - Math.abs(b.index - b.baseIndex));
+
+  const matches: (number | undefined)[] = other.map(() => undefined);
+  const taken = new Set<number>();
+  for (const { index, baseIndex } of pairs) {
+    if (matches[index] !== undefined || taken.has(baseIndex)) continue;
+    matches[index] = baseIndex;
+    taken.add(baseIndex);
+  }
+
+  const leftoverBase = base.map((_, baseIndex) => baseIndex).filter(baseIndex => !taken.has(baseIndex));
+  other.forEach((slide, index) => {
+    if (matches[index] === undefined && slide.items.length === 0 && leftoverBase.length > 0) {
+      matches[index] = leftoverBase.shift();
+    }
+  });
+  return matches;
+}
+
+const unchanged = (slide: Slide, base: Slide) =>
+  slide.items.length === base.items.length && slide.items.every(item => sameItem(item, byId(base).get(item.id)));
+
+/**
+ * Three-way merge of a board edited locally (`ours`) and on disk
+ * (`theirs`) since both were last in sync (`base`). Slides are matched by
+ * the items they hold and items by id; when both sides changed the same
+ * item the local edit wins and is counted as a conflict.
+ */
+export function mergeBoards(base: BoardData, ours: BoardData, theirs: BoardData): MergeResult {
+  const ourMatches = matchSlides(base.slides, ours.slides);
+  const theirMatches = matchSlides(base.slides, theirs.slides);
+  const theirIndexByBase = new Map<number, number>();
+  theirMatches.forEach((baseIndex, index) => {
+    if (baseIndex !== undefined) theirIndexByBase.set(baseIndex, index);
+  });
+
+  // Merged slides in local order, tagged with the on-disk slide they came from.
+  const entries: { slide: Slide; ours?: Slide; theirIndex?: number }[] = [];
+  let conflicts = 0;
+
+  ours.slides.forEach((o, index) => {
+    const baseIndex = ourMatches[index];
+    const b = baseIndex === undefined ? undefined : base.slides[baseIndex];
+    const theirIndex = baseIndex === undefined ? undefined : theirIndexByBase.get(baseIndex);
+    const t = theirIndex === undefined ? undefined : theirs.slides[theirIndex];
+
+    // Deleted on disk and not changed here.
+    if (b && !t && unchanged(o, b)) return;
+
+    const merged = mergeSlide(b, o, t);
+    conflicts += merged.conflicts;
+    entries.push({ slide: { ...(t ?? {}), ...o, items: merged.items }, ours: o, theirIndex });
+  });
+
+  // Slides added on disk go after the slide that precedes them there. Slides
+  // deleted here stay deleted.
+  theirs.slides.forEach((t, index) => {
+    if (theirMatches[index] !== undefined) return;
+    let position = 0;
+    for (let previous = index - 1; previous >= 0; previous--) {
+      const at = entries.findIndex(entry => entry.theirIndex === previous);
+      if (at !== -1) {
+        position = at + 1;
+        break;
+      }
+    }
+    entries.splice(position, 0, { slide: t, theirIndex: index });
+  });
+
+  // An item moved to another slide on one side and edited on the other can
+  // come out of two slides; keep it where the local board has it.
+  const heldHere = (index: number, id: string) => entries[index].ours?.items.some(item => item.id === id) ?? false;
+  const placed = new Map<string, number>();
+  entries.forEach((entry, index) => {
+    for (const item of entry.slide.items) {
+      const previous = placed.get(item.id);
+      if (previous === undefined || (!heldHere(previous, item.id) && heldHere(index, item.id))) placed.set(item.id, index);
+    }
+  });
+  const duplicated = new Set<string>();
+  const slides = entries.map((entry, index) => ({
+    ...entry.slide,
+    slide_number: index + 1,
+    items: entry.slide.items.filter(item => {
+      if (placed.get(item.id) === index) return true;
+      duplicated.add(item.id);
+      return false;
+    }),
+  }));
+
+  return { data: { ...ours, slides }, conflicts: conflicts + duplicated.size };
+}
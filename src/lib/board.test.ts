@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BOARD_FORMAT_VERSION,
+  BoardFormatError,
+  createInitialBoard,
+  migrateBoard,
+  parseBoard,
+  serializeBoard,
+  type BoardData,
+} from '@/lib/board';
+
+const v1Board = {
+  slides: [
+    {
+      items: [
+        { id: 'title', type: 'text', content: 'Hello\nworld', position: [10, 20] },
+        { type: 'image', filename: 'photo.png' },
+      ],
+    },
+  ],
+};
+
+describe('migrateBoard', () => {
+  it('upgrades unversioned files through every migration', () => {
+    const { board, fromVersion } = migrateBoard(v1Board);
+    expect(fromVersion).toBe(1);
+    expect(board.version).toBe(BOARD_FORMAT_VERSION);
+  });
+
+  it('leaves current boards alone', () => {
+    const current = JSON.parse(serializeBoard(createInitialBoard()));
+    expect(migrateBoard(current)).toEqual({ board: current, fromVersion: BOARD_FORMAT_VERSION });
+  });
+
+  it('rejects newer, malformed and non-object files', () => {
+    expect(() => migrateBoard({ version: BOARD_FORMAT_VERSION + 1, slides: [] })).toThrow(/newer than this app supports/);
+    expect(() => migrateBoard({ version: 'two', slides: [] })).toThrow(BoardFormatError);
+    expect(() => migrateBoard({ version: 0, slides: [] })).toThrow(BoardFormatError);
+    expect(() => migrateBoard([])).toThrow(BoardFormatError);
+  });
+});
+
+describe('parseBoard', () => {
+  it('fills in v1 defaults and converts text to rich text', () => {
+    const { data, issues, migratedFrom } = parseBoard(JSON.stringify(v1Board));
+    expect(migratedFrom).toBe(1);
+    expect(issues).toEqual([]);
+    const [text, image] = data.slides[0].items;
+    expect(data.slides[0].slide_number).toBe(1);
+    expect(text).toMatchObject({
+      id: 'title',
+      type: 'text',
+      position: [10, 20],
+      rotation: 0,
+      font_size: 24,
+      width: 200,
+      content: [
+        { type: 'paragraph', runs: [{ text: 'Hello' }] },
+        { type: 'paragraph', runs: [{ text: 'world' }] },
+      ],
+    });
+    expect(image).toMatchObject({ type: 'image', filename: 'photo.png', width: 200, height: 200, scale: 1, position: [50, 50] });
+    expect(image.id).toBeTruthy();
+  });
+
+  it('sets invalid items aside and reports them instead of failing', () => {
+    const board = createInitialBoard();
+    const raw = JSON.parse(serializeBoard(board));
+    const broken = { id: 'broken', type: 'shape', position: [0, 0], rotation: 0 };
+    raw.slides[0].items.push(broken);
+    raw.slides[0].notes = 42;
+    const { data, issues } = parseBoard(JSON.stringify(raw));
+    expect(data.slides[0].items).toEqual(board.slides[0].items);
+    expect(data.slides[0].invalid_items).toEqual([broken]);
+    expect(data.slides[0].notes).toBeUndefined();
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatchObject({ slide: 1, item: 2, itemId: 'broken' });
+    expect(issues[1].message).toMatch(/notes/);
+  });
+
+  it('loads slides without an item list empty', () => {
+    const { data, issues } = parseBoard(JSON.stringify({ version: BOARD_FORMAT_VERSION, slides: [{ slide_number: 1 }] }));
+    expect(data.slides).toEqual([{ slide_number: 1, items: [] }]);
+    expect(issues).toHaveLength(1);
+  });
+
+  it('throws on invalid JSON and missing slides', () => {
+    expect(() => parseBoard('{')).toThrow(/not valid JSON/);
+    expect(() => parseBoard(JSON.stringify({ version: BOARD_FORMAT_VERSION }))).toThrow(/no "slides" list/);
+  });
+});
+
+describe('serializeBoard', () => {
+  it('writes invalid items back unchanged', () => {
+    const raw = JSON.parse(serializeBoard(createInitialBoard()));
+    const future = { id: 'new', type: 'video', filename: 'clip.mp4', position: [0, 0], rotation: 0 };
+    raw.slides[0].items.push(future);
+    const saved = JSON.parse(serializeBoard(parseBoard(JSON.stringify(raw)).data));
+    expect(saved).toEqual(raw);
+  });
+
+  it('round-trips through parseBoard without runtime image sources', () => {
+    const board: BoardData = {
+      version: BOARD_FORMAT_VERSION,
+      slides: [{
+        slide_number: 1,
+        notes: 'Say hello',
+        items: [{ id: 'img', type: 'image', filename: 'a.png', src: 'blob:a', position: [50, 50], rotation: 0, width: 10, height: 10, scale: 1 }],
+      }],
+    };
+    const content = serializeBoard(board);
+    expect(content).not.toContain('blob:a');
+    const { data, issues, migratedFrom } = parseBoard(content);
+    expect(issues).toEqual([]);
+    expect(migratedFrom).toBeNull();
+    expect(data.slides[0].notes).toBe('Say hello');
+    expect(data.slides[0].items).toEqual([
+      { id: 'img', type: 'image', filename: 'a.png', position: [50, 50], rotation: 0, width: 10, height: 10, scale: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,362 @@
+import { z } from 'zod';
+import { textToRichText } from '@/lib/rich-text';
+import { graphSchema } from '@/lib/graph';
+
+// Version written into every .board file. Files without a `version` field
+// predate versioning and are treated as version 1.
+export const BOARD_FORMAT_VERSION = 6;
+
+const positionSchema = z.tuple([z.number(), z.number()]);
+
+const baseItemSchema = z.object({
+  id: z.string().min(1),
+  position: positionSchema,
+  rotation: z.number(),
+});
+
+export const textRunSchema = z.object({
+  text: z.string(),
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  underline: z.boolean().optional(),
+  // CSS colors, e.g. '#e11d48'.
+  color: z.string().optional(),
+  highlight: z.string().optional(),
+});
+
+// Consecutive 'bullet' or 'numbered' blocks form one list.
+export const textBlockSchema = z.object({
+  type: z.enum(['paragraph', 'heading', 'bullet', 'numbered']),
+  // Heading level, 1 (largest) to 3.
+  level: z.number().int().min(1).max(3).optional(),
+  align: z.enum(['left', 'center', 'right', 'justify']).optional(),
+  // Line breaks inside a block are kept as '\n' in run text.
+  runs: z.array(textRunSchema),
+});
+
+export const richTextSchema = z.array(textBlockSchema);
+
+export const textItemSchema = baseItemSchema.extend({
+  type: z.literal('text'),
+  content: richTextSchema,
+  font_size: z.number().positive(),
+  width: z.number().positive(),
+});
+
+export const imageItemSchema = baseItemSchema.extend({
+  type: z.literal('image'),
+  filename: z.string().min(1),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  scale: z.number().positive(),
+  // Object URL resolved at load time; never written to disk.
+  src: z.string().optional(),
+});
+
+export const shapeItemSchema = baseItemSchema.extend({
+  type: z.literal('shape'),
+  kind: z.enum(['rect', 'ellipse', 'line', 'arrow']),
+  // Bounding box in reference pixels; lines run along its horizontal centre.
+  width: z.number().positive(),
+  height: z.number().positive(),
+  // CSS colors; fill may be 'none'.
+  stroke: z.string(),
+  fill: z.string(),
+  stroke_width: z.number().nonnegative(),
+  dash: z.enum(['solid', 'dashed', 'dotted']),
+  // Arrowheads at either end; only drawn for lines and arrows.
+  arrow_start: z.boolean(),
+  arrow_end: z.boolean(),
+});
+
+export const inkItemSchema = baseItemSchema.extend({
+  type: z.literal('ink'),
+  tool: z.enum(['pen', 'highlighter']),
+  color: z.string(),
+  stroke_width: z.number().positive(),
+  // Box around the stroke as drawn; points are relative to its top-left corner.
+  width: z.number().positive(),
+  height: z.number().positive(),
+  scale: z.number().positive(),
+  // Simplified stroke as [x, y, pressure] points.
+  points: z.array(z.tuple([z.number(), z.number(), z.number()])).min(1),
+});
+
+export const graphItemSchema = baseItemSchema.extend({
+  type: z.literal('graph'),
+  // Size of the plot in reference pixels.
+  width: z.number().positive(),
+  height: z.number().positive(),
+  graph: graphSchema,
+});
+
+export const boardItemSchema = z.discriminatedUnion('type', [
+  textItemSchema,
+  imageItemSchema,
+  shapeItemSchema,
+  inkItemSchema,
+  graphItemSchema,
+]);
+
+export const slideSchema = z.object({
+  slide_number: z.number().int(),
+  items: z.array(boardItemSchema),
+  // Speaker notes, shown only in the presenter view.
+  notes: z.string().optional(),
+  // Items that failed validation on load. The editor never shows them; they
+  // are written back unchanged so saving does not lose them.
+  invalid_items: z.array(z.unknown()).optional(),
+});
+
+export const boardDataSchema = z.object({
+  version: z.literal(BOARD_FORMAT_VERSION),
+  slides: z.array(slideSchema),
+});
+
+export type TextRun = z.infer<typeof textRunSchema>;
+export type TextBlock = z.infer<typeof textBlockSchema>;
+export type RichText = z.infer<typeof richTextSchema>;
+export type TextItem = z.infer<typeof textItemSchema>;
+export type ImageItem = z.infer<typeof imageItemSchema>;
+export type ShapeItem = z.infer<typeof shapeItemSchema>;
+export type InkItem = z.infer<typeof inkItemSchema>;
+export type GraphItem = z.infer<typeof graphItemSchema>;
+export type BoardItem = z.infer<typeof boardItemSchema>;
+export type Slide = z.infer<typeof slideSchema>;
+export type BoardData = z.infer<typeof boardDataSchema>;
+
+export interface BoardIssue {
+  slide: number;
+  item?: number;
+  itemId?: string;
+  message: string;
+}
+
+export class BoardFormatError extends Error {
+  issues: BoardIssue[];
+
+  constructor(message: string, issues: BoardIssue[] = []) {
+    super(message);
+    this.name = 'BoardFormatError';
+    this.issues = issues;
+  }
+}
+
+export interface ParsedBoard {
+  data: BoardData;
+  issues: BoardIssue[];
+  migratedFrom: number | null;
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const createItemId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random()}`;
+
+// Each migration upgrades a board from version `n` to `n + 1`.
+const migrations: Record<number, (board: RawObject) => RawObject> = {
+  // v1 files were written without a version and with loosely typed items;
+  // fill in the defaults the editor used to apply on load.
+  1: (board) => ({
+    ...board,
+    version: 2,
+    slides: (Array.isArray(board.slides) ? board.slides : []).map((slide: unknown, index: number) => {
+      if (!isObject(slide)) return slide;
+      return {
+        ...slide,
+        slide_number: typeof slide.slide_number === 'number' ? slide.slide_number : index + 1,
+        items: (Array.isArray(slide.items) ? slide.items : []).map((item: unknown) => {
+          if (!isObject(item)) return item;
+          const base = {
+            ...item,
+            id: item.id || createItemId('item'),
+            position: item.position || [50, 50],
+            rotation: item.rotation || 0,
+          };
+          if (item.type === 'image') {
+            return {
+              ...base,
+              width: item.width || 200,
+              height: item.height || 200,
+              scale: item.scale || 1,
+            };
+          }
+          return {
+            ...base,
+            type: 'text',
+            content: item.content ?? '',
+            font_size: item.font_size || 24,
+            width: item.width || 200,
+          };
+        }),
+      };
+    }),
+  }),
+  // v3 replaced the plain `content` string of text items with rich text.
+  2: (board) => ({
+    ...board,
+    version: 3,
+    slides: (Array.isArray(board.slides) ? board.slides : []).map((slide: unknown) => {
+      if (!isObject(slide) || !Array.isArray(slide.items)) return slide;
+      return {
+        ...slide,
+        items: slide.items.map((item: unknown) =>
+          isObject(item) && item.type === 'text' && typeof item.content === 'string'
+            ? { ...item, content: textToRichText(item.content) }
+            : item
+        ),
+      };
+    }),
+  }),
+  // v4 added shape items; older files have nothing to convert.
+  3: (board) => ({ ...board, version: 4 }),
+  // v5 added ink items.
+  4: (board) => ({ ...board, version: 5 }),
+  // v6 added graph items.
+  5: (board) => ({ ...board, version: 6 }),
+};
+
+export function migrateBoard(raw: unknown): { board: RawObject; fromVersion: number } {
+  if (!isObject(raw)) {
+    throw new BoardFormatError('Board file must contain a JSON object.');
+  }
+  const fromVersion = raw.version === undefined ? 1 : raw.version;
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new BoardFormatError(`Unrecognised board format version: ${JSON.stringify(raw.version)}.`);
+  }
+  if (fromVersion > BOARD_FORMAT_VERSION) {
+    throw new BoardFormatError(
+      `This board was saved in format version ${fromVersion}, which is newer than this app supports (${BOARD_FORMAT_VERSION}).`
+    );
+  }
+
+  let board = raw;
+  for (let version = fromVersion; version < BOARD_FORMAT_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) throw new BoardFormatError(`No migration from board format version ${version}.`);
+    board = migrate(board);
+  }
+  return { board, fromVersion };
+}
+
+const formatZodError = (error: z.ZodError) =>
+  error.issues
+    .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+
+/**
+ * Parses and validates the contents of a .board file, upgrading older
+ * formats first. Items that fail validation are set aside in the slide's
+ * `invalid_items` and reported in `issues` so one bad item does not make
+ * the whole board unreadable.
+ */
+export function parseBoard(content: string): ParsedBoard {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (err) {
+    throw new BoardFormatError(`Board file is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const { board, fromVersion } = migrateBoard(raw);
+  if (!Array.isArray(board.slides)) {
+    throw new BoardFormatError('Board file has no "slides" list.');
+  }
+
+  const issues: BoardIssue[] = [];
+  const slides: Slide[] = [];
+
+  board.slides.forEach((rawSlide: unknown, slideIndex: number) => {
+    const slideNumber = slideIndex + 1;
+    if (!isObject(rawSlide)) {
+      issues.push({ slide: slideNumber, message: 'Slide is not an object and was skipped.' });
+      return;
+    }
+    const rawItems: unknown[] = Array.isArray(rawSlide.items) ? rawSlide.items : [];
+    if (!Array.isArray(rawSlide.items)) {
+      issues.push({ slide: slideNumber, message: 'Slide has no "items" list; it was loaded empty.' });
+    }
+
+    const items: BoardItem[] = [];
+    const invalidItems: unknown[] = [];
+    rawItems.forEach((rawItem, itemIndex) => {
+      const result = boardItemSchema.safeParse(rawItem);
+      if (result.success) {
+        items.push(result.data);
+      } else {
+        invalidItems.push(rawItem);
+        issues.push({
+          slide: slideNumber,
+          item: itemIndex + 1,
+          itemId: isObject(rawItem) && typeof rawItem.id === 'string' ? rawItem.id : undefined,
+          message: formatZodError(result.error),
+        });
+      }
+    });
+
+    if (rawSlide.notes !== undefined && typeof rawSlide.notes !== 'string') {
+      issues.push({ slide: slideNumber, message: 'Speaker notes are not text and were dropped.' });
+    }
+    slides.push({
+      slide_number: slides.length + 1,
+      items,
+      ...(typeof rawSlide.notes === 'string' ? { notes: rawSlide.notes } : {}),
+      ...(invalidItems.length ? { invalid_items: invalidItems } : {}),
+    });
+  });
+
+  return {
+    data: { version: BOARD_FORMAT_VERSION, slides },
+    issues,
+    migratedFrom: fromVersion < BOARD_FORMAT_VERSION ? fromVersion : null,
+  };
+}
+
+/**
+ * Serializes a board for writing to disk, dropping runtime-only fields and
+ * putting items that failed validation back in their slide.
+ */
+export function serializeBoard(data: BoardData): string {
+  const dataToSave = {
+    ...data,
+    version: BOARD_FORMAT_VERSION,
+    slides: data.slides.map(({ invalid_items, ...slide }) => ({
+      ...slide,
+      items: [
+        ...slide.items.map(item => {
+          if (item.type === 'image') {
+            const { src, ...rest } = item;
+            return rest;
+          }
+          return item;
+        }),
+        ...(invalid_items ?? []),
+      ],
+    })),
+  };
+  return JSON.stringify(dataToSave, null, 2);
+}
+
+export function createInitialBoard(): BoardData {
+  return {
+    version: BOARD_FORMAT_VERSION,
+    slides: [
+      {
+        slide_number: 1,
+        items: [
+          {
+            id: 'initial-text',
+            type: 'text',
+            content: textToRichText('Welcome to your presentation!'),
+            position: [50, 50],
+            font_size: 36,
+            width: 400,
+            rotation: 0,
+          },
+        ],
+      },
+    ],
+  };
+}
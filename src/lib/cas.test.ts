@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { CasError, runCas, type CasOperation } from '@/lib/cas';
+import { ExpressionError } from '@/lib/expression';
+
+const text = (source: string, operation: CasOperation) => runCas(source, operation).text;
+
+describe('runCas', () => {
+  it.each<[string, CasOperation, string]>([
+    ['2x + 3x - x', 'simplify', '4x'],
+    ['sqrt(8)', 'simplify', '2sqrt(2)'],
+    ['(x+1)^2', 'expand', 'x^2 + 2x + 1'],
+    ['x^2 - 1', 'factor', '(x + 1)(x - 1)'],
+    ['x^3 - 3x^2 + 3x - 1', 'factor', '(x - 1)^3'],
+    ['x^3 + 2x', 'differentiate', '3x^2 + 2'],
+    ['sin(x)^2', 'differentiate', '2cos(x)*sin(x)'],
+    ['3x^2', 'integrate', 'x^3 + C'],
+    ['cos(x)', 'integrate', 'sin(x) + C'],
+    ['1/x', 'integrate', 'ln(abs(x)) + C'],
+  ])('%s, %s → %s', (source, operation, expected) => {
+    expect(text(source, operation)).toBe(expected);
+  });
+
+  it('solves quadratics exactly', () => {
+    expect(text('x^2 - 5x + 6 = 0', 'solve')).toBe('x = 2, x = 3');
+    expect(text('2x^2 - 3x + 1 = 0', 'solve')).toBe('x = 1/2, x = 1');
+    expect(text('x^2 = 2', 'solve')).toBe('x = -sqrt(2) ≈ -1.414214, x = sqrt(2) ≈ 1.414214');
+  });
+
+  it('reports equations without or with every solution', () => {
+    expect(text('x^2 + 1 = 0', 'solve')).toBe('No real solutions.');
+    expect(text('x = x', 'solve')).toBe('Every x is a solution.');
+  });
+
+  it('falls back to numeric solutions', () => {
+    expect(text('e^x - 2 = 0', 'solve')).toBe('x ≈ 0.693147');
+  });
+
+  it('writes results as TeX', () => {
+    expect(runCas('x^2 - 1', 'factor').tex).toBe('{x}^{2} - 1 = \\left(x + 1\\right) \\left(x - 1\\right)');
+  });
+
+  it('rejects invalid input with located errors', () => {
+    expect(() => runCas('x + ', 'simplify')).toThrow(ExpressionError);
+    expect(() => runCas('x + 1 = 2', 'simplify')).toThrow(/Only Solve takes an equation/);
+    expect(() => runCas('y + x', 'simplify')).toThrow(/Unknown name "y"/);
+  });
+
+  it('throws CasError when it has no rule for the input', () => {
+    expect(() => runCas('sin(x^2)', 'integrate')).toThrow(CasError);
+  });
+
+  it('refuses to solve equations with slider parameters', () => {
+    expect(() => runCas('x^2 - a = 0', 'solve')).toThrow(CasError);
+    expect(() => runCas('a*x + b = 0', 'solve')).toThrow('Replace "a", "b" with a number.');
+  });
+});
@@ -0,0 +1,759 @@
+// Symbolic algebra for the graphing calculator's CAS pane: simplifying,
+// expanding and factoring, derivatives, antiderivatives and solving for x.
+// Expressions are brought into a normal form, a sum of terms that are each
+// a number times powers of factors, in which like terms and like factors
+// combine.
+
+import {
+  checkNames,
+  collectSymbols,
+  compileExpression,
+  ExpressionError,
+  GREEK_LETTERS,
+  MATH_CONSTANTS,
+  parseExpression,
+  type BinaryOperator,
+  type ExpressionNode,
+} from '@/lib/expression';
+import { PARAMETER_NAMES } from '@/lib/graph';
+import { findZeros } from '@/lib/graph-analysis';
+
+export const CAS_OPERATIONS = ['simplify', 'expand', 'factor', 'differentiate', 'integrate', 'solve'] as const;
+export type CasOperation = (typeof CAS_OPERATIONS)[number];
+
+export const CAS_OPERATION_LABELS: Record<CasOperation, string> = {
+  simplify: 'Simplify',
+  expand: 'Expand',
+  factor: 'Factor',
+  differentiate: 'd/dx',
+  integrate: '∫ dx',
+  solve: 'Solve',
+};
+
+/** An expression the CAS cannot handle, e.g. one with no elementary antiderivative. */
+export class CasError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CasError';
+  }
+}
+
+export interface CasResult {
+  // The answer in calculator syntax, e.g. `2x + 1` or `x = -1, x = 3`.
+  text: string;
+  // The whole statement as TeX, e.g. `\frac{d}{dx}\left(x^{2}\right) = 2x`.
+  tex: string;
+  // The answer as an expression in x that can be plotted, if it is one.
+  expression: ExpressionNode | null;
+}
+
+const VARIABLE = 'x';
+// Sums raised to powers up to this are multiplied out when expanding.
+const MAX_EXPANDED_POWER = 12;
+const EPSILON = 1e-12;
+// Numbers are shown as fractions with denominators up to this.
+const MAX_DENOMINATOR = 100;
+// Range searched for solutions that cannot be found exactly.
+const SOLVE_DOMAIN: [number, number] = [-50, 50];
+const SOLVE_SAMPLES = 5000;
+
+// --- Building and formatting expressions ----------------------------------
+
+const num = (value: number): ExpressionNode => ({ type: 'number', value });
+const symbol = (name: string): ExpressionNode => ({ type: 'symbol', name });
+const binary = (operator: BinaryOperator, left: ExpressionNode, right: ExpressionNode): ExpressionNode =>
+  ({ type: 'binary', operator, left, right });
+const call = (name: string, ...args: ExpressionNode[]): ExpressionNode => ({ type: 'call', name, args });
+const negate = (argument: ExpressionNode): ExpressionNode => ({ type: 'negate', argument });
+
+/** `value` as numerator and denominator, if it is a fraction with a small denominator. */
+function toFraction(value: number): [number, number] | null {
+  for (let denominator = 1; denominator <= MAX_DENOMINATOR; denominator++) {
+    const numerator = Math.round(value * denominator);
+    if (Math.abs(value - numerator / denominator) < 1e-9 * Math.max(1, Math.abs(value))) return [numerator, denominator];
+  }
+  return null;
+}
+
+const formatDecimal = (value: number) => String(Number(value.toPrecision(10)));
+
+// Binding strength of each kind of node, for deciding on brackets.
+const SUM = 1;
+const PRODUCT = 2;
+const NEGATION = 3;
+const POWER = 4;
+const ATOM = 5;
+
+const precedence = (node: ExpressionNode): number => {
+  switch (node.type) {
+    case 'number': {
+      if (node.value < 0) return NEGATION;
+      const fraction = toFraction(node.value);
+      return fraction && fraction[1] !== 1 ? PRODUCT : ATOM;
+    }
+    case 'symbol':
+    case 'call':
+      return ATOM;
+    case 'negate':
+      return NEGATION;
+    case 'binary':
+      return node.operator === '+' || node.operator === '-' ? SUM : node.operator === '^' ? POWER : PRODUCT;
+  }
+};
+
+// Whether the text of a node starts with a letter, so `2x` needs no `*`.
+const startsWithName = (node: ExpressionNode): boolean =>
+  node.type === 'symbol' || node.type === 'call' || (node.type === 'binary' && node.operator === '^' && startsWithName(node.left));
+
+/** Formats an expression in the syntax typed into the calculator, e.g. `3x^2 - sin(x)/2`. */
+export function formatExpression(node: ExpressionNode): string {
+  const wrap = (child: ExpressionNode, minimum: number) =>
+    precedence(child) < minimum ? `(${formatExpression(child)})` : formatExpression(child);
+  switch (node.type) {
+    case 'number': {
+      if (node.value < 0) return `-${formatExpression(num(-node.value))}`;
+      const fraction = toFraction(node.value);
+      if (!fraction) return formatDecimal(node.value);
+      return fraction[1] === 1 ? String(fraction[0]) : `${fraction[0]}/${fraction[1]}`;
+    }
+    case 'symbol':
+      return node.name;
+    case 'negate':
+      return `-${wrap(node.argument, PRODUCT)}`;
+    case 'call':
+      return `${node.name}(${node.args.map(formatExpression).join(', ')})`;
+    case 'binary': {
+      const { operator, left, right } = node;
+      switch (operator) {
+        case '+':
+          return `${wrap(left, SUM)} + ${wrap(right, SUM)}`;
+        case '-':
+          return `${wrap(left, SUM)} - ${wrap(right, PRODUCT)}`;
+        case '*': {
+          const leftText = wrap(left, PRODUCT);
+          const rightText = precedence(right) === NEGATION ? `(${formatExpression(right)})` : wrap(right, PRODUCT);
+          // `2x`, `2sin(x)` and `x(x + 1)` read back as products; `pi(x)` would not.
+          const isImplicit = rightText.startsWith('(')
+            ? /(\)|\d|(^|[^a-zA-Zπ])[a-zA-Z])$/.test(leftText)
+            : precedence(left) === ATOM && left.type === 'number' && startsWithName(right);
+          return isImplicit ? `${leftText}${rightText}` : `${leftText}*${rightText}`;
+        }
+        case '/':
+          return `${wrap(left, PRODUCT)}/${wrap(right, POWER)}`;
+        case '^':
+          return `${wrap(left, ATOM)}^${wrap(right, ATOM)}`;
+      }
+    }
+  }
+}
+
+const TEX_FUNCTIONS: Record<string, string> = {
+  sin: '\\sin', cos: '\\cos', tan: '\\tan', sec: '\\sec', csc: '\\csc', cot: '\\cot',
+  asin: '\\arcsin', acos: '\\arccos', atan: '\\arctan',
+  sinh: '\\sinh', cosh: '\\cosh', tanh: '\\tanh',
+  ln: '\\ln', log: '\\log_{10}', min: '\\min', max: '\\max',
+};
+
+const TEX_SYMBOLS: Record<string, string> = { pi: '\\pi', 'π': '\\pi', theta: '\\theta' };
+
+/** Typesets an expression as TeX, for math text on slides. */
+export function expressionToTex(node: ExpressionNode): string {
+  const wrap = (child: ExpressionNode, minimum: number) =>
+    precedence(child) < minimum ? `\\left(${expressionToTex(child)}\\right)` : expressionToTex(child);
+  switch (node.type) {
+    case 'number': {
+      if (node.value < 0) return `-${expressionToTex(num(-node.value))}`;
+      const fraction = toFraction(node.value);
+      if (!fraction) return formatDecimal(node.value);
+      return fraction[1] === 1 ? String(fraction[0]) : `\\frac{${fraction[0]}}{${fraction[1]}}`;
+    }
+    case 'symbol':
+      return TEX_SYMBOLS[node.name] ?? (GREEK_LETTERS[node.name] ? `\\${GREEK_LETTERS[node.name]}` : node.name);
+    case 'negate':
+      return `-${wrap(node.argument, PRODUCT)}`;
+    case 'call': {
+      const args = node.args.map(expressionToTex);
+      switch (node.name) {
+        case 'sqrt':
+          return `\\sqrt{${args[0]}}`;
+        case 'cbrt':
+          return `\\sqrt[3]{${args[0]}}`;
+        case 'abs':
+          return `\\left|${args[0]}\\right|`;
+        case 'exp':
+          return `e^{${args[0]}}`;
+        default:
+          return `${TEX_FUNCTIONS[node.name] ?? `\\operatorname{${node.name}}`}\\left(${args.join(', ')}\\right)`;
+      }
+    }
+    case 'binary': {
+      const { operator, left, right } = node;
+      switch (operator) {
+        case '+':
+          return `${wrap(left, SUM)} + ${wrap(right, SUM)}`;
+        case '-':
+          return `${wrap(left, SUM)} - ${wrap(right, PRODUCT)}`;
+        case '*': {
+          const rightText = precedence(right) === NEGATION ? `\\left(${expressionToTex(right)}\\right)` : wrap(right, PRODUCT);
+          // Digits next to each other need a dot; anything else reads as a product.
+          return right.type === 'number' || (precedence(right) !== NEGATION && /^\d/.test(rightText))
+            ? `${wrap(left, PRODUCT)} \\cdot ${rightText}`
+            : `${wrap(left, PRODUCT)} ${rightText}`;
+        }
+        case '/':
+          return `\\frac{${expressionToTex(left)}}{${expressionToTex(right)}}`;
+        case '^': {
+          // Square roots are kept as roots rather than halves.
+          if (right.type === 'number' && right.value === 0.5) return `\\sqrt{${expressionToTex(left)}}`;
+          return `{${wrap(left, ATOM)}}^{${expressionToTex(right)}}`;
+        }
+      }
+    }
+  }
+}
+
+// --- Normal form ------------------------------------------------------------
+
+interface Factor {
+  base: ExpressionNode;
+  exponent: number;
+}
+
+interface Term {
+  coefficient: number;
+  // Factors by the text of their base.
+  factors: Map<string, Factor>;
+}
+
+type Sum = Term[];
+
+const constantTerm = (coefficient: number): Term => ({ coefficient, factors: new Map() });
+const factorTerm = (base: ExpressionNode, exponent = 1): Term =>
+  ({ coefficient: 1, factors: new Map([[formatExpression(base), { base, exponent }]]) });
+
+const isConstant = (sum: Sum) => sum.length === 0 || (sum.length === 1 && sum[0].factors.size === 0);
+const constantValue = (sum: Sum) => (sum.length ? sum[0].coefficient : 0);
+const dependsOn = (node: ExpressionNode, variable: string) => collectSymbols(node).includes(variable);
+
+function multiplyTerms(a: Term, b: Term): Term {
+  const factors = new Map(a.factors);
+  for (const [key, factor] of b.factors) {
+    const exponent = (factors.get(key)?.exponent ?? 0) + factor.exponent;
+    if (Math.abs(exponent) < EPSILON) factors.delete(key);
+    else factors.set(key, { base: factor.base, exponent });
+  }
+  return { coefficient: a.coefficient * b.coefficient, factors };
+}
+
+const termKey = (term: Term) =>
+  Array.from(term.factors, ([key, factor]) => `${key}^${factor.exponent}`).sort().join('*');
+
+/** Adds up like terms, dropping those that cancel. */
+function combine(terms: Term[]): Sum {
+  const byKey = new Map<string, Term>();
+  for (const term of terms) {
+    const key = termKey(term);
+    const existing = byKey.get(key);
+    byKey.set(key, existing ? { ...existing, coefficient: existing.coefficient + term.coefficient } : term);
+  }
+  return Array.from(byKey.values()).filter(term => Math.abs(term.coefficient) > EPSILON);
+}
+
+// A sum of several terms as a single factor, as in `(x + 1)*y`.
+const asTerm = (sum: Sum): Term => (sum.length === 0 ? constantTerm(0) : sum.length === 1 ? sum[0] : factorTerm(fromSum(sum)));
+
+function multiplySums(a: Sum, b: Sum, expand: boolean): Sum {
+  if (!a.length || !b.length) return [];
+  if (!expand) return combine([multiplyTerms(asTerm(a), asTerm(b))]);
+  return combine(a.flatMap(left => b.map(right => multiplyTerms(left, right))));
+}
+
+function powerOfSum(base: Sum, exponent: number, expand: boolean): Sum {
+  if (exponent === 0) return [constantTerm(1)];
+  if (!base.length) {
+    if (exponent < 0) throw new CasError('Division by zero.');
+    return [];
+  }
+  if (base.length > 1) {
+    if (expand && Number.isInteger(exponent) && exponent > 0 && exponent <= MAX_EXPANDED_POWER) {
+      let result: Sum = [constantTerm(1)];
+      for (let i = 0; i < exponent; i++) result = multiplySums(result, base, true);
+      return result;
+    }
+    return [factorTerm(fromSum(base), exponent)];
+  }
+  const [{ coefficient, factors }] = base;
+  const raised: Term = { coefficient: 1, factors: new Map() };
+  for (const [key, factor] of factors) raised.factors.set(key, { base: factor.base, exponent: factor.exponent * exponent });
+  const power = coefficient ** exponent;
+  if (Number.isInteger(exponent) || (Number.isFinite(power) && toFraction(power) !== null)) return [{ ...raised, coefficient: power }];
+  if (exponent === 0.5 && coefficient > 0) return [multiplyTerms(raised, squareRoot(coefficient))];
+  // Other roots that are not exact stay as they are.
+  return [multiplyTerms(raised, factorTerm(num(coefficient), exponent))];
+}
+
+// √value with square factors taken out, e.g. √12 = 2√3 and √(5/4) = √5/2.
+function squareRoot(value: number): Term {
+  const fraction = toFraction(value);
+  if (!fraction) return factorTerm(num(value), 0.5);
+  const [numerator, denominator] = fraction;
+  // √(p/q) = √(p·q)/q keeps the root out of the denominator.
+  let radicand = numerator * denominator;
+  let outside = 1;
+  for (let k = Math.floor(Math.sqrt(radicand)); k > 1; k--) {
+    if (radicand % (k * k) === 0) {
+      outside = k;
+      radicand /= k * k;
+      break;
+    }
+  }
+  return multiplyTerms(constantTerm(outside / denominator), factorTerm(num(radicand), 0.5));
+}
+
+// Evaluates calls of numbers, e.g. sin(0) or ln(e), when the result is a whole number.
+const foldCall = (node: ExpressionNode): number | null => {
+  if (collectSymbols(node).some(name => !Object.prototype.hasOwnProperty.call(MATH_CONSTANTS, name))) return null;
+  const value = compileExpression(node)({});
+  return Number.isFinite(value) && Math.abs(value - Math.round(value)) < EPSILON ? Math.round(value) : null;
+};
+
+/**
+ * The normal form of an expression. With `expand`, products and whole
+ * powers of sums are multiplied out; otherwise they stay as factors.
+ */
+function normalize(node: ExpressionNode, expand: boolean): Sum {
+  switch (node.type) {
+    case 'number':
+      return node.value === 0 ? [] : [constantTerm(node.value)];
+    case 'symbol':
+      return [factorTerm(symbol(node.name))];
+    case 'negate':
+      return normalize(node.argument, expand).map(term => ({ ...term, coefficient: -term.coefficient }));
+    case 'call': {
+      const args = node.args.map(arg => fromSum(normalize(arg, expand)));
+      if (node.name === 'sqrt') return powerOfSum(normalize(args[0], expand), 0.5, expand);
+      const simplified = call(node.name, ...args);
+      const folded = foldCall(simplified);
+      return folded === null ? [factorTerm(simplified)] : normalize(num(folded), expand);
+    }
+    case 'binary': {
+      const left = normalize(node.left, expand);
+      const right = normalize(node.right, expand);
+      switch (node.operator) {
+        case '+':
+          return combine([...left, ...right]);
+        case '-':
+          return combine([...left, ...right.map(term => ({ ...term, coefficient: -term.coefficient }))]);
+        case '*':
+          return multiplySums(left, right, expand);
+        case '/':
+          if (!right.length) throw new CasError('Division by zero.');
+          return multiplySums(left, powerOfSum(right, -1, false), expand);
+        case '^':
+          if (isConstant(right)) return powerOfSum(left, constantValue(right), expand);
+          return [factorTerm(binary('^', fromSum(left), fromSum(right)))];
+      }
+    }
+  }
+}
+
+const degreeIn = (term: Term, variable: string) => term.factors.get(variable)?.exponent ?? 0;
+
+const FACTOR_ORDER: Record<ExpressionNode['type'], number> = { number: 0, symbol: 1, negate: 2, binary: 2, call: 3 };
+
+const product = (nodes: ExpressionNode[]) => nodes.reduce((left, right) => binary('*', left, right));
+
+// A factor raised to its exponent, with halves as square roots.
+const powerNode = ({ base, exponent }: Factor): ExpressionNode =>
+  exponent === 1 ? base : exponent === 0.5 ? call('sqrt', base) : binary('^', base, num(exponent));
+
+/** A term without its sign, with factors of negative powers below a fraction bar. */
+function fromTerm(term: Term): ExpressionNode {
+  const factors = Array.from(term.factors.values()).sort((a, b) =>
+    FACTOR_ORDER[a.base.type] - FACTOR_ORDER[b.base.type] || formatExpression(a.base).localeCompare(formatExpression(b.base))
+  );
+  const magnitude = Math.abs(term.coefficient);
+  const [numerator, denominator] = toFraction(magnitude) ?? [magnitude, 1];
+  const above = factors.filter(f => f.exponent > 0).map(powerNode);
+  const below = factors.filter(f => f.exponent < 0).map(f => powerNode({ base: f.base, exponent: -f.exponent }));
+  if (numerator !== 1 || !above.length) above.unshift(num(numerator));
+  if (denominator !== 1) below.unshift(num(denominator));
+  return below.length ? binary('/', product(above), product(below)) : product(above);
+}
+
+/** An expression from a normal form, highest powers of x first. */
+function fromSum(sum: Sum): ExpressionNode {
+  if (!sum.length) return num(0);
+  const terms = [...sum].sort((a, b) =>
+    degreeIn(b, VARIABLE) - degreeIn(a, VARIABLE) ||
+    Number(a.factors.size === 0) - Number(b.factors.size === 0) ||
+    termKey(a).localeCompare(termKey(b))
+  );
+  return terms.slice(1).reduce<ExpressionNode>(
+    (result, term) => binary(term.coefficient < 0 ? '-' : '+', result, fromTerm(term)),
+    terms[0].coefficient < 0 ? negate(fromTerm(terms[0])) : fromTerm(terms[0])
+  );
+}
+
+/** Combines like terms and factors and folds numbers, without multiplying out. */
+export const simplify = (node: ExpressionNode) => fromSum(normalize(node, false));
+
+/** Multiplies out products and whole powers of sums. */
+export const expand = (node: ExpressionNode) => fromSum(normalize(node, true));
+
+// --- Polynomials ------------------------------------------------------------
+
+/** Coefficients of a polynomial in x with number coefficients, lowest power first, or null. */
+function polynomialCoefficients(node: ExpressionNode): number[] | null {
+  const coefficients: number[] = [];
+  for (const term of normalize(node, true)) {
+    const degree = degreeIn(term, VARIABLE);
+    if (term.factors.size > (degree ? 1 : 0) || !Number.isInteger(degree) || degree < 0) return null;
+    coefficients[degree] = (coefficients[degree] ?? 0) + term.coefficient;
+  }
+  return Array.from(coefficients, value => value ?? 0);
+}
+
+const fromCoefficients = (coefficients: number[]) =>
+  fromSum(combine(coefficients.map((coefficient, degree) => multiplyTerms(constantTerm(coefficient), degree ? factorTerm(symbol(VARIABLE), degree) : constantTerm(1)))));
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+const divisors = (value: number) => {
+  const result: number[] = [];
+  for (let d = 1; d <= Math.abs(value) && d <= 10000; d++) if (value % d === 0) result.push(d);
+  return result;
+};
+
+// Integer coefficients, lowest power first, divided by (q·x − p) for a root p/q.
+function divideByRoot(coefficients: number[], p: number, q: number): number[] {
+  const quotient: number[] = new Array(coefficients.length - 1).fill(0);
+  let carry = 0;
+  for (let i = coefficients.length - 1; i >= 1; i--) {
+    carry = (coefficients[i] + p * carry) / q;
+    quotient[i - 1] = carry;
+  }
+  return quotient;
+}
+
+// A rational root p/q of a polynomial with integer coefficients, by the rational root theorem.
+function rationalRoot(coefficients: number[]): [number, number] | null {
+  const constant = coefficients[0];
+  const leading = coefficients[coefficients.length - 1];
+  for (const q of divisors(leading)) {
+    for (const magnitude of divisors(constant)) {
+      for (const p of [magnitude, -magnitude]) {
+        if (gcd(p, q) !== 1) continue;
+        // Scaled by q^n so the test stays in whole numbers.
+        const value = coefficients.reduce((sum, c, i) => sum + c * p ** i * q ** (coefficients.length - 1 - i), 0);
+        if (value === 0) return [p, q];
+      }
+    }
+  }
+  return null;
+}
+
+/** Factors a polynomial in x over the rationals, e.g. `2x^2 - 2` → `2(x - 1)(x + 1)`. */
+export function factor(node: ExpressionNode): ExpressionNode {
+  const coefficients = polynomialCoefficients(node);
+  if (!coefficients) throw new CasError('Only polynomials in x with number coefficients can be factored.');
+  if (!coefficients.length) return num(0);
+  const fractions = coefficients.map(toFraction);
+  if (fractions.some(fraction => !fraction)) throw new CasError('Only polynomials with whole or fractional coefficients can be factored.');
+  const scale = fractions.reduce((lcm, fraction) => (lcm * fraction![1]) / gcd(lcm, fraction![1]), 1);
+  let integers = coefficients.map(c => Math.round(c * scale));
+  let content = integers.reduce((a, b) => gcd(a, b), 0);
+  if (integers[integers.length - 1] < 0) content = -content;
+  integers = integers.map(c => c / content);
+
+  const lowest = integers.findIndex(c => c !== 0);
+  integers = integers.slice(lowest);
+  const linear = new Map<string, { p: number; q: number; count: number }>();
+  while (integers.length > 1) {
+    const root = rationalRoot(integers);
+    if (!root) break;
+    const [p, q] = root;
+    const key = `${p}/${q}`;
+    linear.set(key, { p, q, count: (linear.get(key)?.count ?? 0) + 1 });
+    integers = divideByRoot(integers, p, q);
+  }
+
+  const factors: ExpressionNode[] = [];
+  const constant = content / scale;
+  if (Math.abs(constant) !== 1 || (lowest === 0 && !linear.size && integers.length <= 1)) factors.push(num(Math.abs(constant)));
+  if (lowest > 0) factors.push(lowest === 1 ? symbol(VARIABLE) : binary('^', symbol(VARIABLE), num(lowest)));
+  const sortedLinear = Array.from(linear.values()).sort((a, b) => a.p / a.q - b.p / b.q);
+  for (const { p, q, count } of sortedLinear) {
+    const base = fromCoefficients([-p, q]);
+    factors.push(count === 1 ? base : binary('^', base, num(count)));
+  }
+  if (integers.length > 1) factors.push(fromCoefficients(integers));
+  const result = product(factors);
+  return constant < 0 ? negate(result) : result;
+}
+
+// --- Calculus ---------------------------------------------------------------
+
+/** Derivative with respect to `variable` of each function, given its argument `u`. */
+const DERIVATIVES: Record<string, (u: ExpressionNode) => ExpressionNode> = {
+  sin: u => call('cos', u),
+  cos: u => negate(call('sin', u)),
+  tan: u => binary('/', num(1), binary('^', call('cos', u), num(2))),
+  sec: u => binary('*', call('sec', u), call('tan', u)),
+  csc: u => negate(binary('*', call('csc', u), call('cot', u))),
+  cot: u => negate(binary('/', num(1), binary('^', call('sin', u), num(2)))),
+  asin: u => binary('/', num(1), call('sqrt', binary('-', num(1), binary('^', u, num(2))))),
+  acos: u => negate(binary('/', num(1), call('sqrt', binary('-', num(1), binary('^', u, num(2)))))),
+  atan: u => binary('/', num(1), binary('+', num(1), binary('^', u, num(2)))),
+  sinh: u => call('cosh', u),
+  cosh: u => call('sinh', u),
+  tanh: u => binary('/', num(1), binary('^', call('cosh', u), num(2))),
+  sqrt: u => binary('/', num(1), binary('*', num(2), call('sqrt', u))),
+  cbrt: u => binary('/', num(1), binary('*', num(3), binary('^', call('cbrt', u), num(2)))),
+  exp: u => call('exp', u),
+  ln: u => binary('/', num(1), u),
+  log: u => binary('/', num(1), binary('*', u, call('ln', num(10)))),
+  abs: u => binary('/', u, call('abs', u)),
+};
+
+function derivative(node: ExpressionNode, variable: string): ExpressionNode {
+  if (!dependsOn(node, variable)) return num(0);
+  const d = (child: ExpressionNode) => derivative(child, variable);
+  switch (node.type) {
+    case 'number':
+      return num(0);
+    case 'symbol':
+      return num(node.name === variable ? 1 : 0);
+    case 'negate':
+      return negate(d(node.argument));
+    case 'call': {
+      const rule = DERIVATIVES[node.name];
+      if (!rule) throw new CasError(`${node.name} cannot be differentiated symbolically.`);
+      const [u] = node.args;
+      return binary('*', rule(u), d(u));
+    }
+    case 'binary': {
+      const { operator, left: u, right: v } = node;
+      switch (operator) {
+        case '+':
+        case '-':
+          return binary(operator, d(u), d(v));
+        case '*':
+          return binary('+', binary('*', d(u), v), binary('*', u, d(v)));
+        case '/':
+          return binary('/', binary('-', binary('*', d(u), v), binary('*', u, d(v))), binary('^', v, num(2)));
+        case '^':
+          if (!dependsOn(v, variable)) {
+            return binary('*', binary('*', v, binary('^', u, binary('-', v, num(1)))), d(u));
+          }
+          if (!dependsOn(u, variable)) {
+            const logarithm = u.type === 'symbol' && u.name === 'e' ? num(1) : call('ln', u);
+            return binary('*', binary('*', node, logarithm), d(v));
+          }
+          // u^v = e^(v·ln u) in general.
+          return binary('*', node, binary('+', binary('*', d(v), call('ln', u)), binary('/', binary('*', v, d(u)), u)));
+      }
+    }
+  }
+}
+
+/** The derivative in x, simplified. */
+export const differentiate = (node: ExpressionNode) => simplify(derivative(node, VARIABLE));
+
+// `a·x + b` as [a, b] when a and b are numbers and a is not zero.
+function linearCoefficients(node: ExpressionNode): [number, number] | null {
+  const coefficients = polynomialCoefficients(node);
+  if (!coefficients || coefficients.length !== 2 || coefficients[1] === 0) return null;
+  return [coefficients[1], coefficients[0]];
+}
+
+// Antiderivatives of f(u) for a linear u, before dividing by u's slope.
+const ANTIDERIVATIVES: Record<string, (u: ExpressionNode) => ExpressionNode> = {
+  sin: u => negate(call('cos', u)),
+  cos: u => call('sin', u),
+  exp: u => call('exp', u),
+  sinh: u => call('cosh', u),
+  cosh: u => call('sinh', u),
+};
+
+// Antiderivative of one factor in x, or null if there is no rule for it.
+function integrateFactor({ base, exponent }: Factor): ExpressionNode | null {
+  const linear = linearCoefficients(base);
+  if (linear) {
+    const [slope] = linear;
+    const antiderivative = exponent === -1
+      ? call('ln', call('abs', base))
+      : binary('/', binary('^', base, num(exponent + 1)), num(exponent + 1));
+    return binary('/', antiderivative, num(slope));
+  }
+  if (base.type === 'call' && base.args.length === 1) {
+    const argument = linearCoefficients(base.args[0]);
+    if (!argument) return null;
+    const u = base.args[0];
+    const over = (node: ExpressionNode) => binary('/', node, num(argument[0]));
+    if (exponent === 1 && ANTIDERIVATIVES[base.name]) return over(ANTIDERIVATIVES[base.name](u));
+    if (exponent === -2 && base.name === 'cos') return over(call('tan', u));
+    if (exponent === -2 && base.name === 'sin') return over(negate(binary('/', num(1), call('tan', u))));
+    return null;
+  }
+  // e^(a·x + b)
+  if (exponent === 1 && base.type === 'binary' && base.operator === '^' && base.left.type === 'symbol' && base.left.name === 'e') {
+    const argument = linearCoefficients(base.right);
+    if (argument) return binary('/', base, num(argument[0]));
+  }
+  return null;
+}
+
+/** An antiderivative in x, without the constant of integration. */
+export function integrate(node: ExpressionNode): ExpressionNode {
+  const parts = normalize(node, true).map(term => {
+    const constant: Term = { coefficient: term.coefficient, factors: new Map() };
+    const variableFactors: Factor[] = [];
+    for (const [key, factor] of term.factors) {
+      if (dependsOn(factor.base, VARIABLE)) variableFactors.push(factor);
+      else constant.factors.set(key, factor);
+    }
+    const constantNode = constant.coefficient < 0 ? negate(fromTerm(constant)) : fromTerm(constant);
+    if (!variableFactors.length) return binary('*', constantNode, symbol(VARIABLE));
+    const antiderivative = variableFactors.length === 1 ? integrateFactor(variableFactors[0]) : null;
+    if (!antiderivative) {
+      throw new CasError(`No antiderivative found for ${formatExpression(fromTerm({ coefficient: 1, factors: new Map(variableFactors.map(f => [formatExpression(f.base), f])) }))}.`);
+    }
+    return binary('*', constantNode, antiderivative);
+  });
+  return simplify(parts.reduce((sum, part) => binary('+', sum, part), num(0)));
+}
+
+// --- Solving ----------------------------------------------------------------
+
+export interface Solution {
+  // Exact value, if one was found.
+  exact: ExpressionNode | null;
+  value: number;
+}
+
+/**
+ * Real solutions of `node = 0` for x: exact for polynomials up to degree 2 and
+ * rational roots, numeric otherwise. Throws CasError if other names are free.
+ */
+export function solve(node: ExpressionNode): Solution[] | 'all' {
+  const parameters = collectSymbols(node).filter(
+    name => name !== VARIABLE && !Object.prototype.hasOwnProperty.call(MATH_CONSTANTS, name)
+  );
+  if (parameters.length) {
+    throw new CasError(`Solve only works in x. Replace ${parameters.map(name => `"${name}"`).join(', ')} with a number.`);
+  }
+  const coefficients = polynomialCoefficients(node);
+  if (coefficients) {
+    while (coefficients.length && Math.abs(coefficients[coefficients.length - 1]) < EPSILON) coefficients.pop();
+    if (!coefficients.length) return 'all';
+    if (coefficients.length === 1) return [];
+    if (coefficients.length === 2) {
+      const value = -coefficients[0] / coefficients[1];
+      return [{ exact: num(value), value }];
+    }
+    if (coefficients.length === 3) {
+      const [c, b, a] = coefficients;
+      const discriminant = b * b - 4 * a * c;
+      if (discriminant < -EPSILON) return [];
+      const center = -b / (2 * a);
+      if (Math.abs(discriminant) < EPSILON) return [{ exact: num(center), value: center }];
+      const offset = Math.sqrt(discriminant) / Math.abs(2 * a);
+      const root = powerOfSum([constantTerm(discriminant)], 0.5, false);
+      const rootNode = fromSum(root.map(term => ({ ...term, coefficient: term.coefficient / Math.abs(2 * a) })));
+      // A rational root combines with the centre into one number.
+      if (isConstant(root)) {
+        return [-1, 1].map(sign => ({ exact: num(center + sign * offset), value: center + sign * offset }));
+      }
+      return [-1, 1].map(sign => ({
+        exact: center === 0
+          ? (sign < 0 ? negate(rootNode) : rootNode)
+          : binary(sign < 0 ? '-' : '+', num(center), rootNode),
+        value: center + sign * offset,
+      }));
+    }
+  }
+  const fn = compileExpression(node);
+  const values = findZeros(x => fn({ [VARIABLE]: x }), SOLVE_DOMAIN, SOLVE_SAMPLES);
+  return values.map(value => {
+    const fraction = toFraction(value);
+    const isExact = coefficients && fraction && Math.abs(fn({ [VARIABLE]: fraction[0] / fraction[1] })) < EPSILON;
+    return isExact ? { exact: num(fraction[0] / fraction[1]), value: fraction[0] / fraction[1] } : { exact: null, value };
+  });
+}
+
+// --- The CAS pane -------------------------------------------------------------
+
+// Leading `y =` or `f(x) =`, accepted as in the formula rows.
+const FUNCTION_PREFIX = /^\s*(y|f\s*\(\s*x\s*\))\s*=/;
+
+function parseChecked(source: string): ExpressionNode {
+  const node = parseExpression(source);
+  checkNames(node, [VARIABLE, ...PARAMETER_NAMES]);
+  return node;
+}
+
+/**
+ * Parses CAS input. Solving accepts an equation, read as left − right = 0;
+ * other operations take an expression. Positions in errors match `source`.
+ */
+export function parseCasInput(source: string, operation: CasOperation): ExpressionNode {
+  const blanked = source.replace(FUNCTION_PREFIX, text => ' '.repeat(text.length));
+  const equals = blanked.indexOf('=');
+  if (equals === -1) return parseChecked(blanked);
+  if (operation !== 'solve') throw new ExpressionError('Only Solve takes an equation.', equals);
+  const left = parseChecked(blanked.slice(0, equals));
+  const right = parseChecked(' '.repeat(equals + 1) + blanked.slice(equals + 1));
+  return binary('-', left, right);
+}
+
+const formatApproximate = (value: number) => formatDecimal(Number(value.toFixed(6)));
+
+/** Runs a CAS operation on typed input. Throws ExpressionError or CasError. */
+export function runCas(source: string, operation: CasOperation): CasResult {
+  const node = parseCasInput(source, operation);
+  const inputTex = expressionToTex(node);
+  const withResult = (result: ExpressionNode, tex: string): CasResult => ({
+    text: formatExpression(result),
+    tex,
+    expression: result,
+  });
+  switch (operation) {
+    case 'simplify':
+    case 'expand':
+    case 'factor': {
+      const result = operation === 'simplify' ? simplify(node) : operation === 'expand' ? expand(node) : factor(node);
+      return withResult(result, `${inputTex} = ${expressionToTex(result)}`);
+    }
+    case 'differentiate': {
+      const result = differentiate(node);
+      return withResult(result, `\\frac{d}{dx}\\left(${inputTex}\\right) = ${expressionToTex(result)}`);
+    }
+    case 'integrate': {
+      const result = integrate(node);
+      return {
+        ...withResult(result, `\\int ${inputTex} \\, dx = ${expressionToTex(result)} + C`),
+        text: `${formatExpression(result)} + C`,
+      };
+    }
+    case 'solve': {
+      const solutions = solve(node);
+      const equationTex = source.includes('=') ? `${expressionToTex(simplify(node))} = 0` : `${inputTex} = 0`;
+      if (solutions === 'all') return { text: 'Every x is a solution.', tex: `${equationTex} \\text{ for all } x`, expression: null };
+      if (!solutions.length) return { text: 'No real solutions.', tex: `${equationTex} \\text{ has no real solutions}`, expression: null };
+      const texts = solutions.map(({ exact, value }) => {
+        if (!exact) return { text: `x ≈ ${formatApproximate(value)}`, tex: `x \\approx ${formatApproximate(value)}` };
+        const isWhole = /^-?\d+(\/\d+)?$/.test(formatExpression(exact));
+        return {
+          text: `x = ${formatExpression(exact)}${isWhole ? '' : ` ≈ ${formatApproximate(value)}`}`,
+          tex: `x = ${expressionToTex(exact)}`,
+        };
+      });
+      return {
+        text: texts.map(t => t.text).join(', '),
+        tex: `${equationTex} \\Rightarrow ${texts.map(t => t.tex).join(',\\; ')}`,
+        expression: null,
+      };
+    }
+  }
+}
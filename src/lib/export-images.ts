@@ -0,0 +1,49 @@
+import JSZip from 'jszip';
+import type { BoardData } from '@/lib/board';
+import type { ExportProgress } from '@/lib/export-pdf';
+import { slideToSvg } from '@/lib/export-svg';
+import { renderSlideToCanvas } from '@/lib/slide-render';
+
+export interface ExportedFile {
+  name: string;
+  blob: Blob;
+}
+
+export type ImageFormat = 'png' | 'svg';
+
+const slideFileName = (baseName: string, index: number, total: number, format: ImageFormat) =>
+  `${baseName}-slide-${String(index + 1).padStart(String(total).length, '0')}.${format}`;
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas is empty'))), 'image/png');
+  });
+
+/** Renders every slide to a PNG (raster) or SVG (vector) file `width` pixels wide. */
+export async function exportSlidesAsImages(
+  data: BoardData,
+  baseName: string,
+  format: ImageFormat,
+  width: number,
+  onProgress?: (progress: ExportProgress) => void
+): Promise<ExportedFile[]> {
+  const files: ExportedFile[] = [];
+  const total = data.slides.length;
+  for (let index = 0; index < total; index++) {
+    onProgress?.({ current: index + 1, total });
+    const slide = data.slides[index];
+    const blob = format === 'png'
+      ? await canvasToBlob(await renderSlideToCanvas(slide, width))
+      : new Blob([await slideToSvg(slide, width)], { type: 'image/svg+xml' });
+    files.push({ name: slideFileName(baseName, index, total, format), blob });
+  }
+  return files;
+}
+
+export async function bundleZip(files: ExportedFile[]): Promise<Blob> {
+  const zip = new JSZip();
+  for (const file of files) {
+    zip.file(file.name, file.blob);
+  }
+  return zip.generateAsync({ type: 'blob' });
+}
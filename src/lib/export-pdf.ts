@@ -0,0 +1,30 @@
+import { jsPDF } from 'jspdf';
+import type { BoardData } from '@/lib/board';
+import { renderSlideToCanvas } from '@/lib/slide-render';
+
+export interface ExportProgress {
+  current: number;
+  total: number;
+}
+
+/**
+ * Renders every slide at `width` pixels (16:9) and assembles them into a
+ * PDF with one landscape page per slide.
+ */
+export async function exportBoardToPdf(
+  data: BoardData,
+  width: number,
+  onProgress?: (progress: ExportProgress) => void
+): Promise<Blob> {
+  const height = Math.round((width * 9) / 16);
+  const pdf = new jsPDF({ orientation: 'landscape', unit: 'px', format: [width, height], hotfixes: ['px_scaling'] });
+
+  for (let index = 0; index < data.slides.length; index++) {
+    onProgress?.({ current: index + 1, total: data.slides.length });
+    const canvas = await renderSlideToCanvas(data.slides[index], width);
+    if (index > 0) pdf.addPage([width, height], 'landscape');
+    pdf.addImage(canvas.toDataURL('image/jpeg', 0.92), 'JPEG', 0, 0, width, height);
+  }
+
+  return pdf.output('blob');
+}
@@ -0,0 +1,238 @@
+import PptxGenJS from 'pptxgenjs';
+import type { BoardData, GraphItem, ImageItem, InkItem, RichText, ShapeItem, TextItem } from '@/lib/board';
+import type { ExportProgress } from '@/lib/export-pdf';
+import { blobToDataUrl, layoutRichText } from '@/lib/export-svg';
+import { blockFontScale } from '@/lib/rich-text';
+import { containsMath, unescapeDollars } from '@/lib/math';
+import { renderTextItemToImage } from '@/lib/slide-render';
+import { isLineShape } from '@/lib/shapes';
+import { HIGHLIGHTER_OPACITY, inkOutline } from '@/lib/ink';
+import { renderGraphToImage } from '@/lib/graph-plot';
+import { SLIDE_REFERENCE_WIDTH, sortSlideItems } from '@/lib/slide-layout';
+
+// 16:9 slide, 13.333in × 7.5in.
+const SLIDE_WIDTH_EMU = 12192000;
+const SLIDE_HEIGHT_EMU = 6858000;
+const EMU_PER_INCH = 914400;
+// Item sizes are pixels at the reference width.
+const EMU_PER_PX = SLIDE_WIDTH_EMU / SLIDE_REFERENCE_WIDTH;
+const POINTS_PER_PX = (EMU_PER_PX / EMU_PER_INCH) * 72;
+// Padding plus border of text items on the canvas.
+const TEXT_INSET_PX = 6;
+const LINE_HEIGHT = 1.2;
+
+const toInches = (emu: number) => emu / EMU_PER_INCH;
+
+const hexColor = (color: string | undefined) => {
+  const match = color?.match(/^#?([0-9a-f]{6})$/i);
+  return match ? match[1].toUpperCase() : undefined;
+};
+
+// One pptxgenjs text run per styled piece; paragraph options go on the first run of each block.
+const richTextToRuns = (content: RichText, fontSize: number): PptxGenJS.TextProps[] =>
+  content.flatMap((block, blockIndex) => {
+    const paragraph: PptxGenJS.TextPropsOptions = {
+      align: block.align,
+      ...(block.type === 'bullet' ? { bullet: true } : {}),
+      ...(block.type === 'numbered' ? { bullet: { type: 'number' as const } } : {}),
+    };
+    const size = fontSize * blockFontScale(block) * POINTS_PER_PX;
+    const pieces = block.runs.flatMap(run =>
+      unescapeDollars(run.text).split('\n').map((text, index) => ({ text, run, softBreakBefore: index > 0 }))
+    );
+    if (!pieces.length) pieces.push({ text: '', run: { text: '' }, softBreakBefore: false });
+    return pieces.map(({ text, run, softBreakBefore }, index): PptxGenJS.TextProps => ({
+      text,
+      options: {
+        ...(index === 0 ? paragraph : {}),
+        fontSize: size,
+        bold: run.bold || block.type === 'heading',
+        italic: run.italic,
+        underline: run.underline ? { style: 'sng' } : undefined,
+        color: hexColor(run.color),
+        highlight: hexColor(run.highlight),
+        softBreakBefore,
+        breakLine: index === pieces.length - 1 && blockIndex < content.length - 1,
+      },
+    }));
+  });
+
+// Typeset math has no PowerPoint text equivalent, so such items become pictures.
+const addMathText = async (slide: PptxGenJS.Slide, item: TextItem) => {
+  const image = await renderTextItemToImage(item);
+  const xEmu = (item.position[0] / 100) * SLIDE_WIDTH_EMU;
+  const centerYEmu = (item.position[1] / 100) * SLIDE_HEIGHT_EMU;
+  const heightEmu = image.height * EMU_PER_PX;
+  slide.addImage({
+    data: image.dataUrl.replace(/^data:/, ''),
+    x: toInches(xEmu),
+    y: toInches(centerYEmu - heightEmu / 2),
+    w: toInches(image.width * EMU_PER_PX),
+    h: toInches(heightEmu),
+    rotate: item.rotation,
+  });
+};
+
+const addText = (slide: PptxGenJS.Slide, item: TextItem) => {
+  const layout = layoutRichText(item.content, item.font_size, Math.max(1, item.width - TEXT_INSET_PX * 2));
+  const heightPx = layout.height + TEXT_INSET_PX * 2;
+  const xEmu = (item.position[0] / 100) * SLIDE_WIDTH_EMU;
+  const centerYEmu = (item.position[1] / 100) * SLIDE_HEIGHT_EMU;
+  const heightEmu = heightPx * EMU_PER_PX;
+  slide.addText(richTextToRuns(item.content, item.font_size), {
+    x: toInches(xEmu),
+    y: toInches(centerYEmu - heightEmu / 2),
+    w: toInches(item.width * EMU_PER_PX),
+    h: toInches(heightEmu),
+    rotate: item.rotation,
+    fontSize: item.font_size * POINTS_PER_PX,
+    fontFace: 'Arial',
+    color: '000000',
+    margin: TEXT_INSET_PX * POINTS_PER_PX,
+    valign: 'middle',
+    lineSpacingMultiple: LINE_HEIGHT,
+    fit: 'none',
+  });
+};
+
+const addImage = async (slide: PptxGenJS.Slide, item: ImageItem) => {
+  if (!item.src) return;
+  let data: string;
+  try {
+    // pptxgenjs expects "image/png;base64,..." without the "data:" scheme.
+    data = (await blobToDataUrl(await (await fetch(item.src)).blob())).replace(/^data:/, '');
+  } catch (e) {
+    console.error("Could not embed image", item.filename, e);
+    return;
+  }
+  const widthEmu = item.width * item.scale * EMU_PER_PX;
+  const heightEmu = item.height * item.scale * EMU_PER_PX;
+  const centerXEmu = (item.position[0] / 100) * SLIDE_WIDTH_EMU;
+  const centerYEmu = (item.position[1] / 100) * SLIDE_HEIGHT_EMU;
+  slide.addImage({
+    data,
+    x: toInches(centerXEmu - widthEmu / 2),
+    y: toInches(centerYEmu - heightEmu / 2),
+    w: toInches(widthEmu),
+    h: toInches(heightEmu),
+    rotate: item.rotation,
+    altText: item.filename,
+  });
+};
+
+// Graphs are drawn by function-plot in the browser, so they are embedded as pictures.
+const addGraph = async (slide: PptxGenJS.Slide, item: GraphItem) => {
+  let dataUrl: string;
+  try {
+    dataUrl = await renderGraphToImage(item.graph, item.width, item.height);
+  } catch (e) {
+    console.error("Could not render graph", item.id, e);
+    return;
+  }
+  const widthEmu = item.width * EMU_PER_PX;
+  const heightEmu = item.height * EMU_PER_PX;
+  const centerXEmu = (item.position[0] / 100) * SLIDE_WIDTH_EMU;
+  const centerYEmu = (item.position[1] / 100) * SLIDE_HEIGHT_EMU;
+  slide.addImage({
+    data: dataUrl.replace(/^data:/, ''),
+    x: toInches(centerXEmu - widthEmu / 2),
+    y: toInches(centerYEmu - heightEmu / 2),
+    w: toInches(widthEmu),
+    h: toInches(heightEmu),
+    rotate: item.rotation,
+    altText: 'Graph',
+  });
+};
+
+const DASH_TYPES = { solid: 'solid', dashed: 'dash', dotted: 'sysDot' } as const;
+
+const addShape = (pptx: PptxGenJS, slide: PptxGenJS.Slide, item: ShapeItem) => {
+  const widthEmu = item.width * EMU_PER_PX;
+  const heightEmu = item.height * EMU_PER_PX;
+  const centerXEmu = (item.position[0] / 100) * SLIDE_WIDTH_EMU;
+  const centerYEmu = (item.position[1] / 100) * SLIDE_HEIGHT_EMU;
+  const line = isLineShape(item);
+  const fillColor = hexColor(item.fill);
+  slide.addShape(line ? pptx.ShapeType.line : item.kind === 'ellipse' ? pptx.ShapeType.ellipse : pptx.ShapeType.rect, {
+    x: toInches(centerXEmu - widthEmu / 2),
+    // Lines run along the centre of the shape's box.
+    y: toInches(line ? centerYEmu : centerYEmu - heightEmu / 2),
+    w: toInches(widthEmu),
+    h: line ? 0 : toInches(heightEmu),
+    rotate: item.rotation,
+    fill: !line && fillColor ? { color: fillColor } : { type: 'none' },
+    line: item.stroke_width > 0
+      ? {
+          color: hexColor(item.stroke),
+          width: item.stroke_width * POINTS_PER_PX,
+          dashType: DASH_TYPES[item.dash],
+          ...(line && item.arrow_start ? { beginArrowType: 'triangle' as const } : {}),
+          ...(line && item.arrow_end ? { endArrowType: 'triangle' as const } : {}),
+        }
+      : { type: 'none' },
+  });
+};
+
+// Ink strokes become freeform shapes tracing the stroke's outline.
+const addInk = (slide: PptxGenJS.Slide, item: InkItem) => {
+  const emuPerUnit = item.scale * EMU_PER_PX;
+  const widthEmu = item.width * emuPerUnit;
+  const heightEmu = item.height * emuPerUnit;
+  const centerXEmu = (item.position[0] / 100) * SLIDE_WIDTH_EMU;
+  const centerYEmu = (item.position[1] / 100) * SLIDE_HEIGHT_EMU;
+  const outline = inkOutline(item);
+  if (outline.length < 3) return;
+  // Custom geometry is supported at runtime but missing from the typings.
+  slide.addShape('custGeom' as PptxGenJS.SHAPE_NAME, {
+    x: toInches(centerXEmu - widthEmu / 2),
+    y: toInches(centerYEmu - heightEmu / 2),
+    w: toInches(widthEmu),
+    h: toInches(heightEmu),
+    rotate: item.rotation,
+    fill: {
+      color: hexColor(item.color),
+      transparency: item.tool === 'highlighter' ? Math.round((1 - HIGHLIGHTER_OPACITY) * 100) : 0,
+    },
+    line: { type: 'none' },
+    points: [
+      ...outline.map(([x, y], index) => ({ x: toInches(x * emuPerUnit), y: toInches(y * emuPerUnit), moveTo: index === 0 })),
+      { close: true as const },
+    ],
+  });
+};
+
+/**
+ * Builds a PowerPoint deck from a board: text items become positioned text
+ * boxes (keeping their formatting), shapes and ink native PowerPoint shapes
+ * and image and graph items embedded pictures, with speaker notes carried
+ * over.
+ */
+export async function exportBoardToPptx(
+  data: BoardData,
+  title: string,
+  onProgress?: (progress: ExportProgress) => void
+): Promise<Blob> {
+  const pptx = new PptxGenJS();
+  pptx.defineLayout({ name: 'GRRAFFIA_16x9', width: toInches(SLIDE_WIDTH_EMU), height: toInches(SLIDE_HEIGHT_EMU) });
+  pptx.layout = 'GRRAFFIA_16x9';
+  pptx.title = title;
+
+  for (let index = 0; index < data.slides.length; index++) {
+    onProgress?.({ current: index + 1, total: data.slides.length });
+    const boardSlide = data.slides[index];
+    const slide = pptx.addSlide();
+    slide.background = { color: 'FFFFFF' };
+    // Layered as on the canvas.
+    for (const item of sortSlideItems(boardSlide.items)) {
+      if (item.type === 'image') await addImage(slide, item);
+      else if (item.type === 'shape') addShape(pptx, slide, item);
+      else if (item.type === 'ink') addInk(slide, item);
+      else if (item.type === 'graph') await addGraph(slide, item);
+      else if (containsMath(item.content)) await addMathText(slide, item);
+      else addText(slide, item);
+    }
+    if (boardSlide.notes) slide.addNotes(boardSlide.notes);
+  }
+
+  return (await pptx.write({ outputType: 'blob' })) as Blob;
+}
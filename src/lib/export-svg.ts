@@ -0,0 +1,258 @@
+import type { GraphItem, ImageItem, InkItem, RichText, ShapeItem, Slide, TextItem, TextRun } from '@/lib/board';
+import { blockFontScale, listNumberAt } from '@/lib/rich-text';
+import { containsMath, unescapeDollars } from '@/lib/math';
+import { renderTextItemToImage } from '@/lib/slide-render';
+import { shapeToSvgMarkup } from '@/lib/shapes';
+import { inkToSvgMarkup } from '@/lib/ink';
+import { graphToSvgMarkup } from '@/lib/graph-plot';
+import { escapeXml } from '@/lib/svg';
+import { SLIDE_REFERENCE_HEIGHT, SLIDE_REFERENCE_WIDTH, sortSlideItems } from '@/lib/slide-layout';
+
+const SLIDE_WIDTH = SLIDE_REFERENCE_WIDTH;
+const SLIDE_HEIGHT = SLIDE_REFERENCE_HEIGHT;
+// Matches the padding and border of text items on the canvas.
+const TEXT_INSET = 6;
+const LINE_HEIGHT = 1.2;
+// Left padding of lists, in ems of the item's font size.
+const LIST_INDENT_EM = 1.5;
+const FONT_FAMILY = 'Inter, sans-serif';
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const fontFor = (run: TextRun, fontSize: number) =>
+  `${run.italic ? 'italic ' : ''}${run.bold ? 'bold ' : ''}${fontSize}px ${FONT_FAMILY}`;
+
+const measureText = (text: string, font: string, fontSize: number) => {
+  if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * fontSize * 0.5;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+export interface LayoutSegment {
+  text: string;
+  run: TextRun;
+  x: number;
+  width: number;
+}
+
+export interface LayoutLine {
+  segments: LayoutSegment[];
+  fontSize: number;
+  // Offset of the line's first baseline box from the top of the text.
+  top: number;
+  height: number;
+  // List marker ('•' or '1.') drawn in the indent of a list item's first line.
+  marker?: { text: string; x: number };
+}
+
+export interface TextLayout {
+  lines: LayoutLine[];
+  height: number;
+}
+
+/**
+ * Lays out rich text the way the canvas does: blocks stack vertically,
+ * words wrap (then characters), list items are indented behind a marker
+ * and lines are aligned within `maxWidth`.
+ */
+export function layoutRichText(content: RichText, fontSize: number, maxWidth: number): TextLayout {
+  const lines: LayoutLine[] = [];
+  let top = 0;
+
+  content.forEach((block, blockIndex) => {
+    const blockSize = fontSize * blockFontScale(block);
+    const isList = block.type === 'bullet' || block.type === 'numbered';
+    const indent = isList ? fontSize * LIST_INDENT_EM : 0;
+    const available = Math.max(1, maxWidth - indent);
+    const styleOf = (run: TextRun): TextRun => (block.type === 'heading' ? { ...run, bold: true } : run);
+    const measure = (text: string, run: TextRun) => measureText(text, fontFor(run, blockSize), blockSize);
+
+    const blockLines: { text: string; run: TextRun }[][] = [];
+    let line: { text: string; run: TextRun }[] = [];
+    let lineWidth = 0;
+    const breakLine = () => {
+      blockLines.push(line);
+      line = [];
+      lineWidth = 0;
+    };
+
+    for (const rawRun of block.runs) {
+      const run = styleOf(rawRun);
+      for (const piece of unescapeDollars(rawRun.text).split(/(\n| )/)) {
+        if (!piece) continue;
+        if (piece === '\n') {
+          breakLine();
+          continue;
+        }
+        if (piece === ' ') {
+          if (line.length) {
+            line.push({ text: ' ', run });
+            lineWidth += measure(' ', run);
+          }
+          continue;
+        }
+        let word = piece;
+        let width = measure(word, run);
+        if (line.length && lineWidth + width > available) {
+          while (line.length && line[line.length - 1].text === ' ') line.pop();
+          breakLine();
+        }
+        while (!line.length && width > available && word.length > 1) {
+          let cut = word.length - 1;
+          while (cut > 1 && measure(word.slice(0, cut), run) > available) cut--;
+          line.push({ text: word.slice(0, cut), run });
+          breakLine();
+          word = word.slice(cut);
+          width = measure(word, run);
+        }
+        line.push({ text: word, run });
+        lineWidth += width;
+      }
+    }
+    blockLines.push(line);
+
+    const lineHeight = blockSize * LINE_HEIGHT;
+    blockLines.forEach((pieces, lineIndex) => {
+      while (pieces.length && pieces[pieces.length - 1].text === ' ') pieces.pop();
+      const segments: LayoutSegment[] = [];
+      let x = 0;
+      for (const piece of pieces) {
+        const width = measure(piece.text, piece.run);
+        const previous = segments[segments.length - 1];
+        if (previous && previous.run === piece.run) {
+          previous.text += piece.text;
+          previous.width += width;
+        } else {
+          segments.push({ text: piece.text, run: piece.run, x, width });
+        }
+        x += width;
+      }
+      const offset = block.align === 'center' ? (available - x) / 2 : block.align === 'right' ? available - x : 0;
+      for (const segment of segments) segment.x += indent + offset;
+
+      let marker: LayoutLine['marker'];
+      if (isList && lineIndex === 0) {
+        const text = block.type === 'bullet' ? '•' : `${listNumberAt(content, blockIndex)}.`;
+        marker = { text, x: indent - measureText(text, fontFor({ text }, fontSize), fontSize) - fontSize * 0.3 };
+      }
+      lines.push({ segments, fontSize: blockSize, top, height: lineHeight, marker });
+      top += lineHeight;
+    });
+  });
+
+  return { lines, height: top };
+}
+
+// SVG text cannot typeset math, so such items are embedded as images.
+const mathTextToSvg = async (item: TextItem) => {
+  const image = await renderTextItemToImage(item);
+  const left = (item.position[0] / 100) * SLIDE_WIDTH;
+  const centerY = (item.position[1] / 100) * SLIDE_HEIGHT;
+  return `<image href="${image.dataUrl}" x="${left}" y="${centerY - image.height / 2}" width="${image.width}" height="${image.height}" transform="rotate(${item.rotation} ${left + image.width / 2} ${centerY})"/>`;
+};
+
+const textToSvg = (item: TextItem) => {
+  if (containsMath(item.content)) return mathTextToSvg(item);
+  const innerWidth = Math.max(1, item.width - TEXT_INSET * 2);
+  const layout = layoutRichText(item.content, item.font_size, innerWidth);
+  const height = layout.height + TEXT_INSET * 2;
+  const left = (item.position[0] / 100) * SLIDE_WIDTH;
+  const centerY = (item.position[1] / 100) * SLIDE_HEIGHT;
+  const top = centerY - height / 2;
+  const centerX = left + item.width / 2;
+  const x = left + TEXT_INSET;
+
+  const elements: string[] = [];
+  for (const line of layout.lines) {
+    const baseline = top + TEXT_INSET + line.top + (line.height + line.fontSize * 0.7) / 2;
+    if (line.marker) {
+      elements.push(`<text x="${x + line.marker.x}" y="${baseline}" font-family="${FONT_FAMILY}" font-size="${item.font_size}" fill="black">${escapeXml(line.marker.text)}</text>`);
+    }
+    for (const segment of line.segments) {
+      if (segment.run.highlight) {
+        elements.push(`<rect x="${x + segment.x}" y="${baseline - line.fontSize * 0.9}" width="${segment.width}" height="${line.fontSize * 1.15}" fill="${escapeXml(segment.run.highlight)}"/>`);
+      }
+    }
+    if (!line.segments.length) continue;
+    const tspans = line.segments
+      .map(segment => {
+        const { run } = segment;
+        const attributes = [
+          `x="${x + segment.x}"`,
+          run.bold ? 'font-weight="bold"' : '',
+          run.italic ? 'font-style="italic"' : '',
+          run.underline ? 'text-decoration="underline"' : '',
+          run.color ? `fill="${escapeXml(run.color)}"` : '',
+        ].filter(Boolean).join(' ');
+        return `<tspan ${attributes}>${escapeXml(segment.text)}</tspan>`;
+      })
+      .join('');
+    elements.push(`<text y="${baseline}" font-family="${FONT_FAMILY}" font-size="${line.fontSize}" fill="black" xml:space="preserve">${tspans}</text>`);
+  }
+  return `<g transform="rotate(${item.rotation} ${centerX} ${centerY})">${elements.join('')}</g>`;
+};
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const imageToSvg = async (item: ImageItem) => {
+  if (!item.src) return '';
+  let href = item.src;
+  try {
+    href = await blobToDataUrl(await (await fetch(item.src)).blob());
+  } catch (e) {
+    console.error("Could not embed image", item.filename, e);
+  }
+  const cx = (item.position[0] / 100) * SLIDE_WIDTH;
+  const cy = (item.position[1] / 100) * SLIDE_HEIGHT;
+  return `<image href="${escapeXml(href)}" x="${-item.width / 2}" y="${-item.height / 2}" width="${item.width}" height="${item.height}" preserveAspectRatio="xMidYMid meet" transform="translate(${cx} ${cy}) rotate(${item.rotation}) scale(${item.scale})"/>`;
+};
+
+const shapeToSvg = (item: ShapeItem) => {
+  const cx = (item.position[0] / 100) * SLIDE_WIDTH;
+  const cy = (item.position[1] / 100) * SLIDE_HEIGHT;
+  return `<g transform="translate(${cx} ${cy}) rotate(${item.rotation}) translate(${-item.width / 2} ${-item.height / 2})">${shapeToSvgMarkup(item)}</g>`;
+};
+
+const graphToSvg = (item: GraphItem) => {
+  const cx = (item.position[0] / 100) * SLIDE_WIDTH;
+  const cy = (item.position[1] / 100) * SLIDE_HEIGHT;
+  return `<g transform="translate(${cx} ${cy}) rotate(${item.rotation}) translate(${-item.width / 2} ${-item.height / 2})">${graphToSvgMarkup(item.graph, item.width, item.height)}</g>`;
+};
+
+const inkToSvg = (item: InkItem) => {
+  const cx = (item.position[0] / 100) * SLIDE_WIDTH;
+  const cy = (item.position[1] / 100) * SLIDE_HEIGHT;
+  return `<g transform="translate(${cx} ${cy}) rotate(${item.rotation}) scale(${item.scale}) translate(${-item.width / 2} ${-item.height / 2})">${inkToSvgMarkup(item)}</g>`;
+};
+
+/**
+ * Serializes a slide to a standalone SVG document. Text stays as real
+ * `<text>` elements (wrapped to the item width, keeping its formatting)
+ * and images and graphs are embedded. Text containing math is embedded as
+ * an image.
+ */
+export async function slideToSvg(slide: Slide, width: number = SLIDE_WIDTH): Promise<string> {
+  const height = Math.round((width * 9) / 16);
+  const elements: string[] = [];
+  // Layered as on the canvas.
+  for (const item of sortSlideItems(slide.items)) {
+    if (item.type === 'image') elements.push(await imageToSvg(item));
+    else if (item.type === 'shape') elements.push(shapeToSvg(item));
+    else if (item.type === 'ink') elements.push(inkToSvg(item));
+    else if (item.type === 'graph') elements.push(graphToSvg(item));
+    else elements.push(await textToSvg(item));
+  }
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${SLIDE_WIDTH} ${SLIDE_HEIGHT}">`,
+    `<rect width="${SLIDE_WIDTH}" height="${SLIDE_HEIGHT}" fill="white"/>`,
+    ...elements,
+    '</svg>',
+  ].join('\n');
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applySuggestion,
+  checkNames,
+  collectSymbols,
+  compileExpression,
+  ExpressionError,
+  formatNumber,
+  parseExpression,
+  toPlotScope,
+  toPlotSyntax,
+  withDegrees,
+  type Scope,
+} from '@/lib/expression';
+
+const evaluate = (source: string, scope: Scope = {}) => compileExpression(parseExpression(source))(scope);
+
+const errorOf = (run: () => void): ExpressionError => {
+  try {
+    run();
+  } catch (err) {
+    if (err instanceof ExpressionError) return err;
+    throw err;
+  }
+  throw new Error('Expected an ExpressionError');
+};
+
+describe('parseExpression', () => {
+  it('follows the usual precedence and associativity', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('-2^2')).toBe(-4);
+    expect(evaluate('2^3^2')).toBe(512);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+  });
+
+  it('reads implicit multiplication, absolute value bars and operator aliases', () => {
+    expect(evaluate('2x', { x: 3 })).toBe(6);
+    expect(evaluate('2(x + 1)', { x: 3 })).toBe(8);
+    expect(evaluate('x y', { x: 3, y: 2 })).toBe(6);
+    expect(evaluate('|x - 5|', { x: 3 })).toBe(2);
+    expect(evaluate('6 ÷ 2 × 3 − 1')).toBe(8);
+  });
+
+  it('evaluates constants and functions', () => {
+    expect(evaluate('π')).toBe(Math.PI);
+    expect(evaluate('2 pi')).toBe(2 * Math.PI);
+    expect(evaluate('max(1, x)', { x: 3 })).toBe(3);
+    expect(evaluate('ln(e)')).toBe(1);
+    expect(evaluate('log(1000)')).toBe(3);
+  });
+
+  it('locates syntax errors', () => {
+    expect(errorOf(() => parseExpression('1 +* 2'))).toMatchObject({ message: 'Unexpected "*".', position: 3, length: 1 });
+    expect(errorOf(() => parseExpression('1 +'))).toMatchObject({ message: 'Expression ends unexpectedly.', position: 3 });
+    expect(errorOf(() => parseExpression('(1 + 2')).message).toBe('Missing closing bracket.');
+  });
+
+  it('suggests brackets for function arguments', () => {
+    const error = errorOf(() => parseExpression('sin x'));
+    expect(error.replacement).toBe('sin(x)');
+    expect(applySuggestion('sin x + 1', error)).toBe('sin(x) + 1');
+  });
+});
+
+describe('checkNames', () => {
+  const check = (source: string) => checkNames(parseExpression(source), ['x', 'y', 'theta']);
+
+  it('accepts variables, constants and known functions', () => {
+    expect(() => check('sin(x) + e * y - pi')).not.toThrow();
+  });
+
+  it.each([
+    ['sinx', 'sin(x)'],
+    ['xy', 'x*y'],
+    ['tehta', 'theta'],
+    ['sine(x)', 'sin(x)'],
+    ['x + sqr(x)', 'x + sqrt(x)'],
+  ])('suggests a fix for %s', (source, fixed) => {
+    expect(applySuggestion(source, errorOf(() => check(source)))).toBe(fixed);
+  });
+
+  it('reports unknown names without a suggestion when none is close', () => {
+    const error = errorOf(() => check('2 + z'));
+    expect(error).toMatchObject({ message: 'Unknown name "z".', position: 4, length: 1 });
+    expect(applySuggestion('2 + z', error)).toBeNull();
+  });
+});
+
+describe('compileExpression', () => {
+  it('evaluates names missing from the scope to NaN', () => {
+    expect(evaluate('x + 1')).toBeNaN();
+  });
+
+  it('lets the scope shadow constants', () => {
+    expect(evaluate('e', { e: 2 })).toBe(2);
+  });
+});
+
+describe('withDegrees', () => {
+  it('makes trig functions take and give degrees', () => {
+    expect(compileExpression(withDegrees(parseExpression('sin(30)')))({})).toBeCloseTo(0.5);
+    expect(compileExpression(withDegrees(parseExpression('asin(1)')))({})).toBeCloseTo(90);
+    expect(compileExpression(withDegrees(parseExpression('sqrt(16)')))({})).toBe(4);
+  });
+});
+
+describe('collectSymbols', () => {
+  it('lists each name once, in order of use', () => {
+    expect(collectSymbols(parseExpression('a*x^2 + b*x + a + pi'))).toEqual(['a', 'x', 'b', 'pi']);
+  });
+});
+
+describe('toPlotSyntax', () => {
+  it('writes function-plot names for functions and Greek letters', () => {
+    expect(toPlotSyntax(parseExpression('ln(x) + 2*α - cbrt(x)'))).toBe('((log(x) + (2 * alpha)) - nthRoot(x, 3))');
+    expect(toPlotScope({ α: 1, x: 2 })).toEqual({ alpha: 1, x: 2 });
+  });
+
+  it('never writes numbers in exponent notation', () => {
+    expect(toPlotSyntax(parseExpression('x * 10^30'))).not.toMatch(/e/);
+    expect(toPlotSyntax({ type: 'number', value: 1.5e-10 })).toBe('0.00000000015');
+  });
+});
+
+describe('formatNumber', () => {
+  it.each([0, 1.5, -2, 1e21, 1.234e25, -5e-7, 1.5e-10, 1e300, Number.MIN_VALUE, 123456789012345680000])(
+    'writes %d in plain digits that read back exactly',
+    value => {
+      const text = formatNumber(value);
+      expect(text).toMatch(/^-?\d+(\.\d+)?$/);
+      expect(Number(text)).toBe(value);
+    }
+  );
+});
@@ -0,0 +1,519 @@
+// Parser for the math expressions typed into the graphing calculator.
+// Expressions are parsed into a small syntax tree so each formula can be
+// checked on its own, with the position of the problem and a suggested
+// fix, before anything is handed to function-plot.
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^';
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  // `start` and `end` locate names in the source, for error messages.
+  | { type: 'symbol'; name: string; start?: number; end?: number }
+  | { type: 'negate'; argument: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[]; start?: number; end?: number };
+
+interface MathFunction {
+  arity: number;
+  evaluate: (...args: number[]) => number;
+  // function-plot syntax for a call, given its already converted arguments.
+  plot?: (args: string[]) => string;
+}
+
+export const MATH_FUNCTIONS: Record<string, MathFunction> = {
+  sin: { arity: 1, evaluate: Math.sin },
+  cos: { arity: 1, evaluate: Math.cos },
+  tan: { arity: 1, evaluate: Math.tan },
+  sec: { arity: 1, evaluate: x => 1 / Math.cos(x), plot: ([x]) => `(1 / cos(${x}))` },
+  csc: { arity: 1, evaluate: x => 1 / Math.sin(x), plot: ([x]) => `(1 / sin(${x}))` },
+  cot: { arity: 1, evaluate: x => 1 / Math.tan(x), plot: ([x]) => `(1 / tan(${x}))` },
+  asin: { arity: 1, evaluate: Math.asin },
+  acos: { arity: 1, evaluate: Math.acos },
+  atan: { arity: 1, evaluate: Math.atan },
+  sinh: { arity: 1, evaluate: Math.sinh },
+  cosh: { arity: 1, evaluate: Math.cosh },
+  tanh: { arity: 1, evaluate: Math.tanh },
+  sqrt: { arity: 1, evaluate: Math.sqrt },
+  cbrt: { arity: 1, evaluate: Math.cbrt, plot: ([x]) => `nthRoot(${x}, 3)` },
+  exp: { arity: 1, evaluate: Math.exp },
+  // Natural logarithm.
+  ln: { arity: 1, evaluate: Math.log, plot: ([x]) => `log(${x})` },
+  // Base-10 logarithm, as on school calculators.
+  log: { arity: 1, evaluate: Math.log10, plot: ([x]) => `log10(${x})` },
+  abs: { arity: 1, evaluate: Math.abs },
+  min: { arity: 2, evaluate: Math.min },
+  max: { arity: 2, evaluate: Math.max },
+};
+
+export const MATH_CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  'π': Math.PI,
+  e: Math.E,
+};
+
+// Greek letters that can be typed as names, with the names function-plot
+// knows them by, since its parser reads only ASCII.
+export const GREEK_LETTERS: Record<string, string> = {
+  'α': 'alpha', 'β': 'beta', 'γ': 'gamma', 'δ': 'delta', 'ε': 'epsilon', 'ζ': 'zeta',
+  'η': 'eta', 'θ': 'theta', 'κ': 'kappa', 'λ': 'lambda', 'μ': 'mu', 'ν': 'nu',
+  'ξ': 'xi', 'ρ': 'rho', 'σ': 'sigma', 'τ': 'tau', 'φ': 'phi', 'χ': 'chi',
+  'ψ': 'psi', 'ω': 'omega',
+};
+
+const isFunctionName = (name: string) => Object.prototype.hasOwnProperty.call(MATH_FUNCTIONS, name);
+const isConstantName = (name: string) => Object.prototype.hasOwnProperty.call(MATH_CONSTANTS, name);
+
+/** A problem in an expression, located by character offset into the source. */
+export class ExpressionError extends Error {
+  position: number;
+  length: number;
+  // Text to put in place of the located range to fix the problem, if known.
+  replacement?: string;
+
+  constructor(message: string, position: number, length = 1, replacement?: string) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.position = position;
+    this.length = length;
+    this.replacement = replacement;
+  }
+}
+
+/** The expression with an error's suggested fix applied, or null if it has none. */
+export function applySuggestion(source: string, error: ExpressionError): string | null {
+  if (error.replacement === undefined) return null;
+  return source.slice(0, error.position) + error.replacement + source.slice(error.position + error.length);
+}
+
+type TokenType = 'number' | 'name' | 'operator' | '(' | ')' | ',' | '|' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const NAME_START = /[A-Za-zͰ-Ͽ]/;
+const OPERATOR_ALIASES: Record<string, string> = { '×': '*', '·': '*', '÷': '/', '−': '-' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    const start = index;
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(index));
+      if (!match) throw new ExpressionError(`Unexpected "${char}".`, index);
+      index += match[0].length;
+      tokens.push({ type: 'number', text: match[0], start, end: index });
+    } else if (NAME_START.test(char)) {
+      while (index < source.length && NAME_START.test(source[index])) index++;
+      tokens.push({ type: 'name', text: source.slice(start, index), start, end: index });
+    } else if ('+-*/^'.includes(char) || char in OPERATOR_ALIASES) {
+      index++;
+      tokens.push({ type: 'operator', text: OPERATOR_ALIASES[char] ?? char, start, end: index });
+    } else if (char === '(' || char === ')' || char === ',' || char === '|') {
+      index++;
+      tokens.push({ type: char, text: char, start, end: index });
+    } else {
+      throw new ExpressionError(`Unexpected "${char}".`, index);
+    }
+  }
+  tokens.push({ type: 'end', text: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  // Open `|` bars; inside them a `|` closes rather than starts a term.
+  private absDepth = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'end') throw new ExpressionError('Expression is empty.', 0, 0);
+    const node = this.parseSum();
+    const token = this.peek();
+    if (token.type === ')') throw new ExpressionError('Unmatched closing bracket.', token.start);
+    if (token.type !== 'end') throw new ExpressionError(`Unexpected "${token.text}".`, token.start, token.end - token.start);
+    return node;
+  }
+
+  private peek() {
+    return this.tokens[this.index];
+  }
+
+  private next() {
+    return this.tokens[this.index++];
+  }
+
+  private parseSum(): ExpressionNode {
+    let node = this.parseProduct();
+    while (this.peek().type === 'operator' && (this.peek().text === '+' || this.peek().text === '-')) {
+      const operator = this.next().text as BinaryOperator;
+      node = { type: 'binary', operator, left: node, right: this.parseProduct() };
+    }
+    return node;
+  }
+
+  // Whether the next token can start a factor written right after another,
+  // as in `2x` or `(x + 1)(x - 1)`.
+  private startsImplicitFactor() {
+    const { type } = this.peek();
+    return type === 'number' || type === 'name' || type === '(' || (type === '|' && this.absDepth === 0);
+  }
+
+  private parseProduct(): ExpressionNode {
+    let node = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'operator' && (token.text === '*' || token.text === '/')) {
+        this.next();
+        node = { type: 'binary', operator: token.text, left: node, right: this.parseUnary() };
+      } else if (this.startsImplicitFactor()) {
+        node = { type: 'binary', operator: '*', left: node, right: this.parseUnary() };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.text === '-' || token.text === '+')) {
+      this.next();
+      const argument = this.parseUnary();
+      return token.text === '-' ? { type: 'negate', argument } : argument;
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePrimary();
+    if (this.peek().type === 'operator' && this.peek().text === '^') {
+      this.next();
+      // Right-associative, and allows a sign: 2^-x.
+      return { type: 'binary', operator: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private expect(type: TokenType, open: Token) {
+    const token = this.peek();
+    if (token.type === type) return this.next();
+    if (token.type === 'end') {
+      const what = type === ')' ? 'closing bracket' : `closing "${type}"`;
+      throw new ExpressionError(`Missing ${what}.`, open.start, open.end - open.start);
+    }
+    throw new ExpressionError(`Expected "${type}" but found "${token.text}".`, token.start, token.end - token.start);
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.text) };
+      case '(': {
+        if (this.peek().type === ')') throw new ExpressionError('Empty brackets.', token.start, this.peek().end - token.start);
+        const node = this.parseSum();
+        this.expect(')', token);
+        return node;
+      }
+      case '|': {
+        this.absDepth++;
+        const node = this.parseSum();
+        this.absDepth--;
+        this.expect('|', token);
+        return { type: 'call', name: 'abs', args: [node], start: token.start, end: token.end };
+      }
+      case 'name':
+        return this.parseName(token);
+      case 'end':
+        throw new ExpressionError('Expression ends unexpectedly.', token.start, 0);
+      default:
+        throw new ExpressionError(`Unexpected "${token.text}".`, token.start, token.end - token.start);
+    }
+  }
+
+  private parseName(token: Token): ExpressionNode {
+    const fn = isFunctionName(token.text) ? MATH_FUNCTIONS[token.text] : null;
+    // Single letters and constants before a bracket are multiplied, as in
+    // `a(x + 1)`; other names are calls, reported later if unknown.
+    const isCall = fn || (token.text.length > 1 && !isConstantName(token.text));
+    if (this.peek().type === '(' && isCall) {
+      const open = this.next();
+      const args: ExpressionNode[] = [];
+      if (this.peek().type !== ')') {
+        args.push(this.parseSum());
+        while (this.peek().type === ',') {
+          this.next();
+          args.push(this.parseSum());
+        }
+      }
+      const close = this.expect(')', open);
+      if (fn && args.length !== fn.arity) {
+        throw new ExpressionError(
+          `${token.text} takes ${fn.arity} argument${fn.arity === 1 ? '' : 's'}.`,
+          token.start,
+          close.end - token.start
+        );
+      }
+      return { type: 'call', name: token.text, args, start: token.start, end: token.end };
+    }
+    if (fn) {
+      // `sin x`: show where the brackets go.
+      if (!this.startsImplicitFactor()) {
+        throw new ExpressionError(`${token.text} needs brackets, e.g. ${token.text}(x).`, token.start, token.end - token.start);
+      }
+      const argumentStart = this.peek().start;
+      let argument = this.parseUnary();
+      while (this.startsImplicitFactor()) argument = { type: 'binary', operator: '*', left: argument, right: this.parseUnary() };
+      const argumentEnd = this.tokens[this.index - 1].end;
+      throw new ExpressionError(
+        `${token.text} needs brackets around its argument.`,
+        token.start,
+        argumentEnd - token.start,
+        `${token.text}(${this.source.slice(argumentStart, argumentEnd)})`
+      );
+    }
+    return { type: 'symbol', name: token.text, start: token.start, end: token.end };
+  }
+}
+
+/** Parses an expression, throwing an ExpressionError for syntax errors. */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(source).parse();
+}
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Splits run-together names such as `xy` into known ones.
+const splitNames = (name: string, known: string[]): string[] | null => {
+  if (!name) return [];
+  for (const candidate of [...known].sort((a, b) => b.length - a.length)) {
+    if (!name.startsWith(candidate)) continue;
+    const rest = splitNames(name.slice(candidate.length), known);
+    if (rest) return [candidate, ...rest];
+  }
+  return null;
+};
+
+const closestName = (name: string, candidates: string[]) => {
+  // Any one- or two-letter name is a typo away from another.
+  if (name.length <= 2) return null;
+  const maxDistance = name.length > 3 ? 2 : 1;
+  let best: string | null = null;
+  let bestDistance = maxDistance + 1;
+  for (const candidate of candidates) {
+    const distance = levenshtein(name, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+/** Likely intended text for an unknown name, e.g. `sinx` → `sin(x)`. */
+function suggestForName(name: string, known: string[]): string | null {
+  const functionNames = Object.keys(MATH_FUNCTIONS).sort((a, b) => b.length - a.length);
+  const fn = functionNames.find(candidate => name.length > candidate.length && name.startsWith(candidate));
+  if (fn) {
+    const argument = splitNames(name.slice(fn.length), known);
+    if (argument) return `${fn}(${argument.join('*')})`;
+  }
+  const parts = splitNames(name, known);
+  if (parts && parts.length > 1) return parts.join('*');
+  return closestName(name, known);
+}
+
+/**
+ * Checks that an expression only uses the given variables, known constants
+ * and known functions, throwing an ExpressionError for the first that is not.
+ */
+export function checkNames(node: ExpressionNode, variables: string[]): void {
+  const known = [...variables, ...Object.keys(MATH_CONSTANTS)];
+  const visit = (current: ExpressionNode): void => {
+    switch (current.type) {
+      case 'symbol':
+        if (!known.includes(current.name)) {
+          const suggestion = suggestForName(current.name, known);
+          throw new ExpressionError(
+            `Unknown name "${current.name}".`,
+            current.start ?? 0,
+            (current.end ?? 0) - (current.start ?? 0),
+            suggestion ?? undefined
+          );
+        }
+        return;
+      case 'call':
+        if (!isFunctionName(current.name)) {
+          const suggestion = closestName(current.name, Object.keys(MATH_FUNCTIONS));
+          throw new ExpressionError(
+            `Unknown function "${current.name}".`,
+            current.start ?? 0,
+            (current.end ?? 0) - (current.start ?? 0),
+            suggestion ?? undefined
+          );
+        }
+        current.args.forEach(visit);
+        return;
+      case 'negate':
+        return visit(current.argument);
+      case 'binary':
+        visit(current.left);
+        return visit(current.right);
+    }
+  };
+  visit(node);
+}
+
+/** A number as a node, negative values as a negation of their magnitude. */
+export const numberNode = (value: number): ExpressionNode =>
+  value < 0 ? { type: 'negate', argument: { type: 'number', value: -value } } : { type: 'number', value };
+
+/** A number in plain decimal digits; function-plot's parser does not read exponent notation. */
+export const formatNumber = (value: number) => {
+  const text = String(value);
+  const match = /^(-?)(\d)(?:\.(\d+))?e([+-]\d+)$/.exec(text);
+  if (!match) return text;
+  const [, sign, head, tail = '', exponent] = match;
+  const digits = head + tail;
+  // Where the decimal point goes among `digits`.
+  const point = 1 + Number(exponent);
+  if (point <= 0) return `${sign}0.${'0'.repeat(-point)}${digits}`;
+  if (point >= digits.length) return sign + digits.padEnd(point, '0');
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+};
+
+export type Scope = Record<string, number>;
+
+const plotName = (name: string) => GREEK_LETTERS[name] ?? name;
+
+/** A scope with its names as toPlotSyntax writes them. */
+export const toPlotScope = (scope: Scope): Scope =>
+  Object.fromEntries(Object.entries(scope).map(([name, value]) => [plotName(name), value]));
+
+/** Converts an expression to the syntax function-plot evaluates. */
+export function toPlotSyntax(node: ExpressionNode): string {
+  switch (node.type) {
+    case 'number':
+      return formatNumber(node.value);
+    case 'symbol':
+      if (isConstantName(node.name)) return formatNumber(MATH_CONSTANTS[node.name]);
+      // function-plot names the polar angle `theta`, as GREEK_LETTERS does.
+      return plotName(node.name);
+    case 'negate':
+      return `(-${toPlotSyntax(node.argument)})`;
+    case 'binary':
+      return `(${toPlotSyntax(node.left)} ${node.operator} ${toPlotSyntax(node.right)})`;
+    case 'call': {
+      const args = node.args.map(toPlotSyntax);
+      const fn = isFunctionName(node.name) ? MATH_FUNCTIONS[node.name] : null;
+      return fn?.plot ? fn.plot(args) : `${node.name}(${args.join(', ')})`;
+    }
+  }
+}
+
+
+const BINARY_OPERATIONS: Record<BinaryOperator, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '^': Math.pow,
+};
+
+/**
+ * Compiles an expression to a function of its variables. Constants are
+ * built in; names missing from the scope evaluate to NaN.
+ */
+export function compileExpression(node: ExpressionNode): (scope: Scope) => number {
+  switch (node.type) {
+    case 'number': {
+      const { value } = node;
+      return () => value;
+    }
+    case 'symbol': {
+      const { name } = node;
+      const constant = isConstantName(name) ? MATH_CONSTANTS[name] : NaN;
+      return scope => (Object.prototype.hasOwnProperty.call(scope, name) ? scope[name] : constant);
+    }
+    case 'negate': {
+      const argument = compileExpression(node.argument);
+      return scope => -argument(scope);
+    }
+    case 'binary': {
+      const left = compileExpression(node.left);
+      const right = compileExpression(node.right);
+      const apply = BINARY_OPERATIONS[node.operator];
+      return scope => apply(left(scope), right(scope));
+    }
+    case 'call': {
+      if (!isFunctionName(node.name)) return () => NaN;
+      const { evaluate } = MATH_FUNCTIONS[node.name];
+      const args = node.args.map(compileExpression);
+      return scope => evaluate(...args.map(arg => arg(scope)));
+    }
+  }
+}
+
+const TRIG_FUNCTIONS = ['sin', 'cos', 'tan', 'sec', 'csc', 'cot'];
+const INVERSE_TRIG_FUNCTIONS = ['asin', 'acos', 'atan'];
+
+/** The expression with trig functions taking, and inverse trig functions giving, degrees. */
+export function withDegrees(node: ExpressionNode): ExpressionNode {
+  switch (node.type) {
+    case 'number':
+    case 'symbol':
+      return node;
+    case 'negate':
+      return { ...node, argument: withDegrees(node.argument) };
+    case 'binary':
+      return { ...node, left: withDegrees(node.left), right: withDegrees(node.right) };
+    case 'call': {
+      const args = node.args.map(withDegrees);
+      if (TRIG_FUNCTIONS.includes(node.name)) {
+        return { ...node, args: [{ type: 'binary', operator: '*', left: args[0], right: numberNode(Math.PI / 180) }] };
+      }
+      const call: ExpressionNode = { ...node, args };
+      return INVERSE_TRIG_FUNCTIONS.includes(node.name)
+        ? { type: 'binary', operator: '*', left: call, right: numberNode(180 / Math.PI) }
+        : call;
+    }
+  }
+}
+
+/** Names of the variables and constants an expression uses, each once. */
+export function collectSymbols(node: ExpressionNode): string[] {
+  const names = new Set<string>();
+  const visit = (current: ExpressionNode): void => {
+    if (current.type === 'symbol') names.add(current.name);
+    else if (current.type === 'negate') visit(current.argument);
+    else if (current.type === 'binary') {
+      visit(current.left);
+      visit(current.right);
+    } else if (current.type === 'call') current.args.forEach(visit);
+  };
+  visit(node);
+  return Array.from(names);
+}
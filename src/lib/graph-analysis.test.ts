@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createFormula, createGraph, createParameter } from '@/lib/graph';
+import {
+  analysisCurves,
+  findGraphPoints,
+  findZeros,
+  tangentAt,
+  type AnalysisCurve,
+} from '@/lib/graph-analysis';
+
+const curve = (fn: (x: number) => number, id = 'f'): AnalysisCurve => ({ id, color: '#000', fn });
+
+describe('findZeros', () => {
+  it('refines sign changes and keeps zeros that land on a sample', () => {
+    const zeros = findZeros(x => x * x - 2, [-5, 5]);
+    expect(zeros).toHaveLength(2);
+    expect(zeros[0]).toBeCloseTo(-Math.SQRT2, 10);
+    expect(zeros[1]).toBeCloseTo(Math.SQRT2, 10);
+    expect(findZeros(x => x, [-1, 1])).toEqual([0]);
+  });
+
+  it('skips sign changes at poles', () => {
+    expect(findZeros(Math.tan, [1, 2])).toEqual([]);
+    expect(findZeros(x => 1 / x, [-1, 2])).toEqual([]);
+  });
+});
+
+describe('findGraphPoints', () => {
+  it('marks zeros and extrema of a curve', () => {
+    const points = findGraphPoints([curve(x => x * x - 1)], [-3, 3]);
+    expect(points.map(point => point.kind)).toEqual(['zero', 'zero', 'minimum']);
+    const minimum = points[2];
+    expect(minimum.x).toBeCloseTo(0, 6);
+    expect(minimum.y).toBeCloseTo(-1, 10);
+  });
+
+  it('marks intersections at the height of the curves', () => {
+    const points = findGraphPoints([curve(x => x, 'a'), curve(x => 4 - x, 'b')], [-10, 10])
+      .filter(point => point.kind === 'intersection');
+    expect(points).toHaveLength(1);
+    expect(points[0].x).toBeCloseTo(2, 10);
+    expect(points[0].y).toBeCloseTo(2, 10);
+  });
+
+  it('reports no extrema at the poles of tan', () => {
+    const points = findGraphPoints([curve(Math.tan)], [-3, 3]);
+    expect(points).toHaveLength(1);
+    expect(points[0]).toMatchObject({ kind: 'zero', y: 0 });
+    expect(points[0].x).toBeCloseTo(0, 10);
+  });
+});
+
+describe('analysisCurves', () => {
+  it('evaluates function formulas with their slider values and skips the rest', () => {
+    const graph = {
+      ...createGraph(),
+      formulas: [createFormula('a*x', 0), createFormula('x^2 + y^2 = 1', 1, 'implicit')],
+      parameters: [{ ...createParameter('a'), value: 3 }],
+    };
+    const curves = analysisCurves(graph);
+    expect(curves).toHaveLength(1);
+    expect(curves[0].fn(2)).toBe(6);
+  });
+});
+
+describe('tangentAt', () => {
+  it('gives the slope where the curve is defined', () => {
+    const tangent = tangentAt(curve(x => x * x), 3);
+    expect(tangent?.y).toBe(9);
+    expect(tangent?.slope).toBeCloseTo(6, 6);
+    expect(tangentAt(curve(Math.sqrt), -1)).toBeNull();
+  });
+});
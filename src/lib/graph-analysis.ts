@@ -0,0 +1,243 @@
+// Numerical analysis of the y = f(x) formulas of a graph: zeros, extrema,
+// intersections and tangents, found by sampling the visible domain and
+// refining each candidate locally.
+
+import { compileExpression, numberNode, type ExpressionNode } from '@/lib/expression';
+import { parameterScope, parseFormula, type Graph } from '@/lib/graph';
+
+export type GraphPointKind = 'zero' | 'minimum' | 'maximum' | 'intersection' | 'tangent';
+
+export interface GraphPoint {
+  kind: GraphPointKind;
+  x: number;
+  y: number;
+  color: string;
+}
+
+export interface AnalysisCurve {
+  // Id of the formula the curve is drawn from.
+  id: string;
+  color: string;
+  fn: (x: number) => number;
+}
+
+export interface Tangent {
+  x: number;
+  y: number;
+  slope: number;
+}
+
+export const POINT_KIND_LABELS: Record<GraphPointKind, string> = {
+  zero: 'Zero',
+  minimum: 'Minimum',
+  maximum: 'Maximum',
+  intersection: 'Intersection',
+  tangent: 'Tangent point',
+};
+
+// Samples across the visible domain when looking for candidates.
+const SAMPLES = 500;
+const REFINE_STEPS = 60;
+// A sign change counts as a zero only if the refined value is this small,
+// so jumps such as tan(x) at π/2 are not reported.
+const ZERO_TOLERANCE = 1e-6;
+
+/** The formulas that are valid functions of x, with their parameter values. */
+export function analysisCurves(graph: Graph): AnalysisCurve[] {
+  const curves: AnalysisCurve[] = [];
+  for (const formula of graph.formulas) {
+    const { shape, parameters } = parseFormula(formula, graph.angle_mode);
+    if (shape?.type !== 'function') continue;
+    const compiled = compileExpression(shape.fn);
+    const scope = parameterScope(graph.parameters, parameters);
+    curves.push({ id: formula.id, color: formula.color, fn: x => compiled({ ...scope, x }) });
+  }
+  return curves;
+}
+
+// Bisects a sign change of `fn` between a and b.
+function refineZero(fn: (x: number) => number, a: number, b: number): number | null {
+  let fa = fn(a);
+  for (let i = 0; i < REFINE_STEPS; i++) {
+    const middle = (a + b) / 2;
+    const fm = fn(middle);
+    if (fm === 0) return middle;
+    if (Math.sign(fm) === Math.sign(fa)) {
+      a = middle;
+      fa = fm;
+    } else {
+      b = middle;
+    }
+  }
+  const root = (a + b) / 2;
+  return Math.abs(fn(root)) < ZERO_TOLERANCE ? root : null;
+}
+
+// Golden-section search for the largest value of `fn` between a and b.
+function refineMaximum(fn: (x: number) => number, a: number, b: number): number {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let c = b - ratio * (b - a);
+  let d = a + ratio * (b - a);
+  for (let i = 0; i < REFINE_STEPS; i++) {
+    if (fn(c) > fn(d)) b = d;
+    else a = c;
+    c = b - ratio * (b - a);
+    d = a + ratio * (b - a);
+  }
+  return (a + b) / 2;
+}
+
+const sample = (fn: (x: number) => number, [start, end]: [number, number], samples = SAMPLES) => {
+  const xs = Array.from({ length: samples + 1 }, (_, i) => start + ((end - start) * i) / samples);
+  return { xs, ys: xs.map(fn) };
+};
+
+/** Where `fn` crosses zero with x in `domain`, found by sign changes. */
+export function findZeros(fn: (x: number) => number, domain: [number, number], samples = SAMPLES): number[] {
+  const { xs, ys } = sample(fn, domain, samples);
+  const zeros: number[] = [];
+  for (let i = 0; i < xs.length; i++) {
+    if (ys[i] === 0) zeros.push(xs[i]);
+    else if (i + 1 < xs.length && ys[i] * ys[i + 1] < 0) {
+      const zero = refineZero(fn, xs[i], xs[i + 1]);
+      if (zero !== null) zeros.push(zero);
+    }
+  }
+  return zeros;
+}
+
+function findExtrema(curve: AnalysisCurve, domain: [number, number]): GraphPoint[] {
+  const { xs, ys } = sample(curve.fn, domain);
+  const points: GraphPoint[] = [];
+  for (let i = 1; i + 1 < xs.length; i++) {
+    const [before, value, after] = [ys[i - 1], ys[i], ys[i + 1]];
+    if (![before, value, after].every(Number.isFinite)) continue;
+    const kind = value > before && value >= after ? 'maximum' : value < before && value <= after ? 'minimum' : null;
+    if (!kind) continue;
+    const sign = kind === 'maximum' ? 1 : -1;
+    const x = refineMaximum(t => sign * curve.fn(t), xs[i - 1], xs[i + 1]);
+    const y = curve.fn(x);
+    // Near a pole, as with tan(x), the refined value runs off far beyond
+    // the samples; a real extremum stays close to them.
+    if (Math.abs(y - value) > Math.abs(value - before) + Math.abs(value - after)) continue;
+    points.push({ kind, x, y, color: curve.color });
+  }
+  return points;
+}
+
+/**
+ * Zeros, local extrema and intersections of the curves with x in
+ * `domain`. Points closer together than the sampling can tell apart are
+ * reported once.
+ */
+export function findGraphPoints(curves: AnalysisCurve[], domain: [number, number]): GraphPoint[] {
+  const points: GraphPoint[] = [];
+  for (const curve of curves) {
+    for (const x of findZeros(curve.fn, domain)) points.push({ kind: 'zero', x, y: 0, color: curve.color });
+    points.push(...findExtrema(curve, domain));
+  }
+  curves.forEach((first, i) => {
+    for (const second of curves.slice(i + 1)) {
+      for (const x of findZeros(t => first.fn(t) - second.fn(t), domain)) {
+        points.push({ kind: 'intersection', x, y: first.fn(x), color: first.color });
+      }
+    }
+  });
+
+  const separation = Math.abs(domain[1] - domain[0]) / SAMPLES / 10;
+  return points.filter((point, i) =>
+    Number.isFinite(point.y) &&
+    !points.slice(0, i).some(other => other.kind === point.kind && Math.abs(other.x - point.x) < separation)
+  );
+}
+
+/** Slope of `fn` at x by central differences, or NaN where it has none. */
+export function derivativeAt(fn: (x: number) => number, x: number): number {
+  const h = 1e-5 * Math.max(1, Math.abs(x));
+  return (fn(x + h) - fn(x - h)) / (2 * h);
+}
+
+export function tangentAt(curve: AnalysisCurve, x: number): Tangent | null {
+  const y = curve.fn(x);
+  const slope = derivativeAt(curve.fn, x);
+  return Number.isFinite(y) && Number.isFinite(slope) ? { x, y, slope } : null;
+}
+
+/** The tangent as a line y = slope·(x − x₀) + y₀, for plotting. */
+export function tangentLine({ x, y, slope }: Tangent): ExpressionNode {
+  return {
+    type: 'binary',
+    operator: '+',
+    left: {
+      type: 'binary',
+      operator: '*',
+      left: numberNode(slope),
+      right: { type: 'binary', operator: '-', left: { type: 'symbol', name: 'x' }, right: numberNode(x) },
+    },
+    right: numberNode(y),
+  };
+}
+
+// Share of sampled curve values left out at each end when zooming to fit,
+// so poles such as tan(x)'s do not flatten the rest.
+const FIT_OUTLIERS = 0.02;
+const FIT_PADDING = 0.1;
+
+const paddedRange = (values: number[]): [number, number] => {
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const padding = high > low ? (high - low) * FIT_PADDING : 1;
+  return [low - padding, high + padding];
+};
+
+/**
+ * Axis ranges that show the whole graph: table points, parametric and
+ * polar curves over their ranges, and y = f(x) curves across the current
+ * x range. Null if nothing can be measured, e.g. only implicit curves.
+ */
+export function fitDomains(graph: Graph): Pick<Graph, 'x_domain' | 'y_domain'> | null {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const curveYs: number[] = [];
+  const add = (x: number, y: number, target = ys) => {
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+    xs.push(x);
+    target.push(y);
+  };
+
+  for (const table of graph.tables) table.points.forEach(([x, y]) => add(x, y));
+  for (const formula of graph.formulas) {
+    const { shape, parameters } = parseFormula(formula, graph.angle_mode);
+    const scope = parameterScope(graph.parameters, parameters);
+    if (shape?.type === 'parametric' || shape?.type === 'polar') {
+      const [x, y] = shape.type === 'parametric'
+        ? [compileExpression(shape.x), compileExpression(shape.y)]
+        : [compileExpression(shape.r), null];
+      const { xs: ts } = sample(t => t, formula.range);
+      for (const t of ts) {
+        if (y) add(x({ ...scope, t }), y({ ...scope, t }), curveYs);
+        else {
+          const r = x({ ...scope, θ: t, theta: t });
+          add(r * Math.cos(t), r * Math.sin(t), curveYs);
+        }
+      }
+    }
+  }
+  const measuredXs = [...xs];
+  const curves = analysisCurves(graph);
+  for (const curve of curves) {
+    const { xs: samples, ys: values } = sample(curve.fn, graph.x_domain);
+    samples.forEach((x, i) => add(x, values[i], curveYs));
+  }
+
+  if (!xs.length) return null;
+  curveYs.sort((a, b) => a - b);
+  const skipped = Math.floor(curveYs.length * FIT_OUTLIERS);
+  const keptYs = [...ys, ...curveYs.slice(skipped, curveYs.length - skipped)];
+  // y = f(x) curves keep the x range they were sampled over.
+  const [x0, x1] = measuredXs.length ? paddedRange(measuredXs) : graph.x_domain;
+  return {
+    x_domain: curves.length ? [Math.min(x0, graph.x_domain[0]), Math.max(x1, graph.x_domain[1])] : [x0, x1],
+    y_domain: paddedRange(keptYs.length ? keptYs : ys),
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression } from '@/lib/expression';
+import { FitError, fitPoints, parsePoints, type Point } from '@/lib/graph-data';
+
+describe('parsePoints', () => {
+  it('reads comma, semicolon, tab and space separated pairs and skips headers', () => {
+    expect(parsePoints('x,y\n1,2\r\n3;4\n5\t6\n7 8\nbad,row\n9')).toEqual([[1, 2], [3, 4], [5, 6], [7, 8]]);
+  });
+});
+
+describe('fitPoints', () => {
+  const sample = (f: (x: number) => number, xs = [1, 2, 3, 4, 5]): Point[] => xs.map(x => [x, f(x)]);
+  const evaluateFit = (points: Point[], type: Parameters<typeof fitPoints>[1], x: number) =>
+    compileExpression(fitPoints(points, type).fn)({ x });
+
+  it('recovers exact linear and quadratic data', () => {
+    const line = sample(x => 2.5 * x + 1);
+    expect(fitPoints(line, 'linear')).toMatchObject({ equation: 'y = 2.5x + 1', r2: 1 });
+    expect(evaluateFit(sample(x => x * x - 3 * x + 2), 'quadratic', 10)).toBeCloseTo(72);
+  });
+
+  it('fits exponential and power data through their logarithms', () => {
+    expect(evaluateFit(sample(x => 3 * Math.exp(0.5 * x)), 'exponential', 6)).toBeCloseTo(3 * Math.exp(3));
+    expect(evaluateFit(sample(x => 2 * x ** 1.5), 'power', 9)).toBeCloseTo(54);
+    expect(fitPoints(sample(x => 2 * x ** 1.5), 'power').r2).toBeCloseTo(1);
+  });
+
+  it('reports a lower r² for scattered points', () => {
+    expect(fitPoints([[0, 0], [1, 3], [2, 1], [3, 4]], 'linear').r2).toBeLessThan(1);
+  });
+
+  it('refuses too few points and values outside the fit domain', () => {
+    expect(() => fitPoints([[1, 1]], 'linear')).toThrow(FitError);
+    expect(() => fitPoints([[1, 1], [2, 2]], 'quadratic')).toThrow(/at least 3 points/);
+    expect(() => fitPoints([[1, -1], [2, 2]], 'exponential')).toThrow(/above 0/);
+    expect(() => fitPoints([[0, 1], [2, 2]], 'power')).toThrow(/above 0/);
+  });
+});
@@ -0,0 +1,179 @@
+// Data points for the graphing calculator: reading pasted or imported
+// tables, and least-squares fits of the points.
+
+import { numberNode as num, type ExpressionNode } from '@/lib/expression';
+import type { FitType } from '@/lib/graph';
+
+export type Point = [number, number];
+
+export class FitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FitError';
+  }
+}
+
+export interface Fit {
+  // The fitted y(x), to plot and evaluate.
+  fn: ExpressionNode;
+  // Rounded for display, e.g. `y = 2.5x + 1`.
+  equation: string;
+  // Coefficient of determination of the fit on the original points.
+  r2: number;
+}
+
+/**
+ * Reads (x, y) pairs from CSV or tab separated text, as pasted from a
+ * spreadsheet. Lines without two numbers, such as headers, are skipped.
+ */
+export function parsePoints(text: string): Point[] {
+  const points: Point[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const cells = line.split(/[,;\t]|\s+/).map(cell => cell.trim()).filter(Boolean);
+    if (cells.length < 2) continue;
+    const x = Number(cells[0]);
+    const y = Number(cells[1]);
+    if (Number.isFinite(x) && Number.isFinite(y)) points.push([x, y]);
+  }
+  return points;
+}
+
+const x: ExpressionNode = { type: 'symbol', name: 'x' };
+const times = (left: ExpressionNode, right: ExpressionNode): ExpressionNode => ({ type: 'binary', operator: '*', left, right });
+const plus = (left: ExpressionNode, right: ExpressionNode): ExpressionNode => ({ type: 'binary', operator: '+', left, right });
+const power = (left: ExpressionNode, right: ExpressionNode): ExpressionNode => ({ type: 'binary', operator: '^', left, right });
+
+// Four significant digits, without exponent notation for everyday values.
+const round = (value: number) => Number(value.toPrecision(4));
+
+// `terms` are coefficient and suffix pairs, e.g. [2, 'x'], joined with
+// signs. Zero terms are left out and coefficients of 1 are not written.
+const formatPolynomial = (terms: [number, string][]) => {
+  const shown = terms.map(([coefficient, suffix]) => [round(coefficient), suffix] as const).filter(([rounded]) => rounded !== 0);
+  if (!shown.length) return '0';
+  return shown
+    .map(([rounded, suffix], index) => {
+      const sign = rounded < 0 ? (index ? ' − ' : '−') : index ? ' + ' : '';
+      const magnitude = Math.abs(rounded) === 1 && suffix ? '' : Math.abs(rounded);
+      return `${sign}${magnitude}${suffix}`;
+    })
+    .join('');
+};
+
+// Least-squares line through the points: y = slope·x + intercept.
+function linearRegression(points: Point[]) {
+  const n = points.length;
+  const meanX = points.reduce((sum, [px]) => sum + px, 0) / n;
+  const meanY = points.reduce((sum, [, py]) => sum + py, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  for (const [px, py] of points) {
+    sxx += (px - meanX) ** 2;
+    sxy += (px - meanX) * (py - meanY);
+  }
+  if (sxx === 0) throw new FitError('The points need at least two different x values.');
+  const slope = sxy / sxx;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+// Solves the 3×3 system `matrix · result = vector` by Gaussian elimination.
+function solve3(matrix: number[][], vector: number[]): number[] | null {
+  const rows = matrix.map((row, i) => [...row, vector[i]]);
+  for (let column = 0; column < 3; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < 3; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-12) return null;
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let row = 0; row < 3; row++) {
+      if (row === column) continue;
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k < 4; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+  return rows.map((row, i) => row[3] / row[i]);
+}
+
+function quadraticRegression(points: Point[]) {
+  // Sums of x^0..x^4 and of y·x^0..x^2 for the normal equations.
+  const sx = [0, 0, 0, 0, 0];
+  const sxy = [0, 0, 0];
+  for (const [px, py] of points) {
+    for (let k = 0; k < 5; k++) sx[k] += px ** k;
+    for (let k = 0; k < 3; k++) sxy[k] += py * px ** k;
+  }
+  const solution = solve3(
+    [[sx[4], sx[3], sx[2]], [sx[3], sx[2], sx[1]], [sx[2], sx[1], sx[0]]],
+    [sxy[2], sxy[1], sxy[0]]
+  );
+  if (!solution) throw new FitError('The points need at least three different x values.');
+  const [a, b, c] = solution;
+  return { a, b, c };
+}
+
+const rSquared = (points: Point[], predict: (x: number) => number) => {
+  const meanY = points.reduce((sum, [, py]) => sum + py, 0) / points.length;
+  let residual = 0;
+  let total = 0;
+  for (const [px, py] of points) {
+    residual += (py - predict(px)) ** 2;
+    total += (py - meanY) ** 2;
+  }
+  return total === 0 ? 1 : 1 - residual / total;
+};
+
+const MINIMUM_POINTS: Record<Exclude<FitType, 'none'>, number> = {
+  linear: 2,
+  quadratic: 3,
+  exponential: 2,
+  power: 2,
+};
+
+/**
+ * Least-squares fit of `type` to the points. Exponential and power fits
+ * are linear fits of the logarithms, so they need positive values.
+ */
+export function fitPoints(points: Point[], type: Exclude<FitType, 'none'>): Fit {
+  if (points.length < MINIMUM_POINTS[type]) {
+    throw new FitError(`A ${type} fit needs at least ${MINIMUM_POINTS[type]} points.`);
+  }
+  switch (type) {
+    case 'linear': {
+      const { slope, intercept } = linearRegression(points);
+      return {
+        fn: plus(times(num(slope), x), num(intercept)),
+        equation: `y = ${formatPolynomial([[slope, 'x'], [intercept, '']])}`,
+        r2: rSquared(points, px => slope * px + intercept),
+      };
+    }
+    case 'quadratic': {
+      const { a, b, c } = quadraticRegression(points);
+      return {
+        fn: plus(plus(times(num(a), power(x, num(2))), times(num(b), x)), num(c)),
+        equation: `y = ${formatPolynomial([[a, 'x²'], [b, 'x'], [c, '']])}`,
+        r2: rSquared(points, px => a * px ** 2 + b * px + c),
+      };
+    }
+    case 'exponential': {
+      if (points.some(([, py]) => py <= 0)) throw new FitError('An exponential fit needs y values above 0.');
+      const { slope, intercept } = linearRegression(points.map(([px, py]) => [px, Math.log(py)]));
+      const a = Math.exp(intercept);
+      return {
+        fn: times(num(a), { type: 'call', name: 'exp', args: [times(num(slope), x)] }),
+        equation: `y = ${round(a)}·e^(${round(slope)}x)`,
+        r2: rSquared(points, px => a * Math.exp(slope * px)),
+      };
+    }
+    case 'power': {
+      if (points.some(([px, py]) => px <= 0 || py <= 0)) throw new FitError('A power fit needs x and y values above 0.');
+      const { slope, intercept } = linearRegression(points.map(([px, py]) => [Math.log(px), Math.log(py)]));
+      const a = Math.exp(intercept);
+      return {
+        fn: times(num(a), power(x, num(slope))),
+        equation: `y = ${round(a)}·x^${round(slope)}`,
+        r2: rSquared(points, px => a * px ** slope),
+      };
+    }
+  }
+}
@@ -0,0 +1,373 @@
+import functionPlot, { type Chart, type FunctionPlotDatum } from 'function-plot';
+import {
+  parameterScope,
+  parseFormula,
+  type Graph,
+  type GraphAxis,
+  type GraphFormula,
+  type PlotShape,
+  type PointTable,
+} from '@/lib/graph';
+import { compileExpression, toPlotScope, toPlotSyntax, type Scope } from '@/lib/expression';
+import { fitPoints, FitError, type Fit } from '@/lib/graph-data';
+import {
+  analysisCurves,
+  findGraphPoints,
+  POINT_KIND_LABELS,
+  tangentAt,
+  tangentLine,
+  type GraphPoint,
+} from '@/lib/graph-analysis';
+
+export interface AnalysisOptions {
+  // Point whose coordinates are labelled.
+  selected: GraphPoint | null;
+  onSelect: (point: GraphPoint) => void;
+  // Formula and x to draw a tangent line at.
+  tangent: { formulaId: string; x: number } | null;
+}
+
+interface PlotOptions {
+  width: number;
+  height: number;
+  // Pan/zoom with the mouse; off for graphs drawn on slides and in exports.
+  interactive?: boolean;
+  // Marks zeros, extrema and intersections, found again after every zoom.
+  analysis?: AnalysisOptions;
+}
+
+// Inequalities are shaded in cells of this many pixels.
+const SHADING_CELL = 4;
+const SHADING_OPACITY = 0.25;
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const SCATTER_RADIUS = 4;
+const MARKER_RADIUS = 5;
+// Automatic tick steps aim for about one tick per this many pixels.
+const TICK_SPACING = 60;
+// Steps so fine they would need more ticks than this fall back to d3's.
+const MAX_TICKS = 200;
+// Fractions of π used as tick labels, by denominator.
+const PI_DENOMINATORS = [1, 2, 3, 4, 6, 12];
+// Margins function-plot leaves around the plot area, with and without a title.
+const PLOT_MARGIN = { horizontal: 60, vertical: 40, titled: 60 };
+
+interface ShadedRegion {
+  // Inside where this is negative (or zero).
+  fn: (scope: Scope) => number;
+  color: string;
+}
+
+const sortedRange = ([start, end]: [number, number]): [number, number] => (start <= end ? [start, end] : [end, start]);
+
+// `scope` holds the slider parameter values, named as in toPlotSyntax.
+const toDatum = (shape: PlotShape, formula: GraphFormula, scope: Scope): FunctionPlotDatum | null => {
+  const { color } = formula;
+  switch (shape.type) {
+    case 'function':
+      return { fn: toPlotSyntax(shape.fn), scope, color, graphType: 'polyline' };
+    case 'parametric':
+      return { fnType: 'parametric', x: toPlotSyntax(shape.x), y: toPlotSyntax(shape.y), range: sortedRange(formula.range), scope, color, graphType: 'polyline' };
+    case 'polar':
+      return { fnType: 'polar', r: toPlotSyntax(shape.r), range: sortedRange(formula.range), scope, color, graphType: 'polyline' };
+    case 'implicit':
+      return { fnType: 'implicit', fn: toPlotSyntax(shape.fn), scope, color, graphType: 'interval' };
+    case 'inequality':
+      // Only inclusive inequalities draw their boundary.
+      return shape.strict ? null : { fnType: 'implicit', fn: toPlotSyntax(shape.fn), scope, color, graphType: 'interval' };
+    case 'surface':
+      // Surfaces have their own views, see surface-plot.
+      return null;
+  }
+};
+
+// The fit drawn through a table's points, or null if it has none or cannot be fitted.
+function tableFit(table: PointTable): Fit | null {
+  if (table.fit === 'none') return null;
+  try {
+    return fitPoints(table.points, table.fit);
+  } catch (e) {
+    if (e instanceof FitError) return null;
+    throw e;
+  }
+}
+
+// Formulas that are blank or do not parse are left out, so the rest still plot.
+const parseGraph = (graph: Graph) => {
+  const data: FunctionPlotDatum[] = [];
+  const regions: ShadedRegion[] = [];
+  for (const formula of graph.formulas) {
+    const { shape, parameters } = parseFormula(formula, graph.angle_mode);
+    if (!shape) continue;
+    const scope = parameterScope(graph.parameters, parameters);
+    const datum = toDatum(shape, formula, toPlotScope(scope));
+    if (datum) data.push(datum);
+    if (shape.type === 'inequality') {
+      const fn = compileExpression(shape.fn);
+      regions.push({ fn: point => fn({ ...scope, ...point }), color: formula.color });
+    }
+  }
+  for (const table of graph.tables) {
+    if (table.points.length) {
+      data.push({ fnType: 'points', points: table.points, graphType: 'scatter', color: table.color, attr: { r: SCATTER_RADIUS } });
+    }
+    const fit = tableFit(table);
+    if (fit) data.push({ fn: toPlotSyntax(fit.fn), color: table.color, graphType: 'polyline' });
+  }
+  return { data, regions };
+};
+
+/**
+ * function-plot plugin that shades inequality regions under the curves,
+ * sampling each region on a grid and redrawing after every pan or zoom.
+ */
+const shadeRegions = (target: HTMLElement, regions: ShadedRegion[]) => (chart: Chart) => {
+  chart.on('after:draw', () => {
+    const content = target.querySelector('g.content');
+    const { xScale, yScale, width, height } = chart.meta;
+    if (!content || !xScale || !yScale || !width || !height) return;
+    content.querySelectorAll(':scope > path.inequality').forEach(path => path.remove());
+    for (const region of regions) {
+      let d = '';
+      for (let top = 0; top < height; top += SHADING_CELL) {
+        const y = yScale.invert(top + SHADING_CELL / 2);
+        let runStart: number | null = null;
+        for (let left = 0; left <= width; left += SHADING_CELL) {
+          const inside = left < width && region.fn({ x: xScale.invert(left + SHADING_CELL / 2), y }) <= 0;
+          if (inside && runStart === null) runStart = left;
+          if (!inside && runStart !== null) {
+            d += `M${runStart} ${top}h${left - runStart}v${SHADING_CELL}h${runStart - left}Z`;
+            runStart = null;
+          }
+        }
+      }
+      const path = document.createElementNS(SVG_NS, 'path');
+      path.setAttribute('class', 'inequality');
+      path.setAttribute('d', d);
+      path.setAttribute('fill', region.color);
+      path.setAttribute('fill-opacity', String(SHADING_OPACITY));
+      content.insertBefore(path, content.firstChild);
+    }
+  });
+};
+
+/** A tick label in multiples of π, e.g. `π/2`, `-3π/4` or `2π`. */
+export function formatPiMultiple(value: number): string {
+  const ratio = value / Math.PI;
+  for (const denominator of PI_DENOMINATORS) {
+    const numerator = Math.round(ratio * denominator);
+    if (Math.abs(ratio * denominator - numerator) > 1e-6) continue;
+    if (numerator === 0) return '0';
+    const multiple = `${numerator < 0 ? '-' : ''}${Math.abs(numerator) === 1 ? '' : Math.abs(numerator)}π`;
+    return denominator === 1 ? multiple : `${multiple}/${denominator}`;
+  }
+  return `${Number(ratio.toFixed(3))}π`;
+}
+
+// Tick step in multiples of π for a view spanning `span` multiples of π:
+// the smallest of 1/12, 1/6, 1/4, 1/2, 1, 2, 5, 10, 20, ... giving `ticks` or fewer.
+function piTickStep(span: number, ticks: number): number {
+  const target = span / Math.max(1, ticks);
+  const fraction = [1 / 12, 1 / 6, 1 / 4, 1 / 2].find(f => f >= target);
+  if (fraction !== undefined) return fraction;
+  const power = 10 ** Math.floor(Math.log10(target));
+  return [1, 2, 5, 10].map(m => m * power).find(step => step >= target)!;
+}
+
+/**
+ * function-plot plugin that places ticks, and so grid lines, at a fixed
+ * step or at multiples of π, recomputed for the view before every draw.
+ */
+const axisTicks = (graph: Graph) => (chart: Chart) => {
+  const apply = (axis: NonNullable<Chart['meta']['xAxis']>, domain: number[], settings: GraphAxis, pixels: number) => {
+    // Without a step, plain ticks are left to d3.
+    if (settings.scale === 'log' || (!settings.pi_ticks && settings.tick_step === null)) return;
+    const [start, end] = sortedRange([domain[0], domain[1]]);
+    const step = settings.pi_ticks
+      ? Math.PI * (settings.tick_step ?? piTickStep((end - start) / Math.PI, pixels / TICK_SPACING))
+      : settings.tick_step!;
+    const first = Math.ceil(start / step);
+    const count = Math.floor(end / step) - first + 1;
+    axis.tickValues(count > MAX_TICKS ? null : Array.from({ length: Math.max(0, count) }, (_, i) => (first + i) * step));
+    if (settings.pi_ticks) axis.tickFormat((value: number) => formatPiMultiple(value));
+  };
+  chart.on('before:draw', () => {
+    const { xAxis, yAxis, xScale, yScale, width, height } = chart.meta;
+    if (xAxis && xScale && width) apply(xAxis, xScale.domain(), graph.x_axis, width);
+    if (yAxis && yScale && height) apply(yAxis, yScale.domain(), graph.y_axis, height);
+  });
+};
+
+// Log axes only show positive values.
+const axisDomain = ([start, end]: [number, number], { scale }: GraphAxis): [number, number] => {
+  if (scale === 'linear') return [start, end];
+  const top = end > 0 ? end : 10;
+  return [start > 0 ? start : top / 1000, top];
+};
+
+/**
+ * The y range shown: as stored, or around its middle with units as long
+ * as on the x axis when the aspect is locked.
+ */
+function shownYDomain(graph: Graph, width: number, height: number): [number, number] {
+  const [y0, y1] = graph.y_domain;
+  if (!graph.lock_aspect || graph.x_axis.scale === 'log' || graph.y_axis.scale === 'log') return [y0, y1];
+  const plotWidth = width - PLOT_MARGIN.horizontal;
+  const plotHeight = height - (graph.title ? PLOT_MARGIN.titled : PLOT_MARGIN.vertical);
+  if (plotWidth <= 0 || plotHeight <= 0) return [y0, y1];
+  const span = ((graph.x_domain[1] - graph.x_domain[0]) * plotHeight) / plotWidth;
+  const middle = (y0 + y1) / 2;
+  return [middle - span / 2, middle + span / 2];
+}
+
+/** Coordinates rounded for labels, e.g. `(1.4142, 0)`. */
+export const formatPoint = ({ x, y }: Pick<GraphPoint, 'x' | 'y'>) =>
+  `(${Number(x.toFixed(4))}, ${Number(y.toFixed(4))})`;
+
+const isSamePoint = (a: GraphPoint, b: GraphPoint) =>
+  a.kind === b.kind && Math.abs(a.x - b.x) < 1e-6 && Math.abs(a.y - b.y) < 1e-6;
+
+/**
+ * function-plot plugin that marks the interesting points of the visible
+ * part of the graph. Markers are drawn above the zoom overlay so they can
+ * be clicked.
+ */
+const markPoints = (target: HTMLElement, graph: Graph, analysis: AnalysisOptions) => (chart: Chart) => {
+  const curves = analysisCurves(graph);
+  chart.on('after:draw', () => {
+    const canvas = target.querySelector('g.canvas');
+    const { xScale, yScale } = chart.meta;
+    if (!canvas || !xScale || !yScale) return;
+    canvas.querySelectorAll(':scope > g.analysis').forEach(group => group.remove());
+    const [y0, y1] = yScale.domain();
+    const points = findGraphPoints(curves, xScale.domain() as [number, number]);
+    const curve = analysis.tangent && curves.find(c => c.id === analysis.tangent!.formulaId);
+    const tangent = curve && tangentAt(curve, analysis.tangent!.x);
+    if (curve && tangent) points.push({ kind: 'tangent', x: tangent.x, y: tangent.y, color: curve.color });
+
+    const group = document.createElementNS(SVG_NS, 'g');
+    group.setAttribute('class', 'analysis');
+    for (const point of points) {
+      if (point.y < Math.min(y0, y1) || point.y > Math.max(y0, y1)) continue;
+      const cx = xScale(point.x);
+      const cy = yScale(point.y);
+      const marker = document.createElementNS(SVG_NS, 'circle');
+      marker.setAttribute('cx', String(cx));
+      marker.setAttribute('cy', String(cy));
+      marker.setAttribute('r', String(MARKER_RADIUS));
+      marker.setAttribute('fill', '#ffffff');
+      marker.setAttribute('stroke', point.color);
+      marker.setAttribute('stroke-width', '2');
+      marker.style.cursor = 'pointer';
+      const title = document.createElementNS(SVG_NS, 'title');
+      title.textContent = `${POINT_KIND_LABELS[point.kind]} ${formatPoint(point)}`;
+      marker.appendChild(title);
+      marker.addEventListener('click', () => analysis.onSelect(point));
+      group.appendChild(marker);
+      if (analysis.selected && isSamePoint(analysis.selected, point)) {
+        marker.setAttribute('fill', point.color);
+        const label = document.createElementNS(SVG_NS, 'text');
+        label.setAttribute('x', String(cx + MARKER_RADIUS + 4));
+        label.setAttribute('y', String(cy - MARKER_RADIUS - 4));
+        label.setAttribute('font-size', '12');
+        label.setAttribute('paint-order', 'stroke');
+        label.setAttribute('stroke', '#ffffff');
+        label.setAttribute('stroke-width', '3');
+        label.textContent = formatPoint(point);
+        group.appendChild(label);
+      }
+    }
+    canvas.appendChild(group);
+  });
+};
+
+const tangentDatum = (graph: Graph, analysis: AnalysisOptions): FunctionPlotDatum | null => {
+  const curve = analysis.tangent && analysisCurves(graph).find(c => c.id === analysis.tangent!.formulaId);
+  const tangent = curve && tangentAt(curve, analysis.tangent!.x);
+  if (!tangent) return null;
+  return { fn: toPlotSyntax(tangentLine(tangent)), color: '#6b7280', graphType: 'polyline', attr: { 'stroke-dasharray': '6 4' } };
+};
+
+/**
+ * Draws `graph` into `target` with function-plot, replacing anything
+ * drawn there before. Returns null if the graph could not be plotted.
+ */
+export function plotGraph(target: HTMLElement, graph: Graph, { width, height, interactive = false, analysis }: PlotOptions): Chart | null {
+  target.innerHTML = '';
+  const { data, regions } = parseGraph(graph);
+  const plugins = [axisTicks(graph)];
+  if (regions.length) plugins.push(shadeRegions(target, regions));
+  if (analysis) {
+    const tangent = tangentDatum(graph, analysis);
+    if (tangent) data.push(tangent);
+    plugins.push(markPoints(target, graph, analysis));
+  }
+  try {
+    return functionPlot({
+      target,
+      width,
+      height,
+      grid: graph.grid,
+      title: graph.title || undefined,
+      disableZoom: !interactive,
+      xAxis: { type: graph.x_axis.scale, label: graph.x_axis.label || undefined, domain: axisDomain(graph.x_domain, graph.x_axis) },
+      yAxis: { type: graph.y_axis.scale, label: graph.y_axis.label || undefined, domain: axisDomain(shownYDomain(graph, width, height), graph.y_axis) },
+      data,
+      plugins,
+    });
+  } catch (e) {
+    console.error("Error plotting function:", e);
+    return null;
+  }
+}
+
+/** The axis ranges currently shown by a chart, e.g. after panning. */
+export function chartDomains(chart: Chart): Pick<Graph, 'x_domain' | 'y_domain'> | null {
+  const { xScale, yScale } = chart.meta;
+  if (!xScale || !yScale) return null;
+  const [x0, x1] = xScale.domain();
+  const [y0, y1] = yScale.domain();
+  return { x_domain: [x0, x1], y_domain: [y0, y1] };
+}
+
+/**
+ * Standalone SVG markup for a graph at the given size. The graph is drawn
+ * off-screen because function-plot measures the document while drawing.
+ */
+export function graphToSvgMarkup(graph: Graph, width: number, height: number): string {
+  const host = document.createElement('div');
+  host.style.position = 'fixed';
+  host.style.left = '-100000px';
+  host.style.top = '0';
+  document.body.appendChild(host);
+  try {
+    plotGraph(host, graph, { width, height });
+    const svg = host.querySelector('svg');
+    if (!svg) return '';
+    svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    svg.setAttribute('font-family', 'Inter, sans-serif');
+    return svg.outerHTML;
+  } finally {
+    host.remove();
+  }
+}
+
+/** Rasterizes a graph to a PNG data URL, `scale` times its size in pixels. */
+export function renderGraphToImage(graph: Graph, width: number, height: number, scale = 2): Promise<string> {
+  const markup = graphToSvgMarkup(graph, width, height);
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Could not get canvas context"));
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => reject(new Error("Could not render graph"));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+}
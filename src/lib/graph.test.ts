@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression, type ExpressionNode } from '@/lib/expression';
+import {
+  advanceParameter,
+  createFormula,
+  createGraph,
+  createParameter,
+  GRAPH_FILE_VERSION,
+  GraphFormatError,
+  parseFormula,
+  parseGraphFile,
+  serializeGraph,
+  type FormulaType,
+} from '@/lib/graph';
+
+const shapeOf = (expression: string, type: FormulaType = 'function', angleMode: 'radians' | 'degrees' = 'radians') =>
+  parseFormula(createFormula(expression, 0, type), angleMode);
+
+const at = (node: ExpressionNode, scope: Record<string, number>) => compileExpression(node)(scope);
+
+describe('graph files', () => {
+  it('round-trip a graph with its version', () => {
+    const graph = { ...createGraph(), title: 'Parabola', formulas: [createFormula('x^2', 0)] };
+    const content = serializeGraph(graph);
+    expect(JSON.parse(content).version).toBe(GRAPH_FILE_VERSION);
+    expect(parseGraphFile(content)).toEqual(graph);
+  });
+
+  it('fill in settings added after a file was written', () => {
+    const graph = createGraph();
+    const older: Record<string, unknown> = { ...graph };
+    for (const key of ['title', 'x_axis', 'y_axis', 'angle_mode', 'lock_aspect']) delete older[key];
+    expect(parseGraphFile(JSON.stringify(older))).toEqual(graph);
+  });
+
+  it('reject invalid JSON, newer versions and invalid graphs', () => {
+    expect(() => parseGraphFile('nope')).toThrow(GraphFormatError);
+    expect(() => parseGraphFile(JSON.stringify({ ...createGraph(), version: GRAPH_FILE_VERSION + 1 }))).toThrow(/not supported/);
+    expect(() => parseGraphFile(JSON.stringify({ ...createGraph(), formulas: 5 }))).toThrow(/formulas/);
+  });
+});
+
+describe('parseFormula', () => {
+  it('ignores blank formulas', () => {
+    expect(shapeOf('  ')).toEqual({ shape: null, parameters: [], errors: {} });
+  });
+
+  it('accepts a leading y = and collects slider parameters', () => {
+    const { shape, parameters, errors } = shapeOf('y = a*x^2 + b');
+    expect(errors).toEqual({});
+    expect(parameters).toEqual(['a', 'b']);
+    expect(shape?.type).toBe('function');
+    if (shape?.type === 'function') expect(at(shape.fn, { x: 2, a: 3, b: 1 })).toBe(13);
+  });
+
+  it('reports errors under the input they belong to', () => {
+    const parsed = parseFormula({ ...createFormula('cos(t)', 0, 'parametric'), y_expression: 'sin(' });
+    expect(parsed.shape).toBeNull();
+    expect(Object.keys(parsed.errors)).toEqual(['y_expression']);
+  });
+
+  it('turns implicit equations into left minus right', () => {
+    const { shape } = shapeOf('x^2 + y^2 = 4', 'implicit');
+    expect(shape?.type).toBe('implicit');
+    if (shape?.type === 'implicit') expect(at(shape.fn, { x: 2, y: 0 })).toBe(0);
+  });
+
+  it('shades inequalities where fn is negative and marks strict ones', () => {
+    const { shape } = shapeOf('y > x', 'inequality');
+    expect(shape).toMatchObject({ type: 'inequality', strict: true });
+    if (shape?.type === 'inequality') expect(at(shape.fn, { x: 0, y: 1 })).toBeLessThan(0);
+    expect(shapeOf('y ≤ x', 'inequality').shape).toMatchObject({ strict: false });
+    expect(shapeOf('y = x', 'inequality').errors.expression?.message).toMatch(/cannot be used here/);
+  });
+
+  it('works in degrees when the graph does', () => {
+    const { shape } = shapeOf('sin(x)', 'function', 'degrees');
+    if (shape?.type !== 'function') throw new Error('Expected a function');
+    expect(at(shape.fn, { x: 90 })).toBeCloseTo(1);
+  });
+});
+
+describe('advanceParameter', () => {
+  const parameter = { ...createParameter('a'), min: 0, max: 1, step: 0.1 };
+
+  it('steps without drifting', () => {
+    let current = { ...parameter, value: 0 };
+    for (let i = 0; i < 7; i++) current = advanceParameter(current);
+    expect(current.value).toBeCloseTo(0.7, 10);
+  });
+
+  it('starts over at the end when looping and stops otherwise', () => {
+    expect(advanceParameter({ ...parameter, value: 1 }).value).toBe(0);
+    expect(advanceParameter({ ...parameter, value: 1, loop: false }).value).toBe(1);
+  });
+});
@@ -0,0 +1,400 @@
+import { z } from 'zod';
+import {
+  checkNames,
+  collectSymbols,
+  ExpressionError,
+  GREEK_LETTERS,
+  parseExpression,
+  withDegrees,
+  type ExpressionNode,
+  type Scope,
+} from '@/lib/expression';
+
+const domainSchema = z.tuple([z.number(), z.number()]);
+
+export const FORMULA_TYPES = ['function', 'parametric', 'polar', 'implicit', 'inequality', 'surface'] as const;
+export type FormulaType = (typeof FORMULA_TYPES)[number];
+
+export const graphFormulaSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(FORMULA_TYPES).default('function'),
+  // As typed; what it holds depends on the type, see FORMULA_TYPE_INFO.
+  expression: z.string(),
+  // y(t) of parametric curves, whose `expression` holds x(t).
+  y_expression: z.string().default(''),
+  // Range of t or θ for parametric and polar curves.
+  range: domainSchema.default([0, 2 * Math.PI]),
+  // CSS color of the curve.
+  color: z.string(),
+});
+
+// A free variable in the formulas, controlled by a slider.
+export const graphParameterSchema = z.object({
+  name: z.string().min(1),
+  value: z.number(),
+  min: z.number(),
+  max: z.number(),
+  step: z.number().positive(),
+  // Whether playing the slider starts over at the end rather than stopping.
+  loop: z.boolean(),
+});
+
+export const FIT_TYPES = ['none', 'linear', 'quadratic', 'exponential', 'power'] as const;
+export type FitType = (typeof FIT_TYPES)[number];
+
+// (x, y) points drawn as a scatter plot, optionally with a least-squares fit.
+export const pointTableSchema = z.object({
+  id: z.string().min(1),
+  points: z.array(z.tuple([z.number(), z.number()])),
+  color: z.string(),
+  fit: z.enum(FIT_TYPES).default('none'),
+});
+
+export const AXIS_SCALES = ['linear', 'log'] as const;
+export type AxisScale = (typeof AXIS_SCALES)[number];
+
+export const graphAxisSchema = z.object({
+  // Shown along the axis, e.g. "time (s)".
+  label: z.string().default(''),
+  scale: z.enum(AXIS_SCALES).default('linear'),
+  // Distance between ticks, or null to choose one as the view zooms.
+  tick_step: z.number().positive().nullable().default(null),
+  // Ticks at multiples of π, labelled like 3π/2; `tick_step` counts in π.
+  pi_ticks: z.boolean().default(false),
+});
+
+export const ANGLE_MODES = ['radians', 'degrees'] as const;
+export type AngleMode = (typeof ANGLE_MODES)[number];
+
+// Everything needed to redraw a graph: stored on graph items and reopened
+// in the graphing calculator for editing.
+export const graphSchema = z.object({
+  formulas: z.array(graphFormulaSchema),
+  // Visible ranges of the x and y axes.
+  x_domain: domainSchema,
+  y_domain: domainSchema,
+  grid: z.boolean(),
+  title: z.string().default(''),
+  x_axis: graphAxisSchema.default({}),
+  y_axis: graphAxisSchema.default({}),
+  // Units of the angles trig functions take and inverse trig functions give.
+  angle_mode: z.enum(ANGLE_MODES).default('radians'),
+  // Keeps one unit the same length on both axes.
+  lock_aspect: z.boolean().default(false),
+  parameters: z.array(graphParameterSchema).default([]),
+  tables: z.array(pointTableSchema).default([]),
+});
+
+export type GraphFormula = z.infer<typeof graphFormulaSchema>;
+export type GraphParameter = z.infer<typeof graphParameterSchema>;
+export type PointTable = z.infer<typeof pointTableSchema>;
+export type GraphAxis = z.infer<typeof graphAxisSchema>;
+export type Graph = z.infer<typeof graphSchema>;
+
+export type FormulaField = 'expression' | 'y_expression';
+
+interface FormulaTypeInfo {
+  label: string;
+  inputs: { field: FormulaField; label: string; placeholder: string }[];
+  // Variables the formula's expressions may use.
+  variables: string[];
+  // Whether the formula has a t or θ range.
+  hasRange: boolean;
+}
+
+export const FORMULA_TYPE_INFO: Record<FormulaType, FormulaTypeInfo> = {
+  function: {
+    label: 'y = f(x)',
+    inputs: [{ field: 'expression', label: 'y =', placeholder: 'x^2' }],
+    variables: ['x'],
+    hasRange: false,
+  },
+  parametric: {
+    label: 'Parametric',
+    inputs: [
+      { field: 'expression', label: 'x(t) =', placeholder: 'cos(t)' },
+      { field: 'y_expression', label: 'y(t) =', placeholder: 'sin(t)' },
+    ],
+    variables: ['t'],
+    hasRange: true,
+  },
+  polar: {
+    label: 'Polar',
+    inputs: [{ field: 'expression', label: 'r(θ) =', placeholder: '1 + cos(θ)' }],
+    variables: ['θ', 'theta'],
+    hasRange: true,
+  },
+  implicit: {
+    label: 'Implicit',
+    inputs: [{ field: 'expression', label: '', placeholder: 'x^2 + y^2 = 4' }],
+    variables: ['x', 'y'],
+    hasRange: false,
+  },
+  inequality: {
+    label: 'Inequality',
+    inputs: [{ field: 'expression', label: '', placeholder: 'y < sin(x)' }],
+    variables: ['x', 'y'],
+    hasRange: false,
+  },
+  // Drawn only in the 3D, contour and heatmap views.
+  surface: {
+    label: 'z = f(x, y)',
+    inputs: [{ field: 'expression', label: 'z =', placeholder: 'sin(x) * cos(y)' }],
+    variables: ['x', 'y'],
+    hasRange: false,
+  },
+};
+
+export const GRAPH_COLORS = ['#3366cc', '#dc3912', '#ff9900', '#109618', '#990099', '#0099c6'];
+
+export const createFormulaId = () => `formula-${Date.now()}-${Math.random()}`;
+
+export function createFormula(expression: string, index: number, type: FormulaType = 'function'): GraphFormula {
+  return {
+    id: createFormulaId(),
+    type,
+    expression,
+    y_expression: '',
+    range: [0, 2 * Math.PI],
+    color: GRAPH_COLORS[index % GRAPH_COLORS.length],
+  };
+}
+
+export function createGraph(): Graph {
+  return {
+    formulas: [createFormula('x^2', 0)],
+    x_domain: [-6, 6],
+    y_domain: [-4, 4],
+    grid: true,
+    title: '',
+    x_axis: createAxis(),
+    y_axis: createAxis(),
+    angle_mode: 'radians',
+    lock_aspect: false,
+    parameters: [],
+    tables: [],
+  };
+}
+
+export const createAxis = (): GraphAxis => ({ label: '', scale: 'linear', tick_step: null, pi_ticks: false });
+
+// Version written into every .graph file, for future format changes.
+export const GRAPH_FILE_VERSION = 1;
+export const GRAPH_FILE_EXTENSION = '.graph';
+
+/** A .graph file that cannot be read. */
+export class GraphFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GraphFormatError';
+  }
+}
+
+/** Parses and validates the contents of a standalone .graph file. */
+export function parseGraphFile(content: string): Graph {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (err) {
+    throw new GraphFormatError(`Graph file is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const version = typeof raw === 'object' && raw !== null && 'version' in raw ? raw.version : GRAPH_FILE_VERSION;
+  if (typeof version !== 'number' || version > GRAPH_FILE_VERSION) {
+    throw new GraphFormatError(`Graph file version ${String(version)} is not supported; version ${GRAPH_FILE_VERSION} or older is expected.`);
+  }
+  const result = graphSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ');
+    throw new GraphFormatError(`Graph file is invalid: ${issues}`);
+  }
+  return result.data;
+}
+
+export function serializeGraph(graph: Graph): string {
+  return JSON.stringify({ version: GRAPH_FILE_VERSION, ...graph }, null, 2);
+}
+
+export function createPointTable(index: number): PointTable {
+  return {
+    id: `table-${Date.now()}-${Math.random()}`,
+    points: [],
+    color: GRAPH_COLORS[index % GRAPH_COLORS.length],
+    fit: 'none',
+  };
+}
+
+// Single letters other than these become slider parameters when used in a
+// formula, e.g. `a` and `b` in `a*x^2 + b` or `ω` in `sin(ω*x)`.
+const RESERVED_NAMES = ['x', 'y', 'z', 't', 'r', 'e'];
+export const PARAMETER_NAMES = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'
+  .split('')
+  .concat(Object.keys(GREEK_LETTERS))
+  .filter(name => !RESERVED_NAMES.includes(name));
+
+export function createParameter(name: string): GraphParameter {
+  return { name, value: 1, min: -10, max: 10, step: 0.1, loop: true };
+}
+
+/**
+ * The next value of a playing slider: one step on, starting over at the
+ * minimum past the end if it loops and stopping at the maximum if not.
+ */
+export function advanceParameter(parameter: GraphParameter): GraphParameter {
+  const { value, min, max, step, loop } = parameter;
+  if (value + step > max + step / 1000) return { ...parameter, value: loop ? min : max };
+  // Counted in steps from the minimum so values do not drift.
+  return { ...parameter, value: Math.min(max, min + Math.round((value + step - min) / step) * step) };
+}
+
+/**
+ * Parameter values by name for plotting. Names used by the formulas but
+ * without a saved parameter get the default value.
+ */
+export function parameterScope(parameters: GraphParameter[], names: string[] = []): Scope {
+  const scope: Scope = Object.fromEntries(names.map(name => [name, createParameter(name).value]));
+  for (const parameter of parameters) scope[parameter.name] = parameter.value;
+  return scope;
+}
+
+// What a valid formula draws. Implicit curves are where `fn` is zero and
+// inequalities shade where it is negative (or zero, unless `strict`).
+export type PlotShape =
+  | { type: 'function'; fn: ExpressionNode }
+  | { type: 'parametric'; x: ExpressionNode; y: ExpressionNode }
+  | { type: 'polar'; r: ExpressionNode }
+  | { type: 'implicit'; fn: ExpressionNode }
+  | { type: 'inequality'; fn: ExpressionNode; strict: boolean }
+  | { type: 'surface'; fn: ExpressionNode };
+
+export interface ParsedFormula {
+  shape: PlotShape | null;
+  // Slider parameters the formula uses.
+  parameters: string[];
+  // Problems by input; empty for valid and for blank formulas.
+  errors: Partial<Record<FormulaField, ExpressionError>>;
+}
+
+// Leading `y =`, `r =` and `z =` are accepted, as in `y = x^2`.
+const Y_PREFIX = /^\s*y\s*=/;
+const R_PREFIX = /^\s*r\s*=/;
+const Z_PREFIX = /^\s*z\s*=/;
+const RELATION = '<=|>=|≤|≥|<|>|=';
+const INEQUALITIES = ['<', '>', '<=', '>=', '≤', '≥'];
+
+// Blanks out `source` outside [start, end), or a matched prefix, so error
+// positions still match what was typed.
+const keepRange = (source: string, start: number, end: number) =>
+  ' '.repeat(start) + source.slice(start, end) + ' '.repeat(source.length - end);
+const blankPrefix = (source: string, prefix: RegExp) => source.replace(prefix, text => ' '.repeat(text.length));
+
+// Parses one side or input, noting the parameters it uses in `parameters`.
+const parseChecked = (source: string, variables: string[], parameters: Set<string>) => {
+  const node = parseExpression(source);
+  const allowedParameters = PARAMETER_NAMES.filter(name => !variables.includes(name));
+  checkNames(node, [...variables, ...allowedParameters]);
+  collectSymbols(node).filter(name => allowedParameters.includes(name)).forEach(name => parameters.add(name));
+  return node;
+};
+
+// Parses `left <relation> right` into left − right and the relation used.
+function parseRelation(source: string, variables: string[], parameters: Set<string>, allowed: string[]) {
+  const matches = Array.from(source.matchAll(new RegExp(RELATION, 'g')));
+  if (matches.length > 1) {
+    throw new ExpressionError('Only one comparison is allowed.', matches[1].index!, matches[1][0].length);
+  }
+  const match = matches[0];
+  const example = allowed.includes('=') ? 'x^2 + y^2 = 4' : 'y < x^2';
+  if (!match) throw new ExpressionError(`Add a comparison, e.g. ${example}.`, source.length, 0);
+  if (!allowed.includes(match[0])) {
+    throw new ExpressionError(`"${match[0]}" cannot be used here, e.g. ${example}.`, match.index!, match[0].length);
+  }
+  const position = match.index!;
+  const left = parseChecked(keepRange(source, 0, position), variables, parameters);
+  const right = parseChecked(keepRange(source, position + match[0].length, source.length), variables, parameters);
+  const fn: ExpressionNode = right.type === 'number' && right.value === 0
+    ? left
+    : { type: 'binary', operator: '-', left, right };
+  return { fn, relation: match[0] };
+}
+
+/**
+ * Parses and checks one formula on its own, so a mistake in one formula
+ * can be reported under its input while the others still plot. The shape
+ * works in the graph's angle mode.
+ */
+export function parseFormula(formula: GraphFormula, angleMode: AngleMode = 'radians'): ParsedFormula {
+  const { inputs, variables } = FORMULA_TYPE_INFO[formula.type];
+  if (inputs.every(input => formula[input.field].trim() === '')) return { shape: null, parameters: [], errors: {} };
+
+  const errors: ParsedFormula['errors'] = {};
+  const parameters = new Set<string>();
+  const attempt = <T>(field: FormulaField, parse: () => T): T | null => {
+    try {
+      return parse();
+    } catch (e) {
+      if (!(e instanceof ExpressionError)) throw e;
+      errors[field] = e;
+      return null;
+    }
+  };
+
+  let shape: PlotShape | null = null;
+  switch (formula.type) {
+    case 'function': {
+      const fn = attempt('expression', () => parseChecked(blankPrefix(formula.expression, Y_PREFIX), variables, parameters));
+      if (fn) shape = { type: 'function', fn };
+      break;
+    }
+    case 'parametric': {
+      const x = attempt('expression', () => parseChecked(formula.expression, variables, parameters));
+      const y = attempt('y_expression', () => parseChecked(formula.y_expression, variables, parameters));
+      if (x && y) shape = { type: 'parametric', x, y };
+      break;
+    }
+    case 'surface': {
+      const fn = attempt('expression', () => parseChecked(blankPrefix(formula.expression, Z_PREFIX), variables, parameters));
+      if (fn) shape = { type: 'surface', fn };
+      break;
+    }
+    case 'polar': {
+      const r = attempt('expression', () => parseChecked(blankPrefix(formula.expression, R_PREFIX), variables, parameters));
+      if (r) shape = { type: 'polar', r };
+      break;
+    }
+    case 'implicit': {
+      // Without a comparison, the expression is set equal to zero.
+      const source = new RegExp(RELATION).test(formula.expression) ? formula.expression : `${formula.expression} = 0`;
+      const parsed = attempt('expression', () => parseRelation(source, variables, parameters, ['=']));
+      if (parsed) shape = { type: 'implicit', fn: parsed.fn };
+      break;
+    }
+    case 'inequality': {
+      const parsed = attempt('expression', () => parseRelation(formula.expression, variables, parameters, INEQUALITIES));
+      if (parsed) {
+        // Shade where fn < 0, so flip `>` comparisons.
+        const greater = ['>', '>=', '≥'].includes(parsed.relation);
+        shape = {
+          type: 'inequality',
+          fn: greater ? { type: 'negate', argument: parsed.fn } : parsed.fn,
+          strict: parsed.relation === '<' || parsed.relation === '>',
+        };
+      }
+      break;
+    }
+  }
+  if (shape && angleMode === 'degrees') shape = shapeInDegrees(shape);
+  return { shape, parameters: Array.from(parameters).sort(), errors };
+}
+
+function shapeInDegrees(shape: PlotShape): PlotShape {
+  switch (shape.type) {
+    case 'parametric':
+      return { ...shape, x: withDegrees(shape.x), y: withDegrees(shape.y) };
+    case 'polar':
+      return { ...shape, r: withDegrees(shape.r) };
+    default:
+      return { ...shape, fn: withDegrees(shape.fn) };
+  }
+}
@@ -0,0 +1,341 @@
+import JSZip from 'jszip';
+import {
+  BOARD_FORMAT_VERSION,
+  createItemId,
+  type BoardData,
+  type BoardItem,
+  type RichText,
+  type Slide,
+  type TextBlock,
+  type TextRun,
+} from '@/lib/board';
+import { normalizeRuns, richTextToPlainText } from '@/lib/rich-text';
+import { SLIDE_REFERENCE_WIDTH } from '@/lib/slide-layout';
+
+export interface ImportedMedia {
+  filename: string;
+  blob: Blob;
+}
+
+export interface PptxImportResult {
+  board: BoardData;
+  media: ImportedMedia[];
+  warnings: string[];
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  cx: number;
+  cy: number;
+  rot: number;
+}
+
+// Maps a group's child coordinate space onto the slide.
+interface GroupTransform {
+  offX: number;
+  offY: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+const EMU_PER_POINT = 12700;
+const DEFAULT_FONT_SIZE_PT = 18;
+const DEFAULT_SLIDE_SIZE = { cx: 12192000, cy: 6858000 };
+const IDENTITY: GroupTransform = { offX: 0, offY: 0, scaleX: 1, scaleY: 1 };
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+const childElements = (element: Element, localName: string) =>
+  Array.from(element.children).filter(child => child.localName === localName);
+
+const firstChild = (element: Element | null | undefined, localName: string): Element | null =>
+  element ? childElements(element, localName)[0] ?? null : null;
+
+const firstDescendant = (element: Element | Document, localName: string): Element | null =>
+  element.getElementsByTagNameNS('*', localName)[0] ?? null;
+
+const numberAttr = (element: Element | null, name: string, fallback = 0) => {
+  const value = element?.getAttribute(name);
+  return value === null || value === undefined || value === '' ? fallback : Number(value);
+};
+
+const relationshipAttr = (element: Element | null, name: string) =>
+  element?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', name) ?? null;
+
+const resolvePartPath = (basePart: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = basePart.split('/');
+  parts.pop();
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+const relsPathFor = (partPath: string) => {
+  const parts = partPath.split('/');
+  const name = parts.pop();
+  return [...parts, '_rels', `${name}.rels`].join('/');
+};
+
+async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, string>> {
+  const rels = new Map<string, string>();
+  const file = zip.file(relsPathFor(partPath));
+  if (!file) return rels;
+  const doc = parseXml(await file.async('text'));
+  for (const rel of Array.from(doc.getElementsByTagNameNS('*', 'Relationship'))) {
+    const id = rel.getAttribute('Id');
+    const target = rel.getAttribute('Target');
+    if (id && target && rel.getAttribute('TargetMode') !== 'External') {
+      rels.set(id, resolvePartPath(partPath, target));
+    }
+  }
+  return rels;
+}
+
+const readXfrm = (xfrm: Element | null): Rect | null => {
+  const off = firstChild(xfrm, 'off');
+  const ext = firstChild(xfrm, 'ext');
+  if (!xfrm || !off || !ext) return null;
+  return {
+    x: numberAttr(off, 'x'),
+    y: numberAttr(off, 'y'),
+    cx: numberAttr(ext, 'cx'),
+    cy: numberAttr(ext, 'cy'),
+    rot: numberAttr(xfrm, 'rot') / 60000,
+  };
+};
+
+const applyGroup = (rect: Rect, group: GroupTransform): Rect => ({
+  x: group.offX + rect.x * group.scaleX,
+  y: group.offY + rect.y * group.scaleY,
+  cx: rect.cx * group.scaleX,
+  cy: rect.cy * group.scaleY,
+  rot: rect.rot,
+});
+
+const placeholderKey = (shape: Element) => {
+  const ph = firstDescendant(shape, 'ph');
+  if (!ph) return null;
+  return { type: ph.getAttribute('type') ?? 'body', idx: ph.getAttribute('idx') };
+};
+
+/** Finds the position a placeholder inherits from its layout or master. */
+function findInheritedRect(shape: Element, inherited: Document[]): Rect | null {
+  const key = placeholderKey(shape);
+  if (!key) return null;
+  for (const doc of inherited) {
+    for (const candidate of Array.from(doc.getElementsByTagNameNS('*', 'sp'))) {
+      const candidateKey = placeholderKey(candidate);
+      if (!candidateKey) continue;
+      const matches = (key.idx !== null && candidateKey.idx === key.idx) || candidateKey.type === key.type;
+      if (!matches) continue;
+      const rect = readXfrm(firstDescendant(candidate, 'xfrm'));
+      if (rect) return rect;
+    }
+  }
+  return null;
+}
+
+const readText = (txBody: Element) =>
+  childElements(txBody, 'p')
+    .map(paragraph =>
+      Array.from(paragraph.children)
+        .map(child => (child.localName === 'br' ? '\n' : child.localName === 'r' || child.localName === 'fld' ? firstChild(child, 't')?.textContent ?? '' : ''))
+        .join('')
+    )
+    .join('\n');
+
+const ALIGNMENTS: Record<string, TextBlock['align']> = { ctr: 'center', r: 'right', just: 'justify' };
+
+const readRun = (run: Element): TextRun => {
+  const rPr = firstChild(run, 'rPr');
+  const result: TextRun = { text: firstChild(run, 't')?.textContent ?? '' };
+  if (rPr?.getAttribute('b') === '1') result.bold = true;
+  if (rPr?.getAttribute('i') === '1') result.italic = true;
+  const underline = rPr?.getAttribute('u');
+  if (underline && underline !== 'none') result.underline = true;
+  // Only explicit RGB colors are kept; theme colors fall back to the default.
+  const color = firstChild(firstChild(rPr, 'solidFill'), 'srgbClr')?.getAttribute('val');
+  if (color) result.color = `#${color}`;
+  const highlight = firstChild(firstChild(rPr, 'highlight'), 'srgbClr')?.getAttribute('val');
+  if (highlight) result.highlight = `#${highlight}`;
+  return result;
+};
+
+/** Reads paragraphs with their run formatting, alignment and explicit bullets. */
+const readRichText = (txBody: Element): RichText =>
+  childElements(txBody, 'p').map(paragraph => {
+    const pPr = firstChild(paragraph, 'pPr');
+    const align = ALIGNMENTS[pPr?.getAttribute('algn') ?? ''];
+    const type = firstChild(pPr, 'buAutoNum') ? 'numbered' : firstChild(pPr, 'buChar') ? 'bullet' : 'paragraph';
+    const runs = Array.from(paragraph.children).flatMap(child =>
+      child.localName === 'br' ? [{ text: '\n' }] : child.localName === 'r' || child.localName === 'fld' ? [readRun(child)] : []
+    );
+    return { type, ...(align ? { align } : {}), runs: normalizeRuns(runs) };
+  });
+
+const readFontSize = (txBody: Element) => {
+  for (const name of ['rPr', 'endParaRPr', 'defRPr']) {
+    for (const element of Array.from(txBody.getElementsByTagNameNS('*', name))) {
+      const size = element.getAttribute('sz');
+      if (size) return Number(size) / 100;
+    }
+  }
+  return DEFAULT_FONT_SIZE_PT;
+};
+
+/**
+ * Converts a PowerPoint deck into a board. Text boxes become text items
+ * (keeping basic run formatting) and pictures become image items whose
+ * files are returned in `media`, named so they can be written next to the
+ * new board.
+ */
+export async function importPptx(file: Blob, boardBaseName: string): Promise<PptxImportResult> {
+  const zip = await JSZip.loadAsync(file);
+  const presentationFile = zip.file('ppt/presentation.xml');
+  if (!presentationFile) throw new Error('This file is not a PowerPoint presentation.');
+
+  const presentation = parseXml(await presentationFile.async('text'));
+  const sldSz = firstDescendant(presentation, 'sldSz');
+  const slideSize = sldSz
+    ? { cx: numberAttr(sldSz, 'cx'), cy: numberAttr(sldSz, 'cy') }
+    : DEFAULT_SLIDE_SIZE;
+  const pxPerEmu = SLIDE_REFERENCE_WIDTH / slideSize.cx;
+  const pxPerPoint = pxPerEmu * EMU_PER_POINT;
+
+  const presentationRels = await readRelationships(zip, 'ppt/presentation.xml');
+  const slidePaths = Array.from(presentation.getElementsByTagNameNS('*', 'sldId'))
+    .map(sldId => presentationRels.get(relationshipAttr(sldId, 'id') ?? ''))
+    .filter((path): path is string => !!path);
+
+  const media: ImportedMedia[] = [];
+  const mediaNames = new Map<string, string>();
+  const warnings: string[] = [];
+  const slides: Slide[] = [];
+
+  for (const [slideIndex, slidePath] of slidePaths.entries()) {
+    const slideFile = zip.file(slidePath);
+    if (!slideFile) {
+      warnings.push(`Slide ${slideIndex + 1}: ${slidePath} is missing from the file.`);
+      continue;
+    }
+    const slideDoc = parseXml(await slideFile.async('text'));
+    const slideRels = await readRelationships(zip, slidePath);
+
+    // Layout and master, used for placeholders that inherit their position.
+    const inherited: Document[] = [];
+    const layoutPath = Array.from(slideRels.values()).find(path => path.includes('slideLayouts/'));
+    if (layoutPath && zip.file(layoutPath)) {
+      inherited.push(parseXml(await zip.file(layoutPath)!.async('text')));
+      const layoutRels = await readRelationships(zip, layoutPath);
+      const masterPath = Array.from(layoutRels.values()).find(path => path.includes('slideMasters/'));
+      if (masterPath && zip.file(masterPath)) {
+        inherited.push(parseXml(await zip.file(masterPath)!.async('text')));
+      }
+    }
+
+    const items: BoardItem[] = [];
+
+    const addImage = async (pic: Element, rect: Rect) => {
+      const embed = relationshipAttr(firstDescendant(pic, 'blip'), 'embed');
+      const mediaPath = embed ? slideRels.get(embed) : undefined;
+      const mediaFile = mediaPath ? zip.file(mediaPath) : null;
+      if (!mediaPath || !mediaFile) {
+        warnings.push(`Slide ${slideIndex + 1}: a picture could not be found in the file.`);
+        return;
+      }
+      let filename = mediaNames.get(mediaPath);
+      if (!filename) {
+        filename = `${boardBaseName}-${mediaPath.split('/').pop()}`;
+        mediaNames.set(mediaPath, filename);
+        media.push({ filename, blob: await mediaFile.async('blob') });
+      }
+      items.push({
+        id: createItemId('img'),
+        type: 'image',
+        filename,
+        position: [((rect.x + rect.cx / 2) / slideSize.cx) * 100, ((rect.y + rect.cy / 2) / slideSize.cy) * 100],
+        rotation: rect.rot,
+        width: Math.max(1, rect.cx * pxPerEmu),
+        height: Math.max(1, rect.cy * pxPerEmu),
+        scale: 1,
+      });
+    };
+
+    const addText = (shape: Element, txBody: Element, rect: Rect) => {
+      const content = readRichText(txBody);
+      if (!richTextToPlainText(content).trim()) return;
+      items.push({
+        id: createItemId('text'),
+        type: 'text',
+        content,
+        position: [(rect.x / slideSize.cx) * 100, ((rect.y + rect.cy / 2) / slideSize.cy) * 100],
+        rotation: rect.rot,
+        font_size: Math.max(1, Math.round(readFontSize(txBody) * pxPerPoint)),
+        width: Math.max(1, Math.round(rect.cx * pxPerEmu)),
+      });
+    };
+
+    const walk = async (container: Element, group: GroupTransform) => {
+      for (const element of Array.from(container.children)) {
+        if (element.localName === 'grpSp') {
+          const grpXfrm = firstDescendant(firstChild(element, 'grpSpPr') ?? element, 'xfrm');
+          const rect = readXfrm(grpXfrm);
+          const chOff = firstChild(grpXfrm, 'chOff');
+          const chExt = firstChild(grpXfrm, 'chExt');
+          if (!rect || !chOff || !chExt) {
+            await walk(element, group);
+            continue;
+          }
+          const outer = applyGroup(rect, group);
+          const scaleX = numberAttr(chExt, 'cx') ? outer.cx / numberAttr(chExt, 'cx') : 1;
+          const scaleY = numberAttr(chExt, 'cy') ? outer.cy / numberAttr(chExt, 'cy') : 1;
+          await walk(element, {
+            offX: outer.x - numberAttr(chOff, 'x') * scaleX,
+            offY: outer.y - numberAttr(chOff, 'y') * scaleY,
+            scaleX,
+            scaleY,
+          });
+        } else if (element.localName === 'sp' || element.localName === 'pic') {
+          const ownRect = readXfrm(firstDescendant(firstChild(element, 'spPr') ?? element, 'xfrm'));
+          const rect = ownRect ? applyGroup(ownRect, group) : findInheritedRect(element, inherited);
+          if (!rect) {
+            warnings.push(`Slide ${slideIndex + 1}: skipped a shape without a position.`);
+            continue;
+          }
+          if (element.localName === 'pic') {
+            await addImage(element, rect);
+          } else {
+            const txBody = firstChild(element, 'txBody');
+            if (txBody) addText(element, txBody, rect);
+          }
+        }
+      }
+    };
+
+    const spTree = firstDescendant(slideDoc, 'spTree');
+    if (spTree) await walk(spTree, IDENTITY);
+
+    const notesPath = Array.from(slideRels.values()).find(path => path.includes('notesSlides/'));
+    let notes: string | undefined;
+    if (notesPath && zip.file(notesPath)) {
+      const notesDoc = parseXml(await zip.file(notesPath)!.async('text'));
+      const bodyShape = Array.from(notesDoc.getElementsByTagNameNS('*', 'sp'))
+        .find(shape => placeholderKey(shape)?.type === 'body');
+      const txBody = bodyShape ? firstChild(bodyShape, 'txBody') : null;
+      notes = txBody ? readText(txBody).trim() || undefined : undefined;
+    }
+
+    slides.push({ slide_number: slides.length + 1, items, ...(notes ? { notes } : {}) });
+  }
+
+  if (slides.length === 0) {
+    slides.push({ slide_number: 1, items: [] });
+    warnings.push('The presentation has no slides.');
+  }
+
+  return { board: { version: BOARD_FORMAT_VERSION, slides }, media, warnings };
+}
@@ -0,0 +1,150 @@
+import { getStroke } from 'perfect-freehand';
+import type { InkItem } from '@/lib/board';
+import { escapeXml } from '@/lib/svg';
+
+export type InkTool = 'pen' | 'highlighter' | 'eraser';
+// x, y and pen pressure (0 to 1).
+export type InkPoint = [number, number, number];
+
+export interface InkSettings {
+  tool: InkTool;
+  color: string;
+  width: number;
+}
+
+export const INK_COLORS = ['#111827', '#dc2626', '#2563eb', '#16a34a', '#f59e0b'];
+export const INK_WIDTHS = [
+  { value: 2, label: 'Thin' },
+  { value: 4, label: 'Medium' },
+  { value: 8, label: 'Thick' },
+];
+export const DEFAULT_INK_SETTINGS: InkSettings = { tool: 'pen', color: INK_COLORS[0], width: 4 };
+
+// Highlighter strokes are wider than pen strokes and translucent.
+const HIGHLIGHTER_WIDTH_FACTOR = 4;
+export const HIGHLIGHTER_OPACITY = 0.35;
+// Points closer than this (in pixels) to the simplified path are dropped.
+const SIMPLIFY_TOLERANCE = 0.75;
+// Extra reach of the eraser around the pointer, in pixels.
+export const ERASER_RADIUS = 8;
+
+const distanceToSegment = (p: [number, number], a: InkPoint, b: InkPoint) => {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared)) : 0;
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+};
+
+/** Ramer–Douglas–Peucker simplification, keeping each kept point's pressure. */
+export function simplifyPoints(points: InkPoint[], tolerance = SIMPLIFY_TOLERANCE): InkPoint[] {
+  if (points.length <= 2) return points;
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let farthestDistance = tolerance;
+    for (let index = first + 1; index < last; index++) {
+      const distance = distanceToSegment([points[index][0], points[index][1]], points[first], points[last]);
+      if (distance > farthestDistance) {
+        farthest = index;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+  return points.filter((_, index) => keep[index]);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const inkStrokeWidth = (settings: InkSettings) =>
+  settings.tool === 'highlighter' ? settings.width * HIGHLIGHTER_WIDTH_FACTOR : settings.width;
+
+/**
+ * Turns a finished stroke, in container pixels, into an ink item whose box
+ * wraps the stroke. The container's size is needed for the item's position.
+ */
+export function createInkItem(
+  id: string,
+  points: InkPoint[],
+  settings: InkSettings,
+  [containerWidth, containerHeight]: [number, number]
+): InkItem {
+  const strokeWidth = inkStrokeWidth(settings);
+  const simplified = simplifyPoints(points);
+  const xs = simplified.map(point => point[0]);
+  const ys = simplified.map(point => point[1]);
+  const left = Math.min(...xs) - strokeWidth;
+  const top = Math.min(...ys) - strokeWidth;
+  const width = Math.max(...xs) + strokeWidth - left;
+  const height = Math.max(...ys) + strokeWidth - top;
+  return {
+    id,
+    type: 'ink',
+    tool: settings.tool === 'highlighter' ? 'highlighter' : 'pen',
+    color: settings.color,
+    stroke_width: strokeWidth,
+    position: [((left + width / 2) / containerWidth) * 100, ((top + height / 2) / containerHeight) * 100],
+    rotation: 0,
+    width,
+    height,
+    scale: 1,
+    points: simplified.map(([x, y, pressure]) => [round(x - left), round(y - top), round(pressure)]),
+  };
+}
+
+/** Outline polygon of a stroke, widened where the pen was pressed harder. */
+export function inkOutline(item: Pick<InkItem, 'tool' | 'stroke_width' | 'points'>, complete = true): number[][] {
+  const highlighter = item.tool === 'highlighter';
+  return getStroke(item.points, {
+    size: item.stroke_width,
+    thinning: highlighter ? 0 : 0.6,
+    smoothing: 0.5,
+    streamline: 0.5,
+    simulatePressure: false,
+    last: complete,
+  });
+}
+
+/** SVG path data for an outline, with quadratic curves through the midpoints. */
+export function outlineToPath(outline: number[][]): string {
+  if (outline.length < 2) return '';
+  const [first, ...rest] = outline;
+  const segments = rest.map((point, index) => {
+    const next = outline[(index + 2) % outline.length];
+    return `${round(point[0])},${round(point[1])} ${round((point[0] + next[0]) / 2)},${round((point[1] + next[1]) / 2)}`;
+  });
+  return `M${round(first[0])},${round(first[1])} Q${segments.join(' ')} Z`;
+}
+
+/** SVG markup for a stroke in its own box; shared by the canvas and the SVG export. */
+export function inkToSvgMarkup(item: InkItem): string {
+  const opacity = item.tool === 'highlighter' ? ` fill-opacity="${HIGHLIGHTER_OPACITY}"` : '';
+  return `<path d="${outlineToPath(inkOutline(item))}" fill="${escapeXml(item.color)}"${opacity}/>`;
+}
+
+/**
+ * Whether `point` (container pixels) is within `radius` of the stroke,
+ * taking the item's position, rotation and scale into account.
+ */
+export function hitTestInk(item: InkItem, point: [number, number], [containerWidth, containerHeight]: [number, number], radius = ERASER_RADIUS): boolean {
+  const dx = point[0] - (item.position[0] / 100) * containerWidth;
+  const dy = point[1] - (item.position[1] / 100) * containerHeight;
+  const radians = (-item.rotation * Math.PI) / 180;
+  const local: [number, number] = [
+    (dx * Math.cos(radians) - dy * Math.sin(radians)) / item.scale + item.width / 2,
+    (dx * Math.sin(radians) + dy * Math.cos(radians)) / item.scale + item.height / 2,
+  ];
+  const reach = radius / item.scale + item.stroke_width / 2;
+  if (item.points.length === 1) return Math.hypot(local[0] - item.points[0][0], local[1] - item.points[0][1]) <= reach;
+  for (let index = 1; index < item.points.length; index++) {
+    if (distanceToSegment(local, item.points[index - 1], item.points[index]) <= reach) return true;
+  }
+  return false;
+}
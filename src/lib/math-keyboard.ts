@@ -0,0 +1,140 @@
+// Keys of the graphing calculator's on-screen keyboard and how each one
+// edits the text of a formula input.
+
+import { differentiate, expand, factor, formatExpression, integrate, parseCasInput, simplify } from '@/lib/cas';
+import { GREEK_LETTERS, type ExpressionNode } from '@/lib/expression';
+
+export const KEYBOARD_TABS = ['basic', 'functions', 'greek', 'calculus'] as const;
+export type KeyboardTab = (typeof KEYBOARD_TABS)[number];
+
+export const KEYBOARD_TAB_LABELS: Record<KeyboardTab, string> = {
+  basic: '123',
+  functions: 'f(x)',
+  greek: 'αβγ',
+  calculus: 'd/dx',
+};
+
+// Marks where the cursor goes, or the selection is placed, in a template.
+const SLOT = '◌';
+
+export const TRANSFORMS = ['differentiate', 'integrate', 'simplify', 'expand', 'factor'] as const;
+export type Transform = (typeof TRANSFORMS)[number];
+
+export type MathKey =
+  // Inserts `template` with its slots emptied, the first one filled with any selection.
+  | { type: 'insert'; label: string; template: string }
+  // Rewrites the selection, or the whole formula, in x.
+  | { type: 'transform'; label: string; transform: Transform }
+  | { type: 'move'; offset: -1 | 1 }
+  | { type: 'backspace' };
+
+export interface KeyboardLayout {
+  columns: number;
+  keys: MathKey[];
+}
+
+const text = (label: string, template = label): MathKey => ({ type: 'insert', label, template });
+const fn = (name: string, label = name): MathKey => text(label, `${name}(${SLOT})`);
+const transform = (label: string, name: Transform): MathKey => ({ type: 'transform', label, transform: name });
+
+// Letters offered after the formula's own variables, as slider parameters.
+const EXTRA_VARIABLES = ['a', 'b', 'c', 'k'];
+const VARIABLE_KEYS = 4;
+
+/** Keys of a tab. The basic tab starts with `variables`, those of the formula being edited. */
+export function keyboardLayout(tab: KeyboardTab, variables: string[]): KeyboardLayout {
+  switch (tab) {
+    case 'basic': {
+      const names = [...variables, ...EXTRA_VARIABLES.filter(name => !variables.includes(name))].slice(0, VARIABLE_KEYS);
+      return {
+        columns: 8,
+        keys: [
+          ...names.map(name => text(name)), text('('), text(')'), text(','), text('='),
+          text('7'), text('8'), text('9'), text('÷', '/'), text('□/□', `(${SLOT})/(${SLOT})`), text('□²', '^2'), text('□ⁿ', `^(${SLOT})`), text('√□', `sqrt(${SLOT})`),
+          text('4'), text('5'), text('6'), text('×', '*'), text('<'), text('>'), text('≤'), text('≥'),
+          text('1'), text('2'), text('3'), text('−', '-'), text('+'), text('0'), text('.'), text('π'),
+        ],
+      };
+    }
+    case 'functions':
+      return {
+        columns: 8,
+        keys: [
+          fn('sin'), fn('cos'), fn('tan'), fn('asin', 'sin⁻¹'), fn('acos', 'cos⁻¹'), fn('atan', 'tan⁻¹'), fn('ln'), fn('log'),
+          fn('sinh'), fn('cosh'), fn('tanh'), fn('sec'), fn('csc'), fn('cot'), fn('exp'), text('eⁿ', `e^(${SLOT})`),
+          fn('sqrt', '√□'), fn('cbrt', '∛□'), fn('abs', '|□|'), text('min', `min(${SLOT}, ${SLOT})`), text('max', `max(${SLOT}, ${SLOT})`),
+          text('10ⁿ', `10^(${SLOT})`), text('e'), text('π'),
+        ],
+      };
+    case 'greek':
+      return { columns: 7, keys: [...Object.keys(GREEK_LETTERS), 'π'].map(letter => text(letter)) };
+    case 'calculus':
+      return {
+        columns: 4,
+        keys: [
+          transform('d/dx', 'differentiate'), transform('∫ dx', 'integrate'), transform('Simplify', 'simplify'), transform('Expand', 'expand'),
+          transform('Factor', 'factor'), text('1/□', `1/(${SLOT})`), text('□⁻¹', '^(-1)'), text('eⁿ', `e^(${SLOT})`),
+        ],
+      };
+  }
+}
+
+export interface EditResult {
+  value: string;
+  // Where the cursor is put afterwards.
+  cursor: number;
+}
+
+/** Inserts a template over the selection [start, end) of `value`. */
+export function insertTemplate(value: string, start: number, end: number, template: string): EditResult {
+  const selected = value.slice(start, end);
+  const parts = template.split(SLOT);
+  const slots: number[] = [];
+  let inserted = parts[0];
+  parts.slice(1).forEach((part, i) => {
+    slots.push(start + inserted.length);
+    inserted += (i === 0 ? selected : '') + part;
+  });
+  const before = value.slice(0, start) + inserted;
+  // With a selection in the first slot, the cursor moves on to the next
+  // one, e.g. to the denominator of a fraction.
+  const cursor = !slots.length
+    ? before.length
+    : selected
+      ? (slots.length > 1 ? slots[1] + selected.length : before.length)
+      : slots[0];
+  return { value: before + value.slice(end), cursor };
+}
+
+const TRANSFORM_FUNCTIONS: Record<Transform, (node: ExpressionNode) => ExpressionNode> = {
+  differentiate,
+  integrate,
+  simplify,
+  expand,
+  factor,
+};
+
+/**
+ * Applies a key to the selection [start, end) of `value`. Transform keys
+ * throw ExpressionError or CasError if the text cannot be rewritten.
+ */
+export function applyKey(value: string, start: number, end: number, key: MathKey): EditResult {
+  switch (key.type) {
+    case 'insert':
+      return insertTemplate(value, start, end, key.template);
+    case 'move': {
+      const from = start === end ? start : key.offset < 0 ? start : end;
+      const cursor = start === end ? from + key.offset : from;
+      return { value, cursor: Math.min(value.length, Math.max(0, cursor)) };
+    }
+    case 'backspace':
+      if (start !== end) return { value: value.slice(0, start) + value.slice(end), cursor: start };
+      if (start === 0) return { value, cursor: 0 };
+      return { value: value.slice(0, start - 1) + value.slice(end), cursor: start - 1 };
+    case 'transform': {
+      const [from, to] = start === end ? [0, value.length] : [start, end];
+      const result = formatExpression(TRANSFORM_FUNCTIONS[key.transform](parseCasInput(value.slice(from, to), key.transform)));
+      return { value: value.slice(0, from) + result + value.slice(to), cursor: from + result.length };
+    }
+  }
+}
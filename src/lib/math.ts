@@ -0,0 +1,135 @@
+import katex from 'katex';
+import type { RichText, TextRun } from '@/lib/board';
+
+export interface MathSegment {
+  type: 'text' | 'math';
+  value: string;
+  // `$$...$$` (display) rather than `$...$` (inline).
+  display: boolean;
+  start: number;
+  end: number;
+}
+
+/** Index of the closing delimiter, skipping backslash escapes. */
+const findClosing = (text: string, from: number, delimiter: string) => {
+  for (let index = from; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+      continue;
+    }
+    if (!text.startsWith(delimiter, index)) continue;
+    // Inline math follows the usual Markdown rule so prices such as
+    // "$5 and $10" stay plain text.
+    if (delimiter === '$' && (/\s/.test(text[index - 1] ?? '') || /\d/.test(text[index + 1] ?? ''))) continue;
+    return index;
+  }
+  return -1;
+};
+
+/**
+ * Splits text into plain and math segments. `\$` is a literal dollar sign
+ * and an unmatched `$` is left as text.
+ */
+export function parseMath(text: string): MathSegment[] {
+  const segments: MathSegment[] = [];
+  let textStart = 0;
+  let index = 0;
+  while (index < text.length) {
+    if (text[index] === '\\' && text[index + 1] === '$') {
+      index += 2;
+      continue;
+    }
+    if (text[index] !== '$') {
+      index++;
+      continue;
+    }
+    const display = text[index + 1] === '$';
+    const delimiter = display ? '$$' : '$';
+    const contentStart = index + delimiter.length;
+    const opensInline = !display && text[contentStart] !== undefined && !/\s/.test(text[contentStart]);
+    const close = display || opensInline ? findClosing(text, contentStart, delimiter) : -1;
+    if (close <= contentStart) {
+      index += delimiter.length;
+      continue;
+    }
+    if (index > textStart) {
+      segments.push({ type: 'text', value: text.slice(textStart, index), display: false, start: textStart, end: index });
+    }
+    const end = close + delimiter.length;
+    segments.push({ type: 'math', value: text.slice(contentStart, close), display, start: index, end });
+    index = end;
+    textStart = end;
+  }
+  if (textStart < text.length) {
+    segments.push({ type: 'text', value: text.slice(textStart), display: false, start: textStart, end: text.length });
+  }
+  return segments;
+}
+
+export const unescapeDollars = (text: string) => text.replace(/\\\$/g, '$');
+
+export type RunPiece =
+  | { kind: 'text'; text: string; run: TextRun }
+  | { kind: 'math'; tex: string; display: boolean; run: TextRun };
+
+/**
+ * Splits a block's runs into text and math pieces. Math may span several
+ * runs; it takes the formatting of the run it starts in.
+ */
+export function splitRunsWithMath(runs: TextRun[]): RunPiece[] {
+  const offsets: number[] = [];
+  let length = 0;
+  for (const run of runs) {
+    offsets.push(length);
+    length += run.text.length;
+  }
+  const runAt = (position: number) => {
+    let index = 0;
+    while (index < runs.length - 1 && offsets[index + 1] <= position) index++;
+    return runs[index];
+  };
+
+  const pieces: RunPiece[] = [];
+  for (const segment of parseMath(runs.map(run => run.text).join(''))) {
+    if (segment.type === 'math') {
+      pieces.push({ kind: 'math', tex: segment.value, display: segment.display, run: runAt(segment.start) });
+      continue;
+    }
+    runs.forEach((run, index) => {
+      const start = Math.max(segment.start, offsets[index]);
+      const end = Math.min(segment.end, offsets[index] + run.text.length);
+      if (end > start) {
+        pieces.push({ kind: 'text', text: unescapeDollars(run.text.slice(start - offsets[index], end - offsets[index])), run });
+      }
+    });
+  }
+  return pieces;
+}
+
+export const containsMath = (content: RichText) =>
+  content.some(block => parseMath(block.runs.map(run => run.text).join('')).some(segment => segment.type === 'math'));
+
+/** Typesets TeX to HTML. Invalid input is shown in red with the error as its tooltip. */
+export const renderMathToHtml = (tex: string, display: boolean) =>
+  katex.renderToString(tex, { displayMode: display, throwOnError: false, errorColor: '#dc2626' });
+
+export interface MathError {
+  tex: string;
+  message: string;
+}
+
+/** Parse errors for every formula in the text, for showing next to the editor. */
+export function findMathErrors(content: RichText): MathError[] {
+  const errors: MathError[] = [];
+  for (const block of content) {
+    for (const segment of parseMath(block.runs.map(run => run.text).join(''))) {
+      if (segment.type !== 'math') continue;
+      try {
+        katex.renderToString(segment.value, { displayMode: segment.display, throwOnError: true });
+      } catch (e) {
+        errors.push({ tex: segment.value, message: e instanceof Error ? e.message : String(e) });
+      }
+    }
+  }
+  return errors;
+}
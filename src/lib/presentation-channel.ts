@@ -0,0 +1,19 @@
+import type { BoardData } from '@/lib/board';
+
+export type Blank = 'black' | 'white' | null;
+
+/**
+ * Messages exchanged between the presenter console and the audience window
+ * over a BroadcastChannel. The presenter owns the board and the current
+ * slide; the audience window only renders what it is sent and forwards
+ * navigation requests.
+ */
+export type PresentationMessage =
+  | { type: 'hello' }
+  | { type: 'board'; data: BoardData }
+  | { type: 'state'; slideIndex: number; blank: Blank }
+  | { type: 'navigate'; slideIndex: number }
+  | { type: 'blank'; blank: Blank }
+  | { type: 'end' };
+
+export const getPresentationChannelName = (filePath: string) => `grraffia-presentation:${filePath}`;
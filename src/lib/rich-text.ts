@@ -0,0 +1,52 @@
+import type { RichText, TextBlock, TextRun } from '@/lib/board';
+
+// Heading sizes relative to the item's font size.
+export const HEADING_SCALE: Record<number, number> = { 1: 2, 2: 1.5, 3: 1.17 };
+
+/** Converts a plain string into rich text, one paragraph per line. */
+export function textToRichText(text: string): RichText {
+  return text.split('\n').map(line => ({
+    type: 'paragraph',
+    runs: line ? [{ text: line }] : [],
+  }));
+}
+
+/** Flattens rich text to a plain string, one line per block. */
+export function richTextToPlainText(content: RichText): string {
+  return content.map(block => block.runs.map(run => run.text).join('')).join('\n');
+}
+
+export const blockFontScale = (block: TextBlock) =>
+  block.type === 'heading' ? HEADING_SCALE[block.level ?? 1] ?? 1 : 1;
+
+const sameStyle = (a: TextRun, b: TextRun) =>
+  !!a.bold === !!b.bold &&
+  !!a.italic === !!b.italic &&
+  !!a.underline === !!b.underline &&
+  a.color === b.color &&
+  a.highlight === b.highlight;
+
+/** Merges adjacent runs with identical formatting and drops empty ones. */
+export function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const merged: TextRun[] = [];
+  for (const run of runs) {
+    if (!run.text) continue;
+    const previous = merged[merged.length - 1];
+    if (previous && sameStyle(previous, run)) {
+      merged[merged.length - 1] = { ...previous, text: previous.text + run.text };
+    } else {
+      merged.push(run);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Number shown before a 'numbered' block: its position within the run of
+ * consecutive numbered blocks it belongs to.
+ */
+export function listNumberAt(content: RichText, index: number): number {
+  let number = 1;
+  for (let i = index - 1; i >= 0 && content[i].type === 'numbered'; i--) number++;
+  return number;
+}
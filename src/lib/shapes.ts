@@ -0,0 +1,97 @@
+import type { ShapeItem } from '@/lib/board';
+import { escapeXml } from '@/lib/svg';
+
+export const SHAPE_KINDS: { value: ShapeItem['kind']; label: string }[] = [
+  { value: 'rect', label: 'Rectangle' },
+  { value: 'ellipse', label: 'Ellipse' },
+  { value: 'line', label: 'Line' },
+  { value: 'arrow', label: 'Arrow' },
+];
+
+export const isLineShape = (item: ShapeItem) => item.kind === 'line' || item.kind === 'arrow';
+
+/** A new shape of `kind` with the default style, centred on the slide. */
+export function createShape(kind: ShapeItem['kind'], id: string): ShapeItem {
+  const line = kind === 'line' || kind === 'arrow';
+  return {
+    id,
+    type: 'shape',
+    kind,
+    position: [50, 50],
+    rotation: 0,
+    width: line ? 240 : 200,
+    height: line ? 24 : 120,
+    stroke: '#1f2937',
+    fill: line ? 'none' : '#bfdbfe',
+    stroke_width: 3,
+    dash: 'solid',
+    arrow_start: false,
+    arrow_end: kind === 'arrow',
+  };
+}
+
+const dashArray = (item: ShapeItem) => {
+  const width = Math.max(1, item.stroke_width);
+  if (item.dash === 'dashed') return `${width * 4} ${width * 2}`;
+  if (item.dash === 'dotted') return `0 ${width * 2}`;
+  return undefined;
+};
+
+const attributes = (values: Record<string, string | number | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}="${typeof value === 'string' ? escapeXml(value) : value}"`)
+    .join(' ');
+
+/**
+ * SVG markup for a shape in its own box, from (0, 0) to (width, height).
+ * Shared by the canvas and the SVG export so both draw the same thing.
+ */
+export function shapeToSvgMarkup(item: ShapeItem): string {
+  const { width, height, stroke_width: strokeWidth } = item;
+  const stroke = strokeWidth > 0 ? item.stroke : 'none';
+  const strokeAttributes = {
+    stroke,
+    'stroke-width': strokeWidth,
+    'stroke-dasharray': dashArray(item),
+    'stroke-linecap': item.dash === 'dotted' ? 'round' : undefined,
+  };
+
+  if (item.kind === 'rect') {
+    const inset = strokeWidth / 2;
+    return `<rect ${attributes({
+      x: inset,
+      y: inset,
+      width: Math.max(0, width - strokeWidth),
+      height: Math.max(0, height - strokeWidth),
+      fill: item.fill,
+      ...strokeAttributes,
+    })}/>`;
+  }
+
+  if (item.kind === 'ellipse') {
+    return `<ellipse ${attributes({
+      cx: width / 2,
+      cy: height / 2,
+      rx: Math.max(0, (width - strokeWidth) / 2),
+      ry: Math.max(0, (height - strokeWidth) / 2),
+      fill: item.fill,
+      ...strokeAttributes,
+    })}/>`;
+  }
+
+  // Lines and arrows: the line stops short of each arrowhead so the tip stays sharp.
+  const y = height / 2;
+  const head = Math.max(10, strokeWidth * 3);
+  const x1 = item.arrow_start ? head : 0;
+  const x2 = item.arrow_end ? width - head : width;
+  const elements = [`<line ${attributes({ x1, y1: y, x2, y2: y, ...strokeAttributes })}/>`];
+  const arrowhead = (tip: number, direction: 1 | -1) =>
+    `<polygon ${attributes({
+      points: `${tip},${y} ${tip - direction * head},${y - head / 2} ${tip - direction * head},${y + head / 2}`,
+      fill: item.stroke,
+    })}/>`;
+  if (item.arrow_start) elements.push(arrowhead(0, -1));
+  if (item.arrow_end) elements.push(arrowhead(width, 1));
+  return elements.join('');
+}
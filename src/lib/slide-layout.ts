@@ -0,0 +1,16 @@
+import type { BoardItem } from '@/lib/board';
+
+// Logical canvas size used when a slide is drawn smaller or larger than
+// the editor, e.g. in previews and exports. Item sizes are in pixels at
+// this width; slides are 16:9.
+export const SLIDE_REFERENCE_WIDTH = 1280;
+export const SLIDE_REFERENCE_HEIGHT = (SLIDE_REFERENCE_WIDTH * 9) / 16;
+
+const layerOrder: Record<BoardItem['type'], number> = { image: 0, graph: 0, shape: 1, text: 2, ink: 3 };
+
+/**
+ * Images and graphs are drawn underneath shapes, shapes underneath text,
+ * and ink annotations on top; otherwise file order is kept.
+ */
+export const sortSlideItems = (items: BoardItem[]) =>
+  [...items].sort((a, b) => layerOrder[a.type] - layerOrder[b.type]);
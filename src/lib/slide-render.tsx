@@ -0,0 +1,87 @@
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import html2canvas from 'html2canvas';
+import { SlideItemView, SlideView } from '@/components/SlideView';
+import type { Slide, TextItem } from '@/lib/board';
+import { SLIDE_REFERENCE_HEIGHT, SLIDE_REFERENCE_WIDTH } from '@/lib/slide-layout';
+
+const waitForImages = (container: HTMLElement) =>
+  Promise.all(
+    Array.from(container.querySelectorAll('img')).map(img =>
+      img.complete ? Promise.resolve() : img.decode().catch(() => {})
+    )
+  );
+
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+
+const withMounted = async <T,>(node: React.ReactElement, callback: (element: HTMLElement) => Promise<T>): Promise<T> => {
+  const host = document.createElement('div');
+  host.style.position = 'fixed';
+  host.style.left = '-100000px';
+  host.style.top = '0';
+  host.style.width = `${SLIDE_REFERENCE_WIDTH}px`;
+  host.style.height = `${SLIDE_REFERENCE_HEIGHT}px`;
+  document.body.appendChild(host);
+  const root = createRoot(host);
+  try {
+    flushSync(() => root.render(node));
+    await nextFrame();
+    await Promise.all([waitForImages(host), document.fonts.ready]);
+    await nextFrame();
+    return await callback(host.firstElementChild as HTMLElement);
+  } finally {
+    root.unmount();
+    host.remove();
+  }
+};
+
+/**
+ * Mounts a slide off-screen at the reference size and calls `callback`
+ * with its root element, unmounting afterwards.
+ */
+export function withRenderedSlide<T>(slide: Slide, callback: (element: HTMLElement) => Promise<T>): Promise<T> {
+  return withMounted(<SlideView slide={slide} />, callback);
+}
+
+export interface RenderedTextItem {
+  dataUrl: string;
+  // Size of the unrotated item in reference pixels.
+  width: number;
+  height: number;
+}
+
+/**
+ * Rasterizes a text item, unrotated and on a transparent background. Used
+ * by vector exports for text with typeset math, which they cannot draw.
+ */
+export function renderTextItemToImage(item: TextItem, scale = 3): Promise<RenderedTextItem> {
+  const node = (
+    <SlideItemView
+      item={{ ...item, rotation: 0 }}
+      style={{ position: 'relative', left: 0, top: 0, transform: 'none' }}
+    />
+  );
+  return withMounted(node, async element => {
+    const canvas = await html2canvas(element, { backgroundColor: null, scale, logging: false });
+    return { dataUrl: canvas.toDataURL('image/png'), width: element.offsetWidth, height: element.offsetHeight };
+  });
+}
+
+/**
+ * Rasterizes a slide to a canvas `width` pixels wide (16:9). The slide is
+ * laid out at SLIDE_REFERENCE_WIDTH and scaled, so exports at any
+ * resolution keep the same proportions.
+ */
+export function renderSlideToCanvas(slide: Slide, width: number): Promise<HTMLCanvasElement> {
+  return withRenderedSlide(slide, element =>
+    html2canvas(element, {
+      useCORS: true,
+      backgroundColor: '#ffffff',
+      scale: width / SLIDE_REFERENCE_WIDTH,
+      width: SLIDE_REFERENCE_WIDTH,
+      height: SLIDE_REFERENCE_HEIGHT,
+      logging: false,
+    })
+  );
+}
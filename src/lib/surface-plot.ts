@@ -0,0 +1,314 @@
+// Drawing of z = f(x, y) surfaces on a 2D canvas: a rotatable wireframe or
+// shaded mesh, contour lines and a heatmap. The mesh is projected by hand
+// and painted back to front, so no WebGL is needed.
+
+import { compileExpression } from '@/lib/expression';
+import { parameterScope, parseFormula, type Graph, type GraphFormula } from '@/lib/graph';
+
+export const SURFACE_VIEWS = ['wireframe', 'shaded', 'contour', 'heatmap'] as const;
+export type SurfaceView = (typeof SURFACE_VIEWS)[number];
+
+export const SURFACE_VIEW_LABELS: Record<SurfaceView, string> = {
+  wireframe: 'Wireframe',
+  shaded: 'Shaded surface',
+  contour: 'Contour',
+  heatmap: 'Heatmap',
+};
+
+// Turn about the vertical axis and tilt towards the viewer, in radians.
+export interface SurfaceRotation {
+  yaw: number;
+  pitch: number;
+}
+
+export const DEFAULT_ROTATION: SurfaceRotation = { yaw: -0.6, pitch: 0.5 };
+
+// z sampled on a grid, `zs[j][i]` at (xs[i], ys[j]); NaN where undefined.
+export interface SurfaceGrid {
+  xs: number[];
+  ys: number[];
+  zs: number[][];
+  zMin: number;
+  zMax: number;
+}
+
+interface DrawOptions {
+  width: number;
+  height: number;
+  view: SurfaceView;
+  rotation: SurfaceRotation;
+  color: string;
+}
+
+const GRID_RESOLUTION = 40;
+const CONTOUR_LEVELS = 12;
+const MARGIN = 40;
+// Height of the mesh relative to its width, whatever the range of z.
+const Z_SCALE = 0.7;
+const AXIS_COLOR = '#6b7280';
+const FONT = '12px Inter, sans-serif';
+// Stops of a perceptually uniform color scale, low to high.
+const COLOR_STOPS = [[68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37]];
+
+/** The first valid z = f(x, y) formula of a graph, or the preferred one if it is valid. */
+export function surfaceFormula(graph: Graph, preferredId?: string): { formula: GraphFormula; fn: (x: number, y: number) => number } | null {
+  const candidates = [...graph.formulas].sort((a, b) => Number(b.id === preferredId) - Number(a.id === preferredId));
+  for (const formula of candidates) {
+    const { shape, parameters } = parseFormula(formula, graph.angle_mode);
+    if (shape?.type !== 'surface') continue;
+    const compiled = compileExpression(shape.fn);
+    const scope = parameterScope(graph.parameters, parameters);
+    return { formula, fn: (x, y) => compiled({ ...scope, x, y }) };
+  }
+  return null;
+}
+
+export function sampleSurface(
+  fn: (x: number, y: number) => number,
+  [x0, x1]: [number, number],
+  [y0, y1]: [number, number],
+  resolution = GRID_RESOLUTION
+): SurfaceGrid {
+  const steps = Array.from({ length: resolution + 1 }, (_, i) => i / resolution);
+  const xs = steps.map(t => x0 + (x1 - x0) * t);
+  const ys = steps.map(t => y0 + (y1 - y0) * t);
+  let zMin = Infinity;
+  let zMax = -Infinity;
+  const zs = ys.map(y => xs.map(x => {
+    const z = fn(x, y);
+    if (!Number.isFinite(z)) return NaN;
+    zMin = Math.min(zMin, z);
+    zMax = Math.max(zMax, z);
+    return z;
+  }));
+  if (zMin > zMax) zMin = zMax = 0;
+  return { xs, ys, zs, zMin, zMax };
+}
+
+/** Color of `t` between 0 and 1 on the color scale, times `light`. */
+function scaleColor(t: number, light = 1): string {
+  const position = Math.min(Math.max(t, 0), 1) * (COLOR_STOPS.length - 1);
+  const index = Math.min(Math.floor(position), COLOR_STOPS.length - 2);
+  const mix = position - index;
+  const [r, g, b] = COLOR_STOPS[index].map((low, k) => (low + (COLOR_STOPS[index + 1][k] - low) * mix) * light);
+  return `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+}
+
+const formatTick = (value: number) => String(Number(value.toPrecision(3)));
+
+// Projects normalized coordinates, each in [-1, 1], to the screen.
+const projector = ({ width, height, rotation }: DrawOptions) => {
+  const scale = Math.min(width, height) * 0.35;
+  const [cosYaw, sinYaw, cosPitch, sinPitch] = [Math.cos(rotation.yaw), Math.sin(rotation.yaw), Math.cos(rotation.pitch), Math.sin(rotation.pitch)];
+  return (x: number, y: number, z: number) => {
+    const turnedX = x * cosYaw - y * sinYaw;
+    const turnedY = x * sinYaw + y * cosYaw;
+    return {
+      sx: width / 2 + turnedX * scale,
+      sy: height / 2 - (turnedY * sinPitch + z * cosPitch) * scale,
+      // Larger is further from the viewer.
+      depth: turnedY * cosPitch - z * sinPitch,
+    };
+  };
+};
+
+function drawMesh(ctx: CanvasRenderingContext2D, grid: SurfaceGrid, options: DrawOptions) {
+  const { xs, ys, zs, zMin, zMax } = grid;
+  const project = projector(options);
+  const zMid = (zMin + zMax) / 2;
+  const zHalf = (zMax - zMin) / 2 || 1;
+  const normalized = (i: number, j: number) => [
+    (i / (xs.length - 1)) * 2 - 1,
+    (j / (ys.length - 1)) * 2 - 1,
+    ((zs[j][i] - zMid) / zHalf) * Z_SCALE,
+  ];
+
+  const quads: { corners: ReturnType<typeof project>[]; depth: number; light: number; level: number }[] = [];
+  for (let j = 0; j + 1 < ys.length; j++) {
+    for (let i = 0; i + 1 < xs.length; i++) {
+      const cell = [[i, j], [i + 1, j], [i + 1, j + 1], [i, j + 1]];
+      if (cell.some(([ci, cj]) => Number.isNaN(zs[cj][ci]))) continue;
+      const points = cell.map(([ci, cj]) => normalized(ci, cj));
+      const corners = points.map(([x, y, z]) => project(x, y, z));
+      // Lit from above by the cell's normal, so slopes are darker.
+      const [ux, uy, uz] = [0, 1, 2].map(k => points[2][k] - points[0][k]);
+      const [vx, vy, vz] = [0, 1, 2].map(k => points[3][k] - points[1][k]);
+      const [nx, ny, nz] = [uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx];
+      const light = 0.45 + 0.55 * Math.abs(nz) / (Math.hypot(nx, ny, nz) || 1);
+      const level = (points.reduce((sum, [, , z]) => sum + z, 0) / 4 / Z_SCALE + 1) / 2;
+      quads.push({ corners, depth: corners.reduce((sum, c) => sum + c.depth, 0) / 4, light, level });
+    }
+  }
+
+  drawMeshAxes(ctx, grid, project, 'back');
+  quads.sort((a, b) => b.depth - a.depth);
+  ctx.lineWidth = 1;
+  for (const { corners, light, level } of quads) {
+    ctx.beginPath();
+    corners.forEach(({ sx, sy }, k) => (k ? ctx.lineTo(sx, sy) : ctx.moveTo(sx, sy)));
+    ctx.closePath();
+    if (options.view === 'shaded') {
+      ctx.fillStyle = scaleColor(level, light);
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.15)';
+    } else {
+      // White faces hide the lines behind them.
+      ctx.fillStyle = '#ffffff';
+      ctx.strokeStyle = options.color;
+    }
+    ctx.fill();
+    ctx.stroke();
+  }
+  drawMeshAxes(ctx, grid, project, 'labels');
+}
+
+// The base of the bounding box behind the mesh, then the axis labels over it.
+function drawMeshAxes(
+  ctx: CanvasRenderingContext2D,
+  { xs, ys, zMin, zMax }: SurfaceGrid,
+  project: ReturnType<typeof projector>,
+  part: 'back' | 'labels'
+) {
+  ctx.strokeStyle = AXIS_COLOR;
+  ctx.fillStyle = AXIS_COLOR;
+  ctx.font = FONT;
+  if (part === 'back') {
+    const base = [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([x, y]) => project(x, y, -Z_SCALE));
+    ctx.beginPath();
+    base.forEach(({ sx, sy }, k) => (k ? ctx.lineTo(sx, sy) : ctx.moveTo(sx, sy)));
+    ctx.closePath();
+    ctx.stroke();
+    const top = project(-1, -1, Z_SCALE);
+    ctx.beginPath();
+    ctx.moveTo(base[0].sx, base[0].sy);
+    ctx.lineTo(top.sx, top.sy);
+    ctx.stroke();
+    return;
+  }
+  const label = (text: string, [x, y, z]: number[]) => {
+    const { sx, sy } = project(x, y, z);
+    ctx.fillText(text, sx + 4, sy + 4);
+  };
+  label(`x ${formatTick(xs[0])}…${formatTick(xs[xs.length - 1])}`, [0, -1.15, -Z_SCALE]);
+  label(`y ${formatTick(ys[0])}…${formatTick(ys[ys.length - 1])}`, [1.15, 0, -Z_SCALE]);
+  label(`z ${formatTick(zMin)}…${formatTick(zMax)}`, [-1, -1, Z_SCALE * 1.15]);
+}
+
+// Maps grid positions to the plot area of the flat views.
+const flatArea = ({ width, height }: DrawOptions, grid: SurfaceGrid) => {
+  const [left, top] = [MARGIN, MARGIN / 2];
+  const [plotWidth, plotHeight] = [width - MARGIN * 2.5, height - MARGIN * 1.5];
+  return {
+    left,
+    top,
+    plotWidth,
+    plotHeight,
+    // Fractional grid indices, as marching squares interpolates between them.
+    toScreen: (i: number, j: number) => ({
+      sx: left + (i / (grid.xs.length - 1)) * plotWidth,
+      sy: top + plotHeight - (j / (grid.ys.length - 1)) * plotHeight,
+    }),
+  };
+};
+
+function drawFlatFrame(ctx: CanvasRenderingContext2D, grid: SurfaceGrid, options: DrawOptions) {
+  const { left, top, plotWidth, plotHeight } = flatArea(options, grid);
+  const { xs, ys } = grid;
+  ctx.strokeStyle = AXIS_COLOR;
+  ctx.fillStyle = AXIS_COLOR;
+  ctx.font = FONT;
+  ctx.strokeRect(left, top, plotWidth, plotHeight);
+  ctx.textAlign = 'center';
+  ctx.fillText(formatTick(xs[0]), left, top + plotHeight + 16);
+  ctx.fillText(formatTick(xs[xs.length - 1]), left + plotWidth, top + plotHeight + 16);
+  ctx.fillText('x', left + plotWidth / 2, top + plotHeight + 16);
+  ctx.textAlign = 'right';
+  ctx.fillText(formatTick(ys[0]), left - 6, top + plotHeight);
+  ctx.fillText(formatTick(ys[ys.length - 1]), left - 6, top + 10);
+  ctx.fillText('y', left - 6, top + plotHeight / 2);
+  ctx.textAlign = 'start';
+}
+
+// Color bar along the right edge, from zMin at the bottom to zMax at the top.
+function drawLegend(ctx: CanvasRenderingContext2D, grid: SurfaceGrid, options: DrawOptions) {
+  const { top, left, plotWidth, plotHeight } = flatArea(options, grid);
+  const x = left + plotWidth + 12;
+  for (let k = 0; k < plotHeight; k++) {
+    ctx.fillStyle = scaleColor(1 - k / plotHeight);
+    ctx.fillRect(x, top + k, 10, 1);
+  }
+  ctx.fillStyle = AXIS_COLOR;
+  ctx.font = FONT;
+  ctx.fillText(formatTick(grid.zMax), x + 14, top + 10);
+  ctx.fillText(formatTick(grid.zMin), x + 14, top + plotHeight);
+}
+
+function drawHeatmap(ctx: CanvasRenderingContext2D, grid: SurfaceGrid, options: DrawOptions) {
+  const { xs, ys, zs, zMin, zMax } = grid;
+  const { toScreen } = flatArea(options, grid);
+  for (let j = 0; j + 1 < ys.length; j++) {
+    for (let i = 0; i + 1 < xs.length; i++) {
+      const corners = [zs[j][i], zs[j][i + 1], zs[j + 1][i], zs[j + 1][i + 1]];
+      if (corners.some(Number.isNaN)) continue;
+      const mean = corners.reduce((sum, z) => sum + z, 0) / 4;
+      const from = toScreen(i, j + 1);
+      const to = toScreen(i + 1, j);
+      ctx.fillStyle = scaleColor(zMax > zMin ? (mean - zMin) / (zMax - zMin) : 0.5);
+      // Overlap by half a pixel so no seams show between cells.
+      ctx.fillRect(from.sx, from.sy, to.sx - from.sx + 0.5, to.sy - from.sy + 0.5);
+    }
+  }
+  drawLegend(ctx, grid, options);
+}
+
+/** Contour lines by marching squares, each level colored by its height. */
+function drawContours(ctx: CanvasRenderingContext2D, grid: SurfaceGrid, options: DrawOptions) {
+  const { xs, ys, zs, zMin, zMax } = grid;
+  const { toScreen } = flatArea(options, grid);
+  if (zMax <= zMin) return;
+  ctx.lineWidth = 1.5;
+  for (let level = 1; level < CONTOUR_LEVELS; level++) {
+    const z = zMin + ((zMax - zMin) * level) / CONTOUR_LEVELS;
+    ctx.strokeStyle = scaleColor(level / CONTOUR_LEVELS);
+    ctx.beginPath();
+    for (let j = 0; j + 1 < ys.length; j++) {
+      for (let i = 0; i + 1 < xs.length; i++) {
+        // Corners around the cell and where the level crosses each edge.
+        const corners: [number, number][] = [[i, j], [i + 1, j], [i + 1, j + 1], [i, j + 1]];
+        const crossings: { sx: number; sy: number }[] = [];
+        corners.forEach(([ai, aj], k) => {
+          const [bi, bj] = corners[(k + 1) % 4];
+          const [za, zb] = [zs[aj][ai], zs[bj][bi]];
+          if (Number.isNaN(za) || Number.isNaN(zb) || (za < z) === (zb < z)) return;
+          const t = (z - za) / (zb - za);
+          crossings.push(toScreen(ai + (bi - ai) * t, aj + (bj - aj) * t));
+        });
+        for (let k = 0; k + 1 < crossings.length; k += 2) {
+          ctx.moveTo(crossings[k].sx, crossings[k].sy);
+          ctx.lineTo(crossings[k + 1].sx, crossings[k + 1].sy);
+        }
+      }
+    }
+    ctx.stroke();
+  }
+  drawLegend(ctx, grid, options);
+}
+
+/** Draws a sampled surface into `ctx`, clearing it to white first. */
+export function drawSurface(ctx: CanvasRenderingContext2D, grid: SurfaceGrid, options: DrawOptions) {
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, options.width, options.height);
+  switch (options.view) {
+    case 'wireframe':
+    case 'shaded':
+      drawMesh(ctx, grid, options);
+      break;
+    case 'contour':
+      drawContours(ctx, grid, options);
+      drawFlatFrame(ctx, grid, options);
+      break;
+    case 'heatmap':
+      drawHeatmap(ctx, grid, options);
+      drawFlatFrame(ctx, grid, options);
+      break;
+  }
+}
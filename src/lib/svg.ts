@@ -0,0 +1,7 @@
+/** Escapes text for use in SVG markup, in element content or attribute values. */
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');